@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getDealMemo, updateCritiques } from '@/lib/actions/deals';
 import { runCouncilCritique } from '@/src/mastra/workflows/council-critique';
+import { BudgetExceededError, withUsageContext } from '@/src/services/llm-usage';
 
 export const maxDuration = 120; // 2 minutes for council critique
 
@@ -42,12 +43,12 @@ export async function POST(req: NextRequest) {
     }
 
     // Run council critique workflow
-    const result = await runCouncilCritique({
+    const result = await withUsageContext({ supabase, userId: user.id, dealId }, () => runCouncilCritique({
       companyName: deal.company_name,
       ticker: deal.ticker || undefined,
       thesis: deal.thesis,
-      researchReport: deal.research_report,
-    });
+      researchReport: deal.research_report!,
+    }));
 
     // Save critiques to database
     await updateCritiques(dealId, result.critiques);
@@ -64,7 +65,7 @@ export async function POST(req: NextRequest) {
         error: 'Council critique failed',
         details: error instanceof Error ? error.message : 'Unknown error',
       },
-      { status: 500 }
+      { status: error instanceof BudgetExceededError ? 402 : 500 }
     );
   }
 }
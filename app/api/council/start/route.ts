@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { getResearchSession, addCouncilAnalysis, updateCouncilDebate } from '@/src/lib/actions/research';
-import { councilService } from '@/src/services/council-service';
+import { getResearchSession, updateSessionCouncilConfig } from '@/src/lib/actions/research';
+import { councilConfigSchema } from '@/src/types/council';
+import { enqueueResearchJob } from '@/src/services/research-jobs';
 
 export const runtime = 'nodejs';
-export const maxDuration = 300; // 5 minutes for council analysis (Vercel hobby limit)
 
 export async function POST(req: NextRequest) {
   try {
@@ -15,7 +15,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { sessionId } = await req.json();
+    const { sessionId, config } = await req.json();
 
     if (!sessionId) {
       return NextResponse.json({ error: 'sessionId is required' }, { status: 400 });
@@ -36,71 +36,26 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Research report not found' }, { status: 400 });
     }
 
-    // TypeScript now knows research_report is not null
-    const researchReport = session.research_report;
-    const thesis = session.thesis;
-
-    // Set up SSE stream
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          // Send initial status
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'progress', content: 'Convening investment council...' })}\n\n`));
-
-          // Run council analysis
-          const { analyses, debate } = await councilService.runCouncilAnalysis({
-            researchReport,
-            thesis,
-          });
-
-          // Send individual analyses as they complete
-          for (const analysis of analyses) {
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-              type: 'analysis',
-              agent: analysis.agent,
-              role: analysis.role,
-              content: analysis.analysis,
-            })}\n\n`));
-
-            // Save to database
-            await addCouncilAnalysis(sessionId, analysis.role, analysis.analysis);
-          }
-
-          // Send debate rounds
-          for (const round of debate) {
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-              type: 'debate_round',
-              round: round.round,
-              messages: round.messages,
-            })}\n\n`));
-          }
-
-          // Save complete debate to database
-          await updateCouncilDebate(sessionId, debate);
+    // Optional per-session council configuration (personas, models, rounds, termination)
+    if (config === null) {
+      await updateSessionCouncilConfig(sessionId, null);
+    } else if (config !== undefined) {
+      const parsed = councilConfigSchema.safeParse(config);
+      if (!parsed.success) {
+        return NextResponse.json({ error: `Invalid council config: ${parsed.error.message}` }, { status: 400 });
+      }
+      await updateSessionCouncilConfig(sessionId, parsed.data);
+    }
 
-          // Send completion
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'complete' })}\n\n`));
-          controller.close();
-        } catch (error) {
-          console.error('Council analysis error:', error);
-          const errorData = JSON.stringify({
-            type: 'error',
-            message: error instanceof Error ? error.message : 'Council analysis failed',
-          });
-          controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
-          controller.close();
-        }
-      },
+    // Run out of band; the client streams progress from /api/research/jobs/[jobId]/stream
+    const job = await enqueueResearchJob(supabase, {
+      userId: user.id,
+      sessionId,
+      kind: 'council',
+      input: {},
     });
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+    return NextResponse.json({ jobId: job.id, status: job.status });
   } catch (error) {
     console.error('Council API error:', error);
     return NextResponse.json(
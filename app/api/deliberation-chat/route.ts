@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getResearchSession, createDeliberationMessage } from '@/lib/actions/research';
-import OpenAI from 'openai';
+import { getModel } from '@/src/mastra/models';
+import { streamText } from '@/src/services/llm';
+import { BudgetExceededError, withUsageContext } from '@/src/services/llm-usage';
 
 export const runtime = 'nodejs';
 export const maxDuration = 120;
@@ -33,9 +35,8 @@ export async function POST(req: NextRequest) {
 
     await createDeliberationMessage(sessionId, 'user', message);
 
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
     const encoder = new TextEncoder();
-    const stream = new ReadableStream({
+    const stream = withUsageContext({ supabase, userId: user.id, sessionId }, () => new ReadableStream({
       async start(controller) {
         try {
           const researchContext = context || session.research_report?.substring(0, 3000) || 'No research available';
@@ -59,34 +60,28 @@ ${researchContext}${councilContext}
 
 Keep responses concise and focused. Use markdown for formatting.`;
 
-          const response = await openai.chat.completions.create({
-            model: 'gpt-4o',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: message },
-            ],
-            stream: true,
-            max_tokens: 2000,
+          const response = streamText(getModel('chat'), {
+            system: systemPrompt,
+            prompt: message,
+            maxTokens: 2000,
+            role: 'chat',
           });
 
           let fullResponse = '';
-          for await (const chunk of response) {
-            const content = chunk.choices[0]?.delta?.content || '';
-            if (content) {
-              fullResponse += content;
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`));
-            }
+          for await (const content of response) {
+            fullResponse += content;
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`));
           }
 
           await createDeliberationMessage(sessionId, 'assistant', fullResponse);
           controller.close();
         } catch (error) {
           console.error('Chat stream error:', error);
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: 'Chat failed' })}\n\n`));
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: error instanceof BudgetExceededError ? error.message : 'Chat failed' })}\n\n`));
           controller.close();
         }
       },
-    });
+    }));
 
     return new Response(stream, {
       headers: {
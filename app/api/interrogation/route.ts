@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getDealMemo, getInterrogationMessages } from '@/lib/actions/deals';
 import { Agent } from '@mastra/core';
+import { getMastraModel } from '@/src/mastra/models';
+import { BudgetExceededError, withUsageContext } from '@/src/services/llm-usage';
 
 export const maxDuration = 60;
 
@@ -11,7 +13,7 @@ function createInterrogationAgent(dealContext: {
   ticker?: string;
   thesis: string;
   report: string;
-  critiques?: { skeptic?: string; risk_officer?: string };
+  critiques?: { skeptic?: string; risk_officer?: string; bull_advocate?: string };
 }) {
   const { companyName, ticker, thesis, report, critiques } = dealContext;
 
@@ -27,6 +29,7 @@ ${report}
 
 ${critiques?.skeptic ? `# THE SKEPTIC'S CRITIQUE\n${critiques.skeptic}\n\n` : ''}
 ${critiques?.risk_officer ? `# THE RISK OFFICER'S ASSESSMENT\n${critiques.risk_officer}\n\n` : ''}
+${critiques?.bull_advocate ? `# THE BULL ADVOCATE'S CASE\n${critiques.bull_advocate}\n\n` : ''}
 
 YOUR ROLE:
 - Answer questions about this specific investment opportunity
@@ -40,11 +43,7 @@ Be concise but thorough. When relevant, reference specific sections from the res
   return new Agent({
     name: 'interrogation-agent',
     instructions: contextPrompt,
-    model: {
-      provider: 'ANTHROPIC',
-      name: 'claude-3-5-sonnet-20241022',
-      toolChoice: 'auto',
-    } as any,
+    model: getMastraModel('interrogation'),
   });
 }
 
@@ -92,6 +91,7 @@ export async function POST(req: NextRequest) {
       critiques: deal.critiques ? {
         skeptic: deal.critiques.skeptic?.content,
         risk_officer: deal.critiques.risk_officer?.content,
+        bull_advocate: deal.critiques.bull_advocate?.content,
       } : undefined,
     });
 
@@ -102,7 +102,10 @@ export async function POST(req: NextRequest) {
       : '';
 
     // Generate response
-    const result = await agent.generate(`${conversationContext}\n\nUser: ${message}`);
+    const result = await withUsageContext(
+      { supabase, userId: user.id, dealId },
+      () => agent.generate(`${conversationContext}\n\nUser: ${message}`)
+    );
 
     return NextResponse.json({
       response: result.text || 'No response generated',
@@ -114,7 +117,7 @@ export async function POST(req: NextRequest) {
         error: 'Failed to generate response',
         details: error instanceof Error ? error.message : 'Unknown error',
       },
-      { status: 500 }
+      { status: error instanceof BudgetExceededError ? 402 : 500 }
     );
   }
 }
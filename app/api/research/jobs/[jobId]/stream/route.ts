@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getResearchJob, getResearchJobEvents, isJobFinished } from '@/src/services/research-jobs';
+import { isTestMode, generateMockSpecializedEvents, getMockJobStrategy } from '@/lib/test-mode/mock-research-data';
+import type { ResearchStrategy } from '@/src/types/research';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // 5 minutes (Vercel hobby limit); clients reconnect with ?after=
+
+const POLL_INTERVAL_MS = 1000;
+const STREAM_BUDGET_MS = 270 * 1000;
+
+/**
+ * Stream a research job's events as SSE
+ *
+ * Replays every event after `?after=<seq>`, then tails new ones until the
+ * job finishes, then sends a final `end` event. Each event carries its
+ * `seq`; if the stream closes without `end`, reconnect with the last seq seen.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { jobId } = await params;
+
+  // Test mode: replay mock pipeline events for the mock job without DB calls
+  const mockStrategy = isTestMode() ? getMockJobStrategy(jobId) : null;
+  if (mockStrategy) {
+    return mockJobStream(mockStrategy, Number(req.nextUrl.searchParams.get('after')) || 0);
+  }
+
+  // RLS limits this to the user's own jobs
+  const job = await getResearchJob(supabase, jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  let after = Number(req.nextUrl.searchParams.get('after')) || 0;
+  const startTime = Date.now();
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        while (!req.signal.aborted && Date.now() - startTime < STREAM_BUDGET_MS) {
+          // Read status before events so nothing written just before completion is missed
+          const current = await getResearchJob(supabase, jobId);
+          const events = await getResearchJobEvents(supabase, jobId, after);
+
+          for (const event of events) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ ...event.data, seq: event.seq })}\n\n`));
+            after = event.seq;
+          }
+
+          if (!current || isJobFinished(current.status)) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'end', status: current?.status ?? 'failed', seq: after })}\n\n`));
+            break;
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error('Job stream error:', error);
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+function mockJobStream(strategy: ResearchStrategy, after: number): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      let seq = 0;
+      for await (const phase of generateMockSpecializedEvents(strategy)) {
+        seq++;
+        if (seq <= after) continue;
+        const data = { type: phase.phase, agent: phase.agent, content: phase.content, timestamp: phase.timestamp, seq };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      }
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'end', status: 'completed', seq })}\n\n`));
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
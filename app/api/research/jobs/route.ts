@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getResearchSession } from '@/src/lib/actions/research';
+import { enqueueResearchJob, getActiveResearchJob } from '@/src/services/research-jobs';
+import type { AutonomousInvestmentInput } from '@/src/mastra/workflows/autonomous-investment';
+
+export const runtime = 'nodejs';
+
+const DISCOVERY_TYPES: AutonomousInvestmentInput['discoveryTypes'] = ['value', 'special-sits', 'distressed', 'market-movers'];
+
+/**
+ * Active (queued or running) job for a session, so the UI can reattach after a reload
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const sessionId = req.nextUrl.searchParams.get('sessionId');
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'sessionId is required' }, { status: 400 });
+    }
+
+    // RLS limits this to the user's own jobs
+    const job = await getActiveResearchJob(supabase, sessionId);
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Research jobs API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Enqueue an autonomous investment workflow run
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { sessionId, discoveryTypes, maxOpportunities, maxResearchDepth, includeCritiques, includeVerdict } = await req.json();
+
+    if (!Array.isArray(discoveryTypes) || discoveryTypes.length === 0 || !discoveryTypes.every(t => DISCOVERY_TYPES.includes(t))) {
+      return NextResponse.json({
+        error: `discoveryTypes must be a non-empty array of: ${DISCOVERY_TYPES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    // With a session, the discovered opportunities are stored on it when the run finishes
+    if (sessionId) {
+      const session = await getResearchSession(sessionId);
+
+      if (!session) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
+
+      if (session.user_id !== user.id) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const job = await enqueueResearchJob(supabase, {
+      userId: user.id,
+      sessionId: sessionId || undefined,
+      kind: 'autonomous_investment',
+      input: { discoveryTypes, maxOpportunities, maxResearchDepth, includeCritiques, includeVerdict },
+    });
+
+    return NextResponse.json({ jobId: job.id, status: job.status });
+  } catch (error) {
+    console.error('Research jobs API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getDealMemo, updateResearchReport } from '@/lib/actions/deals';
 import { geminiResearch } from '@/src/services/gemini-research';
+import { BudgetExceededError, withUsageContext } from '@/src/services/llm-usage';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for deep research
@@ -36,7 +37,7 @@ export async function POST(req: NextRequest) {
 
     // Set up SSE stream
     const encoder = new TextEncoder();
-    const stream = new ReadableStream({
+    const stream = withUsageContext({ supabase, userId: user.id, dealId }, () => new ReadableStream({
       async start(controller) {
         try {
           // Start research
@@ -65,14 +66,14 @@ export async function POST(req: NextRequest) {
         } catch (error) {
           console.error('Research error:', error);
           const errorData = JSON.stringify({
-            type: 'error',
+            type: error instanceof BudgetExceededError ? 'budget_exceeded' : 'error',
             message: error instanceof Error ? error.message : 'Research failed',
           });
           controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
           controller.close();
         }
       },
-    });
+    }));
 
     return new Response(stream, {
       headers: {
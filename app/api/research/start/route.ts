@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getResearchSession, updateResearchReport } from '@/lib/actions/research';
 import { geminiResearch } from '@/src/services/gemini-research';
+import { BudgetExceededError, withUsageContext } from '@/src/services/llm-usage';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes for deep research (Vercel hobby limit)
@@ -34,7 +35,7 @@ export async function POST(req: NextRequest) {
 
     // Set up SSE stream
     const encoder = new TextEncoder();
-    const stream = new ReadableStream({
+    const stream = withUsageContext({ supabase, userId: user.id, sessionId }, () => new ReadableStream({
       async start(controller) {
         try {
           // Update status to 'researching' when research actually starts
@@ -52,7 +53,7 @@ export async function POST(req: NextRequest) {
           for await (const step of researchGenerator) {
             if (step.type === 'complete') {
               // Save final report to database
-              await updateResearchReport(sessionId, step.report);
+              await updateResearchReport(sessionId, step.report, step.sources);
 
               // Send completion event
               const data = JSON.stringify({ type: 'complete', report: step.report });
@@ -72,14 +73,14 @@ export async function POST(req: NextRequest) {
         } catch (error) {
           console.error('Research error:', error);
           const errorData = JSON.stringify({
-            type: 'error',
+            type: error instanceof BudgetExceededError ? 'budget_exceeded' : 'error',
             message: error instanceof Error ? error.message : 'Research failed',
           });
           controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
           controller.close();
         }
       },
-    });
+    }));
 
     return new Response(stream, {
       headers: {
@@ -1,17 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { runResearch } from '@/src/mastra/workflows/thesis-based-investment';
 import { getResearchSession } from '@/src/lib/actions/research';
+import { enqueueResearchJob } from '@/src/services/research-jobs';
 
 export const runtime = 'nodejs';
-export const maxDuration = 300; // 5 minutes (Vercel hobby limit)
 
 /**
  * Simple research API
  * 1. Get session thesis
- * 2. Run Gemini research
- * 3. Save report
- * 4. Return
+ * 2. Enqueue a Gemini research job for the research worker
+ * 3. Return the job id (progress streams from /api/research/jobs/[jobId]/stream)
  */
 export async function POST(req: NextRequest) {
   const supabase = await createClient();
@@ -37,53 +35,12 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
   }
 
-  // SSE stream for progress
-  const encoder = new TextEncoder();
-  const stream = new ReadableStream({
-    async start(controller) {
-      const send = (data: any) => {
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
-      };
-
-      // Update status to researching
-      await supabase
-        .from('research_sessions')
-        .update({ status: 'researching', research_started_at: new Date().toISOString() })
-        .eq('id', sessionId);
-
-      send({ type: 'status', message: 'Starting research...' });
-
-      const result = await runResearch(
-        { thesis: session.thesis, strategy: session.strategy },
-        (message) => send({ type: 'progress', message })
-      );
-
-      if (result.error) {
-        send({ type: 'error', message: result.error });
-        controller.close();
-        return;
-      }
-
-      // Save report to database
-      await supabase
-        .from('research_sessions')
-        .update({
-          research_report: result.report,
-          research_completed_at: new Date().toISOString(),
-          status: 'deliberation',
-        })
-        .eq('id', sessionId);
-
-      send({ type: 'complete', duration: result.duration });
-      controller.close();
-    },
+  const job = await enqueueResearchJob(supabase, {
+    userId: user.id,
+    sessionId,
+    kind: 'thesis_research',
+    input: {},
   });
 
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-    },
-  });
+  return NextResponse.json({ jobId: job.id, status: job.status });
 }
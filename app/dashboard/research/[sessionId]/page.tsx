@@ -1,7 +1,11 @@
 import { notFound } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
 import { getResearchSession, getDeliberationMessages } from '@/lib/actions/research';
+import { getUserSettings } from '@/lib/actions/settings';
+import { getSessionUsage } from '@/lib/actions/usage';
 import { ResearchView } from '@/components/research/research-view';
+import { getModel } from '@/src/mastra/models';
+import { buildDefaultCouncilConfig } from '@/src/types/council';
 import { isTestMode, MOCK_SESSION_ID } from '@/lib/test-mode/mock-research-data';
 
 // Mock session data for test mode
@@ -18,6 +22,7 @@ function getMockSession(sessionId: string, userId: string) {
     research_completed_at: null,
     council_analyses: [],
     council_debate: [],
+    council_config: null,
     council_started_at: null,
     council_completed_at: null,
     verdict: null,
@@ -26,6 +31,13 @@ function getMockSession(sessionId: string, userId: string) {
     finalized_at: null,
     discovered_opportunities: [],
     final_verdict: null,
+    pipeline_checkpoints: {},
+    valuations: [],
+    comparables: [],
+    ownership_changes: [],
+    capital_structures: [],
+    fact_check: null,
+    research_sources: [],
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
   };
@@ -62,12 +74,18 @@ export default async function ResearchSessionPage({
     notFound();
   }
 
-  const messages = await getDeliberationMessages(sessionId);
+  const [messages, settings, usage] = await Promise.all([
+    getDeliberationMessages(sessionId),
+    getUserSettings(),
+    getSessionUsage(sessionId),
+  ]);
 
   return (
     <ResearchView
       session={session}
       initialMessages={messages}
+      defaultCouncilConfig={settings?.council_config ?? buildDefaultCouncilConfig(getModel)}
+      usage={usage}
     />
   );
 }
@@ -0,0 +1,31 @@
+import { getUserSettings } from '@/lib/actions/settings';
+import { getMonthlySpend } from '@/lib/actions/usage';
+import { BudgetSettings } from '@/components/dashboard/budget-settings';
+
+export default async function SettingsPage() {
+  const [settings, spend] = await Promise.all([
+    getUserSettings(),
+    getMonthlySpend(),
+  ]);
+
+  return (
+    <div className="h-full overflow-auto bg-background">
+      <div className="w-full max-w-3xl mx-auto px-6 sm:px-8 py-10 lg:py-14">
+        <div className="mb-8">
+          <h1 className="text-2xl font-semibold mb-2">Settings</h1>
+          <p className="text-muted-foreground">
+            Control how much the research agents can spend on model calls.
+          </p>
+        </div>
+
+        <BudgetSettings
+          limits={{
+            monthly_budget_usd: settings?.monthly_budget_usd ?? null,
+            session_budget_usd: settings?.session_budget_usd ?? null,
+          }}
+          spend={spend}
+        />
+      </div>
+    </div>
+  );
+}
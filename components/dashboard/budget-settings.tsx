@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { updateUserBudgets, type BudgetLimits } from '@/src/lib/actions/settings';
+import type { MonthlySpend } from '@/src/lib/actions/usage';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(2)}`;
+}
+
+function parseLimit(value: string): number | null {
+  return value.trim() === '' ? null : Number(value);
+}
+
+interface SpendBarProps {
+  spent: number;
+  limit: number | null;
+}
+
+function SpendBar({ spent, limit }: SpendBarProps) {
+  if (limit === null) return null;
+
+  const ratio = limit > 0 ? Math.min(spent / limit, 1) : 1;
+
+  return (
+    <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+      <div
+        className={cn('h-full', ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500')}
+        style={{ width: `${ratio * 100}%` }}
+      />
+    </div>
+  );
+}
+
+interface BudgetSettingsProps {
+  limits: BudgetLimits;
+  spend: MonthlySpend;
+}
+
+/**
+ * View this month's LLM spend and adjust the monthly and per-session limits
+ */
+export function BudgetSettings({ limits, spend }: BudgetSettingsProps) {
+  const router = useRouter();
+  const [monthly, setMonthly] = useState(limits.monthly_budget_usd?.toString() ?? '');
+  const [session, setSession] = useState(limits.session_budget_usd?.toString() ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const monthName = new Date(spend.month_start).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const sessionLimit = limits.session_budget_usd;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const next = { monthly_budget_usd: parseLimit(monthly), session_budget_usd: parseLimit(session) };
+    if ([next.monthly_budget_usd, next.session_budget_usd].some(v => v !== null && !(v >= 0))) {
+      toast.error('Budgets must be non-negative amounts');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateUserBudgets(next);
+      toast.success('Budgets saved');
+      router.refresh();
+    } catch {
+      toast.error('Failed to save budgets');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>LLM Budgets</CardTitle>
+          <CardDescription>
+            Checked before every model call. When a limit is reached, running research stops and can be resumed after raising it. Leave blank for no limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="monthly_budget">Monthly budget (USD)</Label>
+                <Input
+                  id="monthly_budget"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={monthly}
+                  onChange={(e) => setMonthly(e.target.value)}
+                  placeholder="No limit"
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="session_budget">Per-session budget (USD)</Label>
+                <Input
+                  id="session_budget"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={session}
+                  onChange={(e) => setSession(e.target.value)}
+                  placeholder="No limit"
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <Button type="submit" size="sm" disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend in {monthName}</CardTitle>
+          <CardDescription>
+            Estimated from list prices across {spend.calls} model calls
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1.5">
+            <div className="flex items-baseline justify-between text-sm">
+              <span className="font-medium tabular-nums">{formatCost(spend.total_cost_usd)}</span>
+              <span className="text-muted-foreground">
+                {limits.monthly_budget_usd !== null ? `of ${formatCost(limits.monthly_budget_usd)}` : 'No monthly limit'}
+              </span>
+            </div>
+            <SpendBar spent={spend.total_cost_usd} limit={limits.monthly_budget_usd} />
+          </div>
+
+          {spend.sessions.length > 0 && (
+            <div className="space-y-3 pt-2 border-t">
+              {spend.sessions.map((s) => (
+                <div key={s.session_id} className="space-y-1">
+                  <div className="flex items-baseline justify-between gap-4 text-sm">
+                    <Link href={`/dashboard/research/${s.session_id}`} className="truncate hover:underline">
+                      {s.title}
+                    </Link>
+                    <span className="text-muted-foreground tabular-nums shrink-0">
+                      {formatCost(s.cost_usd)}
+                      {sessionLimit !== null && ` / ${formatCost(sessionLimit)}`}
+                    </span>
+                  </div>
+                  <SpendBar spent={s.cost_usd} limit={sessionLimit} />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
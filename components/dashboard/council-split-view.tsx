@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import type { DealMemo } from '@/types/deals';
 import ReactMarkdown from 'react-markdown';
-import { AlertTriangle, Shield } from 'lucide-react';
+import { AlertTriangle, Shield, TrendingUp } from 'lucide-react';
 
 interface CouncilSplitViewProps {
   deal: DealMemo;
@@ -33,7 +33,7 @@ export function CouncilSplitView({ deal }: CouncilSplitViewProps) {
   return (
     <div className="h-full flex">
       {/* Left Pane: Original Report */}
-      <div className="w-1/2 border-r border-border/40">
+      <div className="w-1/3 border-r border-border/40">
         <div className="h-full flex flex-col">
           <div className="border-b border-border/40 px-6 py-3">
             <h3 className="font-semibold">Original Research Report</h3>
@@ -48,8 +48,8 @@ export function CouncilSplitView({ deal }: CouncilSplitViewProps) {
         </div>
       </div>
 
-      {/* Right Pane: Critique Cards */}
-      <div className="w-1/2">
+      {/* Middle Pane: Bear Case Cards */}
+      <div className="w-1/3 border-r border-border/40">
         <ScrollArea className="h-full">
           <div className="p-6 space-y-6">
             {/* The Skeptic (ChatGPT) */}
@@ -120,6 +120,49 @@ export function CouncilSplitView({ deal }: CouncilSplitViewProps) {
           </div>
         </ScrollArea>
       </div>
+
+      {/* Right Pane: Bull Case */}
+      <div className="w-1/3">
+        <ScrollArea className="h-full">
+          <div className="p-6 space-y-6">
+            {deal.critiques.bull_advocate ? (
+              <Card className="border-emerald-500/30 bg-emerald-50/10 dark:bg-emerald-950/10">
+                <CardHeader className="border-b border-emerald-500/20">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-emerald-500/20 flex items-center justify-center">
+                      <TrendingUp className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-emerald-900 dark:text-emerald-100">
+                        The Bull Advocate
+                      </CardTitle>
+                      <CardDescription className="text-emerald-700 dark:text-emerald-300">
+                        Upside Case • Long Investor Perspective
+                      </CardDescription>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-6">
+                  <div className="prose prose-sm prose-neutral dark:prose-invert max-w-none">
+                    <ReactMarkdown>{deal.critiques.bull_advocate.content}</ReactMarkdown>
+                  </div>
+                  {deal.critiques.bull_advocate.timestamp && (
+                    <div className="mt-4 pt-4 border-t border-emerald-500/20">
+                      <Badge variant="outline" className="text-xs border-emerald-500/30">
+                        Generated {new Date(deal.critiques.bull_advocate.timestamp).toLocaleString()}
+                      </Badge>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center pt-12">
+                No bull case yet. Reconvene the council to hear from the Bull Advocate.
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
     </div>
   );
 }
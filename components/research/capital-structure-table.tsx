@@ -0,0 +1,142 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import type { CapitalStructure, DistributableValueBasis } from '@/src/types/capital-structure';
+import { cn } from '@/lib/utils';
+
+const BASIS_LABELS: Record<DistributableValueBasis, string> = {
+  input: 'set by agent',
+  ebitda_multiple: 'TTM EBITDA multiple plus cash',
+  liquidation: 'liquidation value',
+};
+
+function formatAmount(value: number): string {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1e9) return `${sign}$${(abs / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(1)}M`;
+  return `${sign}$${abs.toFixed(0)}`;
+}
+
+function formatMultiple(value: number | null): string {
+  return value === null ? '—' : `${value.toFixed(1)}x`;
+}
+
+/**
+ * Green for full recovery, amber for partial, red when the tranche is wiped out
+ */
+function recoveryColor(pct: number | null): string {
+  if (pct === null) return 'text-muted-foreground';
+  if (pct >= 0.99) return 'text-emerald-600';
+  if (pct > 0) return 'text-amber-600';
+  return 'text-red-600';
+}
+
+function Metric({ label, value, alert }: { label: string; value: string; alert?: boolean }) {
+  return (
+    <div>
+      <div className="text-muted-foreground">{label}</div>
+      <div className={cn('text-sm font-medium tabular-nums', alert && 'text-red-600')}>{value}</div>
+    </div>
+  );
+}
+
+function CapitalStack({ structure }: { structure: CapitalStructure }) {
+  const { debt, maturities, liquidity, waterfall } = structure;
+
+  return (
+    <section className="mb-8 rounded-lg border bg-card">
+      <div className="px-4 py-3 border-b">
+        <h2 className="text-sm font-semibold">Capital Structure: {structure.ticker}</h2>
+        <p className="text-xs text-muted-foreground">
+          Balance sheet as of {structure.asOf}; coverage, leverage and free cash flow on trailing twelve months.
+        </p>
+      </div>
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-3 px-4 py-3 border-b text-xs">
+        <Metric label="Total debt" value={formatAmount(debt.total)} />
+        <Metric label="Net debt" value={formatAmount(structure.netDebt)} />
+        <Metric label="Net debt / EBITDA" value={formatMultiple(structure.netLeverage)} alert={structure.netLeverage === null && structure.netDebt > 0} />
+        <Metric
+          label="Interest coverage"
+          value={formatMultiple(structure.interestCoverage)}
+          alert={structure.interestCoverage !== null && structure.interestCoverage < 1.5}
+        />
+        <Metric label="Due within 1 yr" value={formatAmount(maturities.dueWithinYear)} alert={!liquidity.coversNearTermMaturities} />
+        <Metric
+          label="Runway"
+          value={liquidity.runwayMonths === null ? 'FCF positive' : `${liquidity.runwayMonths.toFixed(0)} months`}
+          alert={liquidity.runwayMonths !== null && liquidity.runwayMonths < 12}
+        />
+      </div>
+      <div className="px-4 pt-3 text-xs text-muted-foreground">
+        Recovery waterfall: {formatAmount(waterfall.distributableValue)} distributable ({BASIS_LABELS[waterfall.basis]}
+        {waterfall.evMultiple !== null ? `, ${waterfall.evMultiple}x` : ''})
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b text-muted-foreground">
+              <th className="px-4 py-2 text-left font-medium">Claim</th>
+              <th className="px-2 py-2 text-right font-medium">Seniority</th>
+              <th className="px-2 py-2 text-right font-medium">Amount</th>
+              <th className="px-2 py-2 text-right font-medium">Recovery</th>
+              <th className="px-4 py-2 text-right font-medium">Recovery %</th>
+            </tr>
+          </thead>
+          <tbody>
+            {waterfall.tranches.map((tranche) => (
+              <tr key={tranche.name} className="border-b">
+                <td className="px-4 py-1.5">{tranche.name}</td>
+                <td className="px-2 py-1.5 text-right tabular-nums">{tranche.seniority}</td>
+                <td className="px-2 py-1.5 text-right tabular-nums">{formatAmount(tranche.claim)}</td>
+                <td className="px-2 py-1.5 text-right tabular-nums">{formatAmount(tranche.recovery)}</td>
+                <td className={cn('px-4 py-1.5 text-right tabular-nums font-medium', recoveryColor(tranche.recoveryPct))}>
+                  {tranche.recoveryPct === null ? '—' : `${(tranche.recoveryPct * 100).toFixed(0)}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td className="px-4 py-1.5 font-medium" colSpan={3}>Common equity</td>
+              <td className={cn('px-2 py-1.5 text-right tabular-nums font-medium', waterfall.equityResidual > 0 ? 'text-emerald-600' : 'text-red-600')}>
+                {formatAmount(waterfall.equityResidual)}
+              </td>
+              <td className="px-4 py-1.5 text-right tabular-nums text-muted-foreground">
+                {waterfall.equityPerShare !== null ? `$${waterfall.equityPerShare.toFixed(2)} / share` : '—'}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+      {structure.warnings.length > 0 && (
+        <ul className="px-4 py-3 border-t space-y-1 text-xs text-amber-700 dark:text-amber-500">
+          {structure.warnings.map((warning) => (
+            <li key={warning} className="flex items-start gap-1.5">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+interface CapitalStructureTableProps {
+  structures: CapitalStructure[];
+}
+
+/**
+ * Debt stack, credit metrics and recovery waterfall from the capital
+ * structure tool, one table per company
+ */
+export function CapitalStructureTable({ structures }: CapitalStructureTableProps) {
+  if (structures.length === 0) return null;
+
+  return (
+    <>
+      {structures.map((structure) => <CapitalStack key={structure.ticker} structure={structure} />)}
+    </>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import type { ComparableMetric, ComparablesTable as ComparablesTableData } from '@/src/types/comparables';
+import { cn } from '@/lib/utils';
+
+function formatValue(value: number | null | undefined, format: ComparableMetric['format']): string {
+  if (value === null || value === undefined) return '—';
+  if (format === 'percent') return `${(value * 100).toFixed(1)}%`;
+  if (format === 'multiple') return `${value.toFixed(1)}x`;
+  return value.toFixed(2);
+}
+
+function formatMarketCap(value: number | null): string {
+  if (value === null) return '—';
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
+  return `$${(value / 1e6).toFixed(0)}M`;
+}
+
+/**
+ * Green when the subject is in the most favorable third of its peers, red
+ * when in the least favorable third
+ */
+function rankColor(rank: number | null, count: number): string {
+  if (rank === null || count < 3) return 'text-muted-foreground';
+  if (rank <= count / 3) return 'text-emerald-600';
+  if (rank > (count * 2) / 3) return 'text-red-600';
+  return 'text-amber-600';
+}
+
+function PeerTable({ table }: { table: ComparablesTableData }) {
+  return (
+    <section className="mb-8 rounded-lg border bg-card">
+      <div className="px-4 py-3 border-b">
+        <h2 className="text-sm font-semibold">Peer Comparables: {table.ticker}</h2>
+        <p className="text-xs text-muted-foreground">
+          {[table.sector, table.industry].filter(Boolean).join(' / ')}
+          {(table.sector || table.industry) && ' · '}
+          {table.peerSelection}. Multiples are TTM; margins and coverage from the latest annual report. Rank 1 is cheapest or strongest.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b text-muted-foreground">
+              <th className="px-4 py-2 text-left font-medium">Company</th>
+              <th className="px-2 py-2 text-right font-medium">Mkt cap</th>
+              {table.metrics.map((metric) => (
+                <th key={metric.key} className="px-2 py-2 text-right font-medium whitespace-nowrap">{metric.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row) => (
+              <tr key={row.ticker} className={cn('border-b', row.isSubject && 'bg-muted/50 font-medium')}>
+                <td className="px-4 py-1.5 whitespace-nowrap">
+                  {row.ticker}
+                  {row.name !== row.ticker && <span className="ml-2 text-muted-foreground font-normal">{row.name}</span>}
+                </td>
+                <td className="px-2 py-1.5 text-right tabular-nums">{formatMarketCap(row.marketCap)}</td>
+                {table.metrics.map((metric) => (
+                  <td key={metric.key} className="px-2 py-1.5 text-right tabular-nums">
+                    {formatValue(row.values[metric.key], metric.format)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-b">
+              <td className="px-4 py-1.5 font-medium" colSpan={2}>Median</td>
+              {table.metrics.map((metric) => (
+                <td key={metric.key} className="px-2 py-1.5 text-right tabular-nums font-medium">
+                  {formatValue(table.stats[metric.key]?.median, metric.format)}
+                </td>
+              ))}
+            </tr>
+            <tr className="border-b text-muted-foreground">
+              <td className="px-4 py-1.5" colSpan={2}>25th – 75th percentile</td>
+              {table.metrics.map((metric) => {
+                const stat = table.stats[metric.key];
+                return (
+                  <td key={metric.key} className="px-2 py-1.5 text-right tabular-nums whitespace-nowrap">
+                    {stat?.p25 !== null && stat?.p25 !== undefined
+                      ? `${formatValue(stat.p25, metric.format)} – ${formatValue(stat.p75, metric.format)}`
+                      : '—'}
+                  </td>
+                );
+              })}
+            </tr>
+            <tr>
+              <td className="px-4 py-1.5 font-medium" colSpan={2}>{table.ticker} rank</td>
+              {table.metrics.map((metric) => {
+                const stat = table.stats[metric.key];
+                return (
+                  <td
+                    key={metric.key}
+                    className={cn('px-2 py-1.5 text-right tabular-nums font-medium', rankColor(stat?.subjectRank ?? null, stat?.count ?? 0))}
+                    title={stat?.subjectPercentile !== null && stat?.subjectPercentile !== undefined ? `${stat.subjectPercentile}th percentile` : undefined}
+                  >
+                    {stat?.subjectRank ? `${stat.subjectRank} / ${stat.count}` : '—'}
+                  </td>
+                );
+              })}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+      {table.warnings.length > 0 && (
+        <ul className="px-4 py-3 border-t space-y-1 text-xs text-amber-700 dark:text-amber-500">
+          {table.warnings.map((warning) => (
+            <li key={warning} className="flex items-start gap-1.5">
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+interface ComparablesTableProps {
+  tables: ComparablesTableData[];
+}
+
+/**
+ * Peer comparables from the comparables tool, one table per subject company
+ */
+export function ComparablesTable({ tables }: ComparablesTableProps) {
+  if (tables.length === 0) return null;
+
+  return (
+    <>
+      {tables.map((table) => <PeerTable key={table.ticker} table={table} />)}
+    </>
+  );
+}
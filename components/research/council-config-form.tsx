@@ -0,0 +1,145 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  COUNCIL_PERSONA_IDS,
+  DEFAULT_COUNCIL_CONFIG,
+  getCouncilPersona,
+  type CouncilConfig,
+  type CouncilPersonaConfig,
+  type CouncilPersonaId,
+  type CouncilProvider,
+  type CouncilTermination,
+} from '@/src/types/council';
+import { PROVIDER_DEFAULT_MODELS } from '@/src/types/models';
+
+interface CouncilConfigFormProps {
+  value: CouncilConfig;
+  onChange: (config: CouncilConfig) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Choose council members, the model behind each, and how the debate runs
+ */
+export function CouncilConfigForm({ value, onChange, disabled }: CouncilConfigFormProps) {
+  const personaConfig = (id: CouncilPersonaId): CouncilPersonaConfig =>
+    value.personas.find(p => p.id === id) ??
+    DEFAULT_COUNCIL_CONFIG.personas.find(p => p.id === id) ??
+    { id, provider: 'openai', model: PROVIDER_DEFAULT_MODELS.openai };
+
+  const togglePersona = (id: CouncilPersonaId, enabled: boolean) => {
+    const personas = enabled
+      ? [...value.personas, personaConfig(id)]
+      : value.personas.filter(p => p.id !== id);
+    // Keep at least one member on the council
+    if (personas.length > 0) onChange({ ...value, personas });
+  };
+
+  const updatePersona = (id: CouncilPersonaId, update: Partial<CouncilPersonaConfig>) => {
+    onChange({
+      ...value,
+      personas: value.personas.map(p => (p.id === id ? { ...p, ...update } : p)),
+    });
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Council Members</Label>
+        {COUNCIL_PERSONA_IDS.map((id) => {
+          const enabled = value.personas.some(p => p.id === id);
+          const persona = personaConfig(id);
+
+          return (
+            <div key={id} className="flex items-center gap-3 p-2 rounded-lg border bg-card">
+              <Switch
+                checked={enabled}
+                onCheckedChange={(checked) => togglePersona(id, checked)}
+                disabled={disabled}
+              />
+              <span className="text-sm w-36 shrink-0">{getCouncilPersona(id).label}</span>
+              <Select
+                value={persona.provider}
+                onValueChange={(provider) => updatePersona(id, {
+                  provider: provider as CouncilProvider,
+                  model: PROVIDER_DEFAULT_MODELS[provider as CouncilProvider],
+                })}
+                disabled={disabled || !enabled}
+              >
+                <SelectTrigger className="h-8 w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="openai">OpenAI</SelectItem>
+                  <SelectItem value="anthropic">Anthropic</SelectItem>
+                  <SelectItem value="google">Google</SelectItem>
+                  <SelectItem value="local">Local</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                value={persona.model}
+                onChange={(e) => updatePersona(id, { model: e.target.value })}
+                className="h-8 text-xs"
+                disabled={disabled || !enabled}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="council-rounds" className="text-sm font-medium">Debate Rounds</Label>
+          <Input
+            id="council-rounds"
+            type="number"
+            min={0}
+            max={6}
+            value={value.maxRounds}
+            onChange={(e) => onChange({ ...value, maxRounds: Math.min(6, Math.max(0, Number(e.target.value) || 0)) })}
+            className="h-8"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Stop Debate</Label>
+          <Select
+            value={value.termination}
+            onValueChange={(termination) => onChange({ ...value, termination: termination as CouncilTermination })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fixed">After all rounds</SelectItem>
+              <SelectItem value="convergence">When stances converge</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Switch
+          checked={!!value.synthesizer}
+          onCheckedChange={(checked) => onChange({
+            ...value,
+            synthesizer: checked ? (DEFAULT_COUNCIL_CONFIG.synthesizer ?? { provider: 'openai', model: PROVIDER_DEFAULT_MODELS.openai }) : null,
+          })}
+          disabled={disabled}
+        />
+        <span className="text-sm">Final synthesis</span>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 'use client';
 
 import React from 'react';
-import ReactMarkdown, { Components } from 'react-markdown';
+import ReactMarkdown, { Components, ExtraProps } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { CheckCircle2, HelpCircle, XCircle } from 'lucide-react';
+import { FACT_CHECK_MARKER, type ClaimStatus } from '@/src/types/fact-check';
+import type { ResearchSource } from '@/src/types/research-sources';
 
 interface SourceMap {
   [key: string]: { name: string; url: string };
@@ -54,14 +57,88 @@ function parseSources(markdown: string): SourceMap {
   return sources;
 }
 
+const FACT_CHECK_STYLES: Record<ClaimStatus, { icon: React.ReactNode; label: string; className: string }> = {
+  confirmed: {
+    icon: <CheckCircle2 className="w-3 h-3" />,
+    label: 'Confirmed',
+    className: 'text-emerald-700 bg-emerald-500/10 border-emerald-500/30 dark:text-emerald-400',
+  },
+  contradicted: {
+    icon: <XCircle className="w-3 h-3" />,
+    label: 'Contradicted',
+    className: 'text-red-700 bg-red-500/10 border-red-500/30 dark:text-red-400',
+  },
+  unverifiable: {
+    icon: <HelpCircle className="w-3 h-3" />,
+    label: 'Unverified',
+    className: 'text-muted-foreground bg-muted border-border',
+  },
+};
+
+/**
+ * Badge for a fact-check marker; the FMP figure shows on hover
+ */
+function FactCheckBadge({ status, note }: { status: ClaimStatus; note?: string }) {
+  const style = FACT_CHECK_STYLES[status];
+  return (
+    <span
+      className={`inline-flex items-center gap-0.5 ml-1 px-1 py-px rounded border align-middle font-sans text-[10px] font-medium leading-none ${style.className}`}
+      title={note ? `${style.label}: ${note}` : style.label}
+    >
+      {style.icon}
+      {status === 'contradicted' && note ? note : style.label}
+    </span>
+  );
+}
+
+/**
+ * Research sources supporting a paragraph or list item, matched by the report
+ * lines it spans
+ */
+function supportingSources(node: ExtraProps['node'], researchSources: ResearchSource[]): ResearchSource[] {
+  if (!node?.position || researchSources.length === 0) return [];
+
+  // Markdown lines are 1-based, support lines 0-based
+  const start = node.position.start.line - 1;
+  let end = node.position.end.line - 1;
+
+  // A nested list's lines belong to its own items
+  const nested = node.children.find(child => child.type === 'element' && (child.tagName === 'ul' || child.tagName === 'ol'));
+  if (nested?.position) end = nested.position.start.line - 2;
+
+  return researchSources.filter(source => source.supports.some(support => support.line >= start && support.line <= end));
+}
+
+/**
+ * Footnotes linking to the sources panel
+ */
+function SourceFootnotes({ sources }: { sources: ResearchSource[] }) {
+  if (sources.length === 0) return null;
+
+  return (
+    <sup className="inline font-sans text-[10px] font-semibold text-blue-600 dark:text-blue-400 ml-0.5">
+      {sources.map((source, i) => (
+        <a key={source.id} href={`#source-${source.id}`} className="hover:underline no-underline" title={source.title}>
+          {i > 0 ? ',' : ''}{source.id}
+        </a>
+      ))}
+    </sup>
+  );
+}
+
 function formatTextWithCitations(text: string, sources: SourceMap): React.ReactNode {
   if (typeof text !== 'string') return text;
   
-  // Split text by various citation formats:
-  // [cite: 7], [cite:7], [7], [1,2], [cite: 1, 2]
-  const parts = text.split(/(\[cite:\s*\d+(?:,\s*\d+)*\]|\[\d+(?:,\s*\d+)*\])/gi);
+  // Split text by various citation formats and fact-check markers:
+  // [cite: 7], [cite:7], [7], [1,2], [cite: 1, 2], [fact-check: confirmed; ...]
+  const parts = text.split(/(\[cite:\s*\d+(?:,\s*\d+)*\]|\[\d+(?:,\s*\d+)*\]|\[fact-check:[^\]]*\])/gi);
 
   return parts.map((part, index) => {
+    const factCheck = part.match(FACT_CHECK_MARKER);
+    if (factCheck && factCheck[0] === part) {
+      return <FactCheckBadge key={index} status={factCheck[1] as ClaimStatus} note={factCheck[2]} />;
+    }
+
     // Match [cite: X] or [cite:X] format
     const citeMatch = part.match(/^\[cite:\s*(\d+(?:,\s*\d+)*)\]$/i);
     // Match [X] format
@@ -119,9 +196,11 @@ function processChildrenWithCitations(children: React.ReactNode, sources: Source
 interface FormattedMarkdownProps {
   content: string;
   className?: string;
+  /** Sources captured with the report, shown as footnotes on the paragraphs they support */
+  researchSources?: ResearchSource[];
 }
 
-export function FormattedMarkdown({ content, className = '' }: FormattedMarkdownProps) {
+export function FormattedMarkdown({ content, className = '', researchSources = [] }: FormattedMarkdownProps) {
   const sources = parseSources(content);
 
   const components: Components = {
@@ -148,9 +227,10 @@ export function FormattedMarkdown({ content, className = '' }: FormattedMarkdown
     ),
     
     // Paragraphs
-    p: ({ children }) => (
+    p: ({ node, children }) => (
       <p className="font-serif mb-4 text-[18px] leading-[1.8] text-foreground/90">
         {processChildrenWithCitations(children, sources)}
+        <SourceFootnotes sources={supportingSources(node, researchSources)} />
       </p>
     ),
     
@@ -161,11 +241,16 @@ export function FormattedMarkdown({ content, className = '' }: FormattedMarkdown
     ol: ({ children }) => (
       <ol className="font-serif mb-4 ml-6 list-decimal space-y-2">{children}</ol>
     ),
-    li: ({ children }) => (
-      <li className="font-serif text-[17px] leading-[1.8] text-foreground/90">
-        {processChildrenWithCitations(children, sources)}
-      </li>
-    ),
+    li: ({ node, children }) => {
+      // Items of loose lists wrap their text in paragraphs, which carry the footnotes
+      const hasParagraphs = node?.children.some(child => child.type === 'element' && child.tagName === 'p');
+      return (
+        <li className="font-serif text-[17px] leading-[1.8] text-foreground/90">
+          {processChildrenWithCitations(children, sources)}
+          {!hasParagraphs && <SourceFootnotes sources={supportingSources(node, researchSources)} />}
+        </li>
+      );
+    },
     
     // Tables - properly styled
     table: ({ children }) => (
@@ -220,7 +305,7 @@ export function FormattedMarkdown({ content, className = '' }: FormattedMarkdown
     // Blockquotes
     blockquote: ({ children }) => (
       <blockquote className="font-serif my-4 pl-4 border-l-2 border-primary/40 italic text-muted-foreground text-[17px]">
-        {children}
+        {processChildrenWithCitations(children, sources)}
       </blockquote>
     ),
     
@@ -232,7 +317,7 @@ export function FormattedMarkdown({ content, className = '' }: FormattedMarkdown
         rel="noopener noreferrer"
         className="text-blue-600 dark:text-blue-400 hover:underline"
       >
-        {children}
+        {processChildrenWithCitations(children, sources)}
       </a>
     ),
     
@@ -0,0 +1,95 @@
+'use client';
+
+import { UserCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { Opportunity } from '@/src/mastra/workflows/opportunity-discovery';
+import type { InsiderSignal } from '@/src/types/insider-signal';
+import type { DealTerms } from '@/src/types/merger-arb';
+import { cn } from '@/lib/utils';
+
+const RISK_COLORS: Record<Opportunity['riskLevel'], string> = {
+  low: 'text-emerald-600 bg-emerald-500/10 border-emerald-500/20',
+  medium: 'text-amber-600 bg-amber-500/10 border-amber-500/20',
+  high: 'text-red-600 bg-red-500/10 border-red-500/20',
+};
+
+const SIGNAL_COLORS: Record<InsiderSignal['strength'], string> = {
+  strong: 'text-emerald-600 bg-emerald-500/10 border-emerald-500/20',
+  moderate: 'text-blue-600 bg-blue-500/10 border-blue-500/20',
+  weak: 'text-muted-foreground bg-muted border-border',
+  none: 'text-muted-foreground bg-muted border-border',
+};
+
+function InsiderSignalBadge({ signal }: { signal: InsiderSignal }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn('gap-1 font-medium', SIGNAL_COLORS[signal.strength])}
+      title={signal.reasons.length > 0 ? signal.reasons.join('\n') : `No insider buying in the last ${signal.lookbackDays} days`}
+    >
+      <UserCheck className="w-3 h-3" />
+      Insiders {signal.score}
+    </Badge>
+  );
+}
+
+/**
+ * Announced consideration per target share, e.g. "$12.00 cash + 0.45 ACQ (collar $40.00-$50.00)"
+ */
+function formatConsideration(terms: DealTerms): string {
+  const parts: string[] = [];
+  if (terms.cashPerShare > 0) parts.push(`$${terms.cashPerShare.toFixed(2)} cash`);
+  if (terms.collar?.type === 'fixed_value') {
+    parts.push(`$${terms.collar.stockValue.toFixed(2)} in ${terms.acquirerTicker ?? 'stock'}`);
+  } else if (terms.stockRatio > 0) {
+    parts.push(`${terms.stockRatio} ${terms.acquirerTicker ?? 'acquirer shares'}`);
+  }
+
+  const collar = terms.collar ? ` (collar $${terms.collar.lowerPrice.toFixed(2)}-$${terms.collar.upperPrice.toFixed(2)})` : '';
+  return `${parts.join(' + ')}${collar}`;
+}
+
+interface OpportunityCardProps {
+  opportunity: Opportunity;
+}
+
+/**
+ * Discovered opportunity with its risk, screener score, insider signal and
+ * any announced deal terms
+ */
+export function OpportunityCard({ opportunity }: OpportunityCardProps) {
+  const { insiderSignal, dealTerms } = opportunity;
+
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <div className="flex items-start justify-between gap-3 mb-2">
+        <div className="min-w-0">
+          <div className="text-sm font-semibold">{opportunity.ticker}</div>
+          <div className="text-xs text-muted-foreground truncate">{opportunity.companyName}</div>
+        </div>
+        <div className="flex flex-wrap justify-end gap-1.5 shrink-0">
+          {insiderSignal && <InsiderSignalBadge signal={insiderSignal} />}
+          <Badge variant="outline" className={cn('font-medium capitalize', RISK_COLORS[opportunity.riskLevel])}>
+            {opportunity.riskLevel} risk
+          </Badge>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground line-clamp-3">{opportunity.thesis}</p>
+      {dealTerms && (
+        <p className="mt-2 text-xs">
+          <span className="font-medium">Deal:</span> {formatConsideration(dealTerms)}
+          {dealTerms.acquirer && <> from {dealTerms.acquirer}</>}, expected close {dealTerms.expectedCloseDate}
+        </p>
+      )}
+      <div className="mt-3 flex items-center gap-3 text-xs text-muted-foreground">
+        <span className="capitalize">{opportunity.type}</span>
+        {opportunity.score !== undefined && <span>Score {opportunity.score}</span>}
+        {insiderSignal?.cluster && (
+          <span className="text-emerald-600">
+            {insiderSignal.cluster.insiders} insiders bought {insiderSignal.cluster.start} – {insiderSignal.cluster.end}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
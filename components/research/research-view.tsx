@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -19,12 +19,26 @@ import {
 } from '@/components/ui/alert-dialog';
 import {
   Loader2, FileText, MessageSquare, Users, CheckCircle2, AlertCircle, ArrowRight, Brain,
-  TrendingUp, TrendingDown, ShieldAlert, Sparkles, AlertTriangle, ChevronDown, X, Search, ArrowLeft, DollarSign
+  TrendingUp, TrendingDown, ShieldAlert, Sparkles, AlertTriangle, ChevronDown, X, Search, ArrowLeft, DollarSign,
+  Circle, RotateCcw, Globe
 } from 'lucide-react';
 import { FormattedMarkdown } from './formatted-markdown';
 import { PopupChat } from './popup-chat';
 import { SimulateTab } from './simulate-tab';
+import { CouncilConfigForm } from './council-config-form';
+import { UsageBreakdown } from './usage-breakdown';
+import { ValuationTable } from './valuation-table';
+import { ComparablesTable } from './comparables-table';
+import { CapitalStructureTable } from './capital-structure-table';
+import { SourcesPanel } from './sources-panel';
+import { OpportunityCard } from './opportunity-card';
 import type { ResearchSession } from '@/src/lib/actions/research';
+import type { SessionUsage } from '@/src/lib/actions/usage';
+import type { CheckpointPhase, PipelineCheckpoints } from '@/src/services/specialized-research';
+import { DEFAULT_COUNCIL_CONFIG, type CouncilConfig } from '@/src/types/council';
+import type { FactCheck } from '@/src/types/fact-check';
+import { updateUserCouncilConfig } from '@/src/lib/actions/settings';
+import { streamResearchJob, type ResearchJobStreamEvent } from '@/lib/research-job-stream';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -41,8 +55,78 @@ const ROLE_CONFIG: Record<string, { icon: React.ReactNode; label: string; color:
   'risk officer': { icon: <ShieldAlert className="w-5 h-5" />, label: 'Risk Officer', color: 'text-amber-600', bgColor: 'bg-amber-500/10 border-amber-500/20' },
   'special situations': { icon: <Sparkles className="w-5 h-5" />, label: 'Special Sits', color: 'text-purple-600', bgColor: 'bg-purple-500/10 border-purple-500/20' },
   'distressed': { icon: <AlertTriangle className="w-5 h-5" />, label: 'Distressed', color: 'text-orange-600', bgColor: 'bg-orange-500/10 border-orange-500/20' },
+  'market cycle': { icon: <Globe className="w-5 h-5" />, label: 'Market Cycle', color: 'text-sky-600', bgColor: 'bg-sky-500/10 border-sky-500/20' },
 };
 
+const PIPELINE_PHASES: { phase: CheckpointPhase; event: string; label: string }[] = [
+  { phase: 'research', event: 'researching', label: 'Deep Research' },
+  { phase: 'fact_check', event: 'fact_check', label: 'Fact Check' },
+  { phase: 'strategy_analysis', event: 'strategy_analysis', label: 'Strategy Analysis' },
+  { phase: 'critique', event: 'critique', label: 'Council Critique' },
+  { phase: 'verdict', event: 'verdict', label: 'Verdict' },
+];
+
+interface PipelinePhasesProps {
+  checkpoints: PipelineCheckpoints;
+  activePhase: CheckpointPhase | null;
+  isRunning: boolean;
+  onRetry: (phase: CheckpointPhase) => void;
+}
+
+/**
+ * Specialized research phases with their checkpoint state and a retry per phase
+ */
+function PipelinePhases({ checkpoints, activePhase, isRunning, onRetry }: PipelinePhasesProps) {
+  return (
+    <div className="px-4 py-2 border-b flex items-center gap-4 overflow-x-auto shrink-0">
+      {PIPELINE_PHASES.map(({ phase, label }) => {
+        const failed = !isRunning && checkpoints.failure?.phase === phase;
+        const done = !!checkpoints[phase];
+        const running = isRunning && activePhase === phase;
+
+        return (
+          <div key={phase} className="flex items-center gap-1.5 text-xs shrink-0">
+            {running ? (
+              <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-500" />
+            ) : failed ? (
+              <AlertCircle className="w-3.5 h-3.5 text-red-500" />
+            ) : done ? (
+              <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />
+            ) : (
+              <Circle className="w-3.5 h-3.5 text-muted-foreground" />
+            )}
+            <span className={cn(failed ? 'text-red-600' : 'text-muted-foreground')} title={failed ? checkpoints.failure?.error : undefined}>
+              {label}
+            </span>
+            {!isRunning && (failed || done) && (
+              <Button variant="ghost" size="sm" className="h-6 px-1.5 text-xs" onClick={() => onRetry(phase)}>
+                <RotateCcw className="w-3 h-3 mr-1" />
+                {failed ? 'Retry' : 'Re-run'}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * One-line tally of the fact check; each claim is marked inline in the report
+ */
+function FactCheckSummary({ factCheck }: { factCheck: FactCheck }) {
+  const { confirmed, contradicted, unverifiable } = factCheck.counts;
+  if (factCheck.claims.length === 0) return null;
+
+  return (
+    <p className="mb-6 text-xs text-muted-foreground">
+      Fact check against FMP data: <span className="text-emerald-600">{confirmed} confirmed</span>,{' '}
+      <span className={cn(contradicted > 0 && 'text-red-600 font-medium')}>{contradicted} contradicted</span>,{' '}
+      {unverifiable} unverifiable of {factCheck.claims.length} figures.
+    </p>
+  );
+}
+
 function getRoleConfig(role: string | undefined | null) {
   if (!role) return { icon: <Users className="w-5 h-5" />, label: 'Analyst', color: 'text-blue-600', bgColor: 'bg-blue-500/10 border-blue-500/20' };
   return ROLE_CONFIG[role.toLowerCase()] || { icon: <Users className="w-5 h-5" />, label: role, color: 'text-blue-600', bgColor: 'bg-blue-500/10 border-blue-500/20' };
@@ -51,9 +135,11 @@ function getRoleConfig(role: string | undefined | null) {
 interface ResearchViewProps {
   session: ResearchSession;
   initialMessages?: any[];
+  defaultCouncilConfig?: CouncilConfig;
+  usage?: SessionUsage;
 }
 
-export function ResearchView({ session, initialMessages = [] }: ResearchViewProps) {
+export function ResearchView({ session, initialMessages = [], defaultCouncilConfig = DEFAULT_COUNCIL_CONFIG, usage }: ResearchViewProps) {
   const router = useRouter();
   const [report, setReport] = useState(session.research_report);
   const [councilAnalyses, setCouncilAnalyses] = useState(session.council_analyses || []);
@@ -64,15 +150,22 @@ export function ResearchView({ session, initialMessages = [] }: ResearchViewProp
   const [showDelete, setShowDelete] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [checkpoints, setCheckpoints] = useState<PipelineCheckpoints>(session.pipeline_checkpoints || {});
+  const [isPipelineRunning, setIsPipelineRunning] = useState(false);
+  const [activePhase, setActivePhase] = useState<CheckpointPhase | null>(null);
+  const [councilConfig, setCouncilConfig] = useState<CouncilConfig>(session.council_config ?? defaultCouncilConfig);
   const hasAutoStarted = useRef(false);
+  const followedJobs = useRef(new Set<string>());
 
   const strategy = session.strategy || 'general';
+  const opportunities = session.discovered_opportunities ?? [];
   const strategyConfig = STRATEGY_CONFIG[strategy] || STRATEGY_CONFIG.general;
 
   // Sync with session updates
   useEffect(() => {
     setReport(session.research_report);
     setCouncilAnalyses(session.council_analyses || []);
+    setCheckpoints(session.pipeline_checkpoints || {});
   }, [session]);
 
   // Auto-start research for non-general strategies
@@ -83,11 +176,61 @@ export function ResearchView({ session, initialMessages = [] }: ResearchViewProp
     }
   }, [session.status, session.research_report, strategy]);
 
-  const startResearch = async () => {
+  const handleResearchEvent = useCallback((data: ResearchJobStreamEvent) => {
+    if (data.type === 'progress' || data.type === 'status') {
+      setProgress(data.message ?? '');
+    } else if (data.type === 'complete') {
+      toast.success('Research complete!');
+      router.refresh();
+    } else if (data.type === 'error') {
+      setError(data.message ?? data.content ?? 'Research failed');
+      toast.error('Research failed');
+    } else if (data.type === 'budget_exceeded') {
+      setError(data.message ?? 'LLM budget reached');
+      toast.error('Research stopped: LLM budget reached');
+    }
+  }, [router]);
+
+  const followResearch = useCallback(async (jobId: string) => {
+    if (followedJobs.current.has(jobId)) return;
+    followedJobs.current.add(jobId);
     setIsLoading(true);
+    setError(null);
+    try {
+      await streamResearchJob(jobId, handleResearchEvent);
+    } catch {
+      setError('Lost connection to research job');
+    }
+    followedJobs.current.delete(jobId);
+    setIsLoading(false);
+  }, [handleResearchEvent]);
+
+  const startResearch = async () => {
     setError(null);
     setProgress('Initializing...');
 
+    // Strategies run the checkpointed pipeline, which adds the fact check, valuations and critique
+    if (strategy !== 'general') {
+      setIsPipelineRunning(true);
+
+      const response = await fetch('/api/research/specialized', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId: session.id, strategy }),
+      });
+
+      if (!response.ok) {
+        setError('Failed to start research');
+        setIsPipelineRunning(false);
+        return;
+      }
+
+      const { jobId } = await response.json();
+      await followPipeline(jobId);
+      return;
+    }
+
+    setIsLoading(true);
     const response = await fetch('/api/research/thesis-start', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -100,43 +243,120 @@ export function ResearchView({ session, initialMessages = [] }: ResearchViewProp
       return;
     }
 
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    while (reader) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = JSON.parse(line.slice(6));
-          if (data.type === 'progress' || data.type === 'status') {
-            setProgress(data.message);
-          } else if (data.type === 'complete') {
-            toast.success('Research complete!');
-            router.refresh();
-          } else if (data.type === 'error') {
-            setError(data.message);
-            toast.error('Research failed');
-          }
-        }
-      }
+    const { jobId } = await response.json();
+    await followResearch(jobId);
+  };
+
+  const handlePipelineEvent = useCallback((data: ResearchJobStreamEvent) => {
+    const phase = PIPELINE_PHASES.find(p => p.event === data.type);
+    if (phase) {
+      setActivePhase(phase.phase);
+      setProgress(data.content ?? '');
+    } else if (data.type === 'complete') {
+      toast.success('Research complete!');
+      router.refresh();
+    } else if (data.type === 'error') {
+      toast.error(data.content ?? 'Research failed');
+      router.refresh();
+    } else if (data.type === 'budget_exceeded') {
+      // Completed phases are checkpointed; resume from the failed phase after raising the limit
+      toast.error(data.content ?? 'LLM budget reached');
+      router.refresh();
     }
-    setIsLoading(false);
+  }, [router]);
+
+  const followPipeline = useCallback(async (jobId: string) => {
+    if (followedJobs.current.has(jobId)) return;
+    followedJobs.current.add(jobId);
+    setIsPipelineRunning(true);
+    try {
+      await streamResearchJob(jobId, handlePipelineEvent);
+    } catch {
+      toast.error('Lost connection to research job');
+    }
+    followedJobs.current.delete(jobId);
+    setActivePhase(null);
+    setIsPipelineRunning(false);
+  }, [handlePipelineEvent]);
+
+  // Resume the specialized pipeline, re-running `phase` and everything after it
+  const retryPhase = async (phase: CheckpointPhase) => {
+    setIsPipelineRunning(true);
+    setActivePhase(phase);
+
+    const response = await fetch('/api/research/specialized', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: session.id, strategy, resume: true, retryPhase: phase }),
+    });
+
+    if (!response.ok) {
+      toast.error('Failed to resume research');
+      setIsPipelineRunning(false);
+      setActivePhase(null);
+      return;
+    }
+
+    const { jobId } = await response.json();
+    await followPipeline(jobId);
   };
 
+  const handleCouncilEvent = useCallback((data: ResearchJobStreamEvent) => {
+    if (data.type === 'analysis') {
+      setCouncilAnalyses(prev => [...prev, { agent: data.agent, role: data.role, analysis: data.content }]);
+    } else if (data.type === 'complete') {
+      toast.success('Council debate complete!');
+      router.refresh();
+    } else if (data.type === 'error') {
+      toast.error('Council failed');
+    } else if (data.type === 'budget_exceeded') {
+      toast.error(data.message ?? 'LLM budget reached');
+      router.refresh();
+    }
+  }, [router]);
+
+  const followCouncil = useCallback(async (jobId: string) => {
+    if (followedJobs.current.has(jobId)) return;
+    followedJobs.current.add(jobId);
+    setIsCouncilRunning(true);
+    try {
+      await streamResearchJob(jobId, handleCouncilEvent);
+    } catch {
+      toast.error('Lost connection to council job');
+    }
+    followedJobs.current.delete(jobId);
+    setIsCouncilRunning(false);
+  }, [handleCouncilEvent]);
+
+  // Reattach to a research or council job that is still running (e.g. after a reload)
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/research/jobs?sessionId=${session.id}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (cancelled || !data?.job) return;
+        hasAutoStarted.current = true;
+        if (data.job.kind === 'council') {
+          followCouncil(data.job.id);
+        } else if (data.job.kind === 'specialized_research') {
+          followPipeline(data.job.id);
+        } else {
+          followResearch(data.job.id);
+        }
+      })
+      .catch(() => {});
+
+    return () => { cancelled = true; };
+  }, [session.id, followCouncil, followPipeline, followResearch]);
+
   const startCouncil = async () => {
     setIsCouncilRunning(true);
 
     const response = await fetch('/api/council/start', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ sessionId: session.id }),
+      body: JSON.stringify({ sessionId: session.id, config: councilConfig }),
     });
 
     if (!response.ok) {
@@ -145,33 +365,17 @@ export function ResearchView({ session, initialMessages = [] }: ResearchViewProp
       return;
     }
 
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    while (reader) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = JSON.parse(line.slice(6));
-          if (data.type === 'analysis') {
-            setCouncilAnalyses(prev => [...prev, { agent: data.agent, role: data.role, analysis: data.content }]);
-          } else if (data.type === 'complete') {
-            toast.success('Council debate complete!');
-            router.refresh();
-          } else if (data.type === 'error') {
-            toast.error('Council failed');
-          }
-        }
-      }
+    const { jobId } = await response.json();
+    await followCouncil(jobId);
+  };
+
+  const saveDefaultCouncilConfig = async () => {
+    try {
+      await updateUserCouncilConfig(councilConfig);
+      toast.success('Saved as your default council');
+    } catch {
+      toast.error('Failed to save council settings');
     }
-    setIsCouncilRunning(false);
   };
 
   const handleDelete = async () => {
@@ -215,9 +419,12 @@ export function ResearchView({ session, initialMessages = [] }: ResearchViewProp
             </div>
           </div>
         </div>
-        <Button variant="ghost" size="icon" onClick={() => setShowDelete(true)}>
-          <X className="w-4 h-4" />
-        </Button>
+        <div className="flex items-center gap-2">
+          {usage && <UsageBreakdown usage={usage} />}
+          <Button variant="ghost" size="icon" onClick={() => setShowDelete(true)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
       </header>
 
       {/* Content with Tabs */}
@@ -243,53 +450,78 @@ export function ResearchView({ session, initialMessages = [] }: ResearchViewProp
           </div>
 
           {/* Research Tab */}
-          <TabsContent value="research" className="flex-1 overflow-hidden m-0">
-            {!report ? (
-              <div className="h-full flex items-center justify-center p-8">
-                {error ? (
-                  <div className="text-center max-w-md">
-                    <div className="w-16 h-16 rounded-full bg-red-500/10 flex items-center justify-center mx-auto mb-4">
-                      <AlertCircle className="w-8 h-8 text-red-500" />
-                    </div>
-                    <h2 className="text-lg font-semibold mb-2">Research Failed</h2>
-                    <p className="text-muted-foreground text-sm mb-4">{error}</p>
-                    <Button onClick={startResearch}>Try Again</Button>
-                  </div>
-                ) : isLoading ? (
-                  <div className="text-center max-w-md">
-                    <div className="w-16 h-16 rounded-full bg-blue-500/10 flex items-center justify-center mx-auto mb-4">
-                      <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+          <TabsContent value="research" className="flex-1 overflow-hidden m-0 flex flex-col">
+            {(isPipelineRunning || Object.keys(checkpoints).length > 0) && (
+              <PipelinePhases
+                checkpoints={checkpoints}
+                activePhase={activePhase}
+                isRunning={isPipelineRunning}
+                onRetry={retryPhase}
+              />
+            )}
+            <div className="flex-1 min-h-0">
+              {!report && opportunities.length === 0 ? (
+                <div className="h-full flex items-center justify-center p-8">
+                  {error ? (
+                    <div className="text-center max-w-md">
+                      <div className="w-16 h-16 rounded-full bg-red-500/10 flex items-center justify-center mx-auto mb-4">
+                        <AlertCircle className="w-8 h-8 text-red-500" />
+                      </div>
+                      <h2 className="text-lg font-semibold mb-2">Research Failed</h2>
+                      <p className="text-muted-foreground text-sm mb-4">{error}</p>
+                      <Button onClick={startResearch}>Try Again</Button>
                     </div>
-                    <h2 className="text-lg font-semibold mb-2">Researching...</h2>
-                    <p className="text-muted-foreground text-sm mb-4">
-                      Gemini is analyzing investment opportunities. This takes 5-10 minutes.
-                    </p>
-                    <div className="bg-muted/50 rounded-lg px-4 py-2 text-sm text-muted-foreground">
-                      {progress}
+                  ) : isLoading || isPipelineRunning ? (
+                    <div className="text-center max-w-md">
+                      <div className="w-16 h-16 rounded-full bg-blue-500/10 flex items-center justify-center mx-auto mb-4">
+                        <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+                      </div>
+                      <h2 className="text-lg font-semibold mb-2">Researching...</h2>
+                      <p className="text-muted-foreground text-sm mb-4">
+                        Gemini is analyzing investment opportunities. This takes 5-10 minutes.
+                      </p>
+                      <div className="bg-muted/50 rounded-lg px-4 py-2 text-sm text-muted-foreground">
+                        {progress}
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <div className="text-center max-w-md">
-                    <div className="w-16 h-16 rounded-full bg-foreground/5 flex items-center justify-center mx-auto mb-4">
-                      <Brain className="w-8 h-8" />
+                  ) : (
+                    <div className="text-center max-w-md">
+                      <div className="w-16 h-16 rounded-full bg-foreground/5 flex items-center justify-center mx-auto mb-4">
+                        <Brain className="w-8 h-8" />
+                      </div>
+                      <h2 className="text-lg font-semibold mb-2">Ready to Research</h2>
+                      <p className="text-muted-foreground text-sm mb-4">
+                        Click below to start AI-powered research on your investment thesis.
+                      </p>
+                      <Button onClick={startResearch}>
+                        Start Research <ArrowRight className="w-4 h-4 ml-2" />
+                      </Button>
                     </div>
-                    <h2 className="text-lg font-semibold mb-2">Ready to Research</h2>
-                    <p className="text-muted-foreground text-sm mb-4">
-                      Click below to start AI-powered research on your investment thesis.
-                    </p>
-                    <Button onClick={startResearch}>
-                      Start Research <ArrowRight className="w-4 h-4 ml-2" />
-                    </Button>
-                  </div>
-                )}
-              </div>
-            ) : (
-              <ScrollArea className="h-full">
-                <article className="max-w-4xl mx-auto px-6 py-8">
-                  <FormattedMarkdown content={report} />
-                </article>
-              </ScrollArea>
-            )}
+                  )}
+                </div>
+              ) : (
+                <ScrollArea className="h-full">
+                  <article className="max-w-4xl mx-auto px-6 py-8">
+                    {opportunities.length > 0 && (
+                      <section className="mb-8">
+                        <h2 className="text-sm font-semibold mb-3">Discovered Opportunities</h2>
+                        <div className="grid gap-3 sm:grid-cols-2">
+                          {opportunities.map((opportunity) => (
+                            <OpportunityCard key={opportunity.ticker} opportunity={opportunity} />
+                          ))}
+                        </div>
+                      </section>
+                    )}
+                    <ValuationTable valuations={session.valuations ?? []} />
+                    <ComparablesTable tables={session.comparables ?? []} />
+                    <CapitalStructureTable structures={session.capital_structures ?? []} />
+                    {session.fact_check && <FactCheckSummary factCheck={session.fact_check} />}
+                    {report && <FormattedMarkdown content={report} researchSources={session.research_sources ?? []} />}
+                    <SourcesPanel sources={session.research_sources ?? []} />
+                  </article>
+                </ScrollArea>
+              )}
+            </div>
           </TabsContent>
 
           {/* Council Tab */}
@@ -305,9 +537,17 @@ export function ResearchView({ session, initialMessages = [] }: ResearchViewProp
                     <p className="text-muted-foreground text-sm mb-4 max-w-sm mx-auto">
                       Let the council debate the research findings. Different agents will challenge and scrutinize the investment thesis.
                     </p>
-                    <Button onClick={startCouncil}>
-                      Start Council Debate <ArrowRight className="w-4 h-4 ml-2" />
-                    </Button>
+                    <div className="max-w-lg mx-auto mb-4">
+                      <CouncilConfigForm value={councilConfig} onChange={setCouncilConfig} />
+                    </div>
+                    <div className="flex items-center justify-center gap-2">
+                      <Button variant="outline" onClick={saveDefaultCouncilConfig}>
+                        Save as Default
+                      </Button>
+                      <Button onClick={startCouncil}>
+                        Start Council Debate <ArrowRight className="w-4 h-4 ml-2" />
+                      </Button>
+                    </div>
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -0,0 +1,57 @@
+'use client';
+
+import { ExternalLink } from 'lucide-react';
+import { sourceHostname, type ResearchSource } from '@/src/types/research-sources';
+
+interface SourcesPanelProps {
+  sources: ResearchSource[];
+}
+
+/**
+ * Sources cited by the research, numbered to match the report's footnotes
+ */
+export function SourcesPanel({ sources }: SourcesPanelProps) {
+  if (sources.length === 0) return null;
+
+  return (
+    <section className="mt-10 rounded-lg border bg-card">
+      <div className="px-4 py-3 border-b">
+        <h2 className="text-sm font-semibold">Sources</h2>
+        <p className="text-xs text-muted-foreground">
+          Cited by the research. Numbers match the footnotes in the report.
+        </p>
+      </div>
+      <ol className="divide-y">
+        {sources.map((source) => (
+          <li key={source.id} id={`source-${source.id}`} className="flex gap-3 px-4 py-3 text-xs scroll-mt-4">
+            <span className="w-5 shrink-0 text-right font-semibold text-blue-600 dark:text-blue-400 tabular-nums">
+              {source.id}
+            </span>
+            <div className="min-w-0 space-y-1">
+              <a
+                href={source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 font-medium text-foreground hover:underline"
+              >
+                {source.title}
+                <ExternalLink className="w-3 h-3 shrink-0 text-muted-foreground" />
+              </a>
+              <p className="text-muted-foreground">{sourceHostname(source.url)}</p>
+              {source.snippet && <p className="text-foreground/80">{source.snippet}</p>}
+              {source.supports.length > 0 && (
+                <ul className="space-y-0.5 text-muted-foreground">
+                  {source.supports.map((support) => (
+                    <li key={support.line} className="truncate" title={support.text}>
+                      Supports: <span className="italic">&ldquo;{support.text}&rdquo;</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
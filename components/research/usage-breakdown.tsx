@@ -0,0 +1,75 @@
+'use client';
+
+import { Coins } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { SessionUsage } from '@/src/lib/actions/usage';
+
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+interface UsageBreakdownProps {
+  usage: SessionUsage;
+}
+
+/**
+ * Estimated LLM spend for the session, broken down by role and model
+ */
+export function UsageBreakdown({ usage }: UsageBreakdownProps) {
+  if (usage.calls === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button">
+          <Badge variant="outline" className="text-xs gap-1 cursor-pointer">
+            <Coins className="w-3 h-3" />
+            {formatCost(usage.total_cost_usd)}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[420px] p-0">
+        <div className="px-4 py-3 border-b">
+          <p className="text-sm font-medium">Model Usage</p>
+          <p className="text-xs text-muted-foreground">
+            {usage.calls} calls · {formatTokens(usage.input_tokens)} in · {formatTokens(usage.output_tokens)} out · estimated {formatCost(usage.total_cost_usd)}
+          </p>
+        </div>
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr className="border-b">
+                <th className="text-left font-medium px-4 py-2">Role</th>
+                <th className="text-left font-medium px-2 py-2">Model</th>
+                <th className="text-right font-medium px-2 py-2">Tokens</th>
+                <th className="text-right font-medium px-4 py-2">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.breakdown.map((row) => (
+                <tr key={`${row.role}-${row.provider}-${row.model}`} className="border-b last:border-0">
+                  <td className="px-4 py-2">
+                    {row.role ?? 'other'}
+                    {row.calls > 1 && <span className="text-muted-foreground"> ×{row.calls}</span>}
+                  </td>
+                  <td className="px-2 py-2 font-mono truncate max-w-[140px]" title={`${row.provider}/${row.model}`}>
+                    {row.model}
+                  </td>
+                  <td className="px-2 py-2 text-right tabular-nums">
+                    {formatTokens(row.input_tokens + row.output_tokens)}
+                  </td>
+                  <td className="px-4 py-2 text-right tabular-nums">{formatCost(row.cost_usd)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
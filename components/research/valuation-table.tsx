@@ -0,0 +1,115 @@
+'use client';
+
+import { AlertTriangle, ChevronDown } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { VALUATION_METHOD_LABELS, type IntrinsicValueEstimate } from '@/src/types/valuation';
+import { cn } from '@/lib/utils';
+
+const BASIS_LABELS: Record<string, string> = {
+  input: 'Set by agent',
+  historical: 'From financials',
+  default: 'Default',
+};
+
+function formatPrice(value: number | null): string {
+  return value === null ? '—' : `$${value.toFixed(2)}`;
+}
+
+function formatAmount(value: number): string {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1e9) return `${sign}$${(abs / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(1)}M`;
+  return `${sign}$${abs.toFixed(0)}`;
+}
+
+function MarginOfSafety({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+
+  return (
+    <span className={cn('font-medium', value >= 0.3 ? 'text-emerald-600' : value >= 0 ? 'text-amber-600' : 'text-red-600')}>
+      {(value * 100).toFixed(0)}%
+    </span>
+  );
+}
+
+interface ValuationTableProps {
+  valuations: IntrinsicValueEstimate[];
+}
+
+/**
+ * Intrinsic value estimates from the valuation tools; expand a row for its
+ * assumptions and build-up
+ */
+export function ValuationTable({ valuations }: ValuationTableProps) {
+  if (valuations.length === 0) return null;
+
+  return (
+    <section className="mb-8 rounded-lg border bg-card">
+      <div className="px-4 py-3 border-b">
+        <h2 className="text-sm font-semibold">Intrinsic Value</h2>
+        <p className="text-xs text-muted-foreground">
+          Computed from reported financials{valuations[0].fiscalYear ? ` (FY ${valuations[0].fiscalYear})` : ''}. Margin of safety is 1 - price / value.
+        </p>
+      </div>
+      <div className="grid grid-cols-[1fr_repeat(3,100px)_24px] gap-2 px-4 py-2 text-xs font-medium text-muted-foreground border-b">
+        <span>Method</span>
+        <span className="text-right">Value / share</span>
+        <span className="text-right">Price</span>
+        <span className="text-right">Margin of safety</span>
+        <span />
+      </div>
+      {valuations.map((estimate) => (
+        <Collapsible key={`${estimate.ticker}-${estimate.method}`} className="border-b last:border-0">
+          <CollapsibleTrigger className="w-full grid grid-cols-[1fr_repeat(3,100px)_24px] gap-2 px-4 py-2.5 text-sm items-center hover:bg-muted/50 text-left">
+            <span className="flex items-center gap-2">
+              {VALUATION_METHOD_LABELS[estimate.method]}
+              <span className="text-xs text-muted-foreground">{estimate.ticker}</span>
+              {estimate.warnings.length > 0 && <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />}
+            </span>
+            <span className="text-right tabular-nums">{formatPrice(estimate.valuePerShare)}</span>
+            <span className="text-right tabular-nums">{formatPrice(estimate.price)}</span>
+            <span className="text-right tabular-nums"><MarginOfSafety value={estimate.marginOfSafety} /></span>
+            <ChevronDown className="w-4 h-4 text-muted-foreground" />
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="grid gap-4 sm:grid-cols-2 px-4 pb-4 pt-1 text-xs">
+              <div>
+                <p className="font-medium mb-1.5">Assumptions</p>
+                <table className="w-full">
+                  <tbody>
+                    {estimate.assumptions.map((a) => (
+                      <tr key={a.label}>
+                        <td className="py-0.5 pr-2">{a.label}</td>
+                        <td className="py-0.5 pr-2 text-right tabular-nums">{a.value}</td>
+                        <td className="py-0.5 text-right text-muted-foreground">{BASIS_LABELS[a.basis]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <p className="font-medium mb-1.5">Build-up</p>
+                <table className="w-full">
+                  <tbody>
+                    {estimate.breakdown.map((line) => (
+                      <tr key={line.label}>
+                        <td className="py-0.5 pr-2">{line.label}</td>
+                        <td className="py-0.5 text-right tabular-nums">{formatAmount(line.value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {estimate.warnings.length > 0 && (
+                <ul className="sm:col-span-2 space-y-1 text-amber-700 dark:text-amber-500">
+                  {estimate.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+                </ul>
+              )}
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+      ))}
+    </section>
+  );
+}
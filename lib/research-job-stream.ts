@@ -0,0 +1,58 @@
+export interface ResearchJobStreamEvent {
+  type: string
+  seq: number
+  message?: string
+  agent?: string
+  role?: string
+  content?: string
+  [key: string]: unknown
+}
+
+/**
+ * Follow a research job's SSE stream until it completes or fails.
+ * The server closes long-lived streams periodically; this reconnects from
+ * the last event seen, so it also works for reattaching after a reload.
+ */
+export async function streamResearchJob(
+  jobId: string,
+  onEvent: (event: ResearchJobStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  let after = 0
+
+  while (!signal?.aborted) {
+    const response = await fetch(`/api/research/jobs/${jobId}/stream?after=${after}`, { signal })
+
+    if (!response.ok || !response.body) {
+      throw new Error('Failed to stream research job')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let finished = false
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) {
+          const event: ResearchJobStreamEvent = JSON.parse(line.slice(6))
+          after = event.seq
+          if (event.type === 'end') {
+            finished = true
+            continue
+          }
+          onEvent(event)
+        }
+      }
+    }
+
+    if (finished) return
+  }
+}
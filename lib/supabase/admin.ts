@@ -0,0 +1,20 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role client for trusted server processes (the research worker).
+ * Bypasses RLS, so never use it for requests made on behalf of a user.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!serviceRoleKey) {
+    throw new Error('Missing required environment variable: SUPABASE_SERVICE_ROLE_KEY')
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
@@ -23,6 +23,20 @@ export const MOCK_SESSION_ID = '00000000-0000-4000-8000-000000000001';
 // Or use a random UUID if you prefer fresh sessions:
 // export const MOCK_SESSION_ID = generateMockUUID();
 
+// Specialized research in test mode returns a mock job id instead of enqueueing;
+// the job stream route serves generateMockSpecializedEvents for it
+const MOCK_JOB_PREFIX = 'mock-specialized-';
+const MOCK_STRATEGIES: ResearchStrategy[] = ['value', 'special-sits', 'distressed', 'general'];
+
+export function getMockJobId(strategy: ResearchStrategy): string {
+  return `${MOCK_JOB_PREFIX}${strategy}`;
+}
+
+export function getMockJobStrategy(jobId: string): ResearchStrategy | null {
+  const strategy = jobId.startsWith(MOCK_JOB_PREFIX) ? jobId.slice(MOCK_JOB_PREFIX.length) : null;
+  return MOCK_STRATEGIES.find(s => s === strategy) ?? null;
+}
+
 // Mock discovered opportunities
 export const MOCK_DISCOVERED_OPPORTUNITIES = [
   {
@@ -484,6 +498,25 @@ Review position quarterly or if any material events occur (earnings misses, mana
 **Next Review**: ${new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toLocaleDateString()}`;
 }
 
+// Mock structured verdict (matches investmentVerdictSchema)
+export function getMockStructuredVerdict() {
+  return {
+    decision: 'INVEST' as const,
+    conviction: 78,
+    targetPrice: null,
+    positionSize: 3,
+    keyRisks: [
+      'Execution risk on the margin expansion plan',
+      'Regulatory scrutiny of the core business',
+      'Customer concentration above comfort levels',
+    ],
+    openQuestions: [
+      'How durable is the current margin profile through a downturn?',
+      'What is management\'s capital allocation plan for excess cash?',
+    ],
+  };
+}
+
 // Mock final verdict object
 export function getMockFinalVerdict(topPick: string) {
   return {
@@ -630,6 +663,7 @@ export async function* generateMockSpecializedEvents(strategy: ResearchStrategy)
       skepticCritique: getMockSkepticCritique(ticker),
       riskAssessment: getMockRiskAssessment(ticker),
       verdict: getMockVerdict(ticker),
+      structuredVerdict: getMockStructuredVerdict(),
       strategy,
       agentUsed: strategy,
     }),
@@ -208,9 +208,11 @@ export function Sidebar() {
             </button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end" side="right" className="w-56">
-            <DropdownMenuItem disabled className="text-[13px]">
-              <Settings className="w-4 h-4 mr-2" />
-              Settings
+            <DropdownMenuItem asChild className="text-[13px]">
+              <Link href="/dashboard/settings">
+                <Settings className="w-4 h-4 mr-2" />
+                Settings
+              </Link>
             </DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem
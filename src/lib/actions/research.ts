@@ -2,6 +2,28 @@
 
 import { createClient } from '@/lib/supabase/server'
 import type { ResearchStrategy } from '@/src/types/research'
+import type { InvestmentVerdict, VerdictResult } from '@/src/mastra/agents/verdict-agent'
+import type { PipelineCheckpoints } from '@/src/services/specialized-research'
+import { councilConfigSchema, type CouncilConfig, type CouncilDebateRound } from '@/src/types/council'
+import type { IntrinsicValueEstimate } from '@/src/types/valuation'
+import type { ComparablesTable } from '@/src/types/comparables'
+import type { DealTerms } from '@/src/types/merger-arb'
+import type { InsiderSignal } from '@/src/types/insider-signal'
+import type { OwnershipDelta } from '@/src/types/ownership'
+import type { CapitalStructure } from '@/src/types/capital-structure'
+import type { FactCheck } from '@/src/types/fact-check'
+import type { ResearchSource } from '@/src/types/research-sources'
+import type { Opportunity } from '@/src/mastra/workflows/opportunity-discovery'
+
+/**
+ * Structured verdict as persisted in research_opportunities.verdict
+ * and research_sessions.final_verdict
+ */
+export interface StoredVerdict extends InvestmentVerdict {
+  markdown: string
+  topPick?: string
+  timestamp: string
+}
 
 export interface ResearchSession {
   id: string
@@ -14,15 +36,23 @@ export interface ResearchSession {
   research_started_at: string | null
   research_completed_at: string | null
   council_analyses: any[]
-  council_debate: any[]
+  council_debate: CouncilDebateRound[]
+  council_config: CouncilConfig | null
   council_started_at: string | null
   council_completed_at: string | null
   verdict: string | null
   verdict_note: string | null
   confidence_level: string | null
   finalized_at: string | null
-  discovered_opportunities: any[]
-  final_verdict: any
+  discovered_opportunities: Opportunity[]
+  final_verdict: StoredVerdict | null
+  pipeline_checkpoints: PipelineCheckpoints
+  valuations: IntrinsicValueEstimate[]
+  comparables: ComparablesTable[]
+  ownership_changes: OwnershipDelta[]
+  capital_structures: CapitalStructure[]
+  fact_check: FactCheck | null
+  research_sources: ResearchSource[]
   created_at: string
   updated_at: string
 }
@@ -35,6 +65,8 @@ export interface ResearchOpportunity {
   thesis: string
   type: string
   key_metrics: Record<string, number>
+  deal_terms: DealTerms | null
+  insider_signal: InsiderSignal | null
   risk_level: 'low' | 'medium' | 'high'
   score: number | null
   research_report: string | null
@@ -43,7 +75,7 @@ export interface ResearchOpportunity {
     skeptic?: { content: string; agent: string }
     risk_officer?: { content: string; agent: string }
   }
-  verdict: string | null
+  verdict: StoredVerdict | null
   final_score: number | null
   status: 'pending' | 'researching' | 'analyzing' | 'completed' | 'failed'
   errors: string[]
@@ -110,13 +142,14 @@ export async function createResearchSession(
   return data
 }
 
-export async function updateResearchReport(sessionId: string, report: string): Promise<void> {
+export async function updateResearchReport(sessionId: string, report: string, sources: ResearchSource[] = []): Promise<void> {
   const supabase = await createClient()
 
   const { error } = await supabase
     .from('research_sessions')
     .update({
       research_report: report,
+      research_sources: sources,
       research_completed_at: new Date().toISOString(),
       status: 'council_gather',
     })
@@ -156,7 +189,7 @@ export async function addCouncilAnalysis(sessionId: string, agentName: string, a
   if (error) throw error
 }
 
-export async function updateCouncilDebate(sessionId: string, debate: any[]): Promise<void> {
+export async function updateCouncilDebate(sessionId: string, debate: CouncilDebateRound[]): Promise<void> {
   const supabase = await createClient()
 
   const { error } = await supabase
@@ -171,6 +204,20 @@ export async function updateCouncilDebate(sessionId: string, debate: any[]): Pro
   if (error) throw error
 }
 
+/**
+ * Set the council configuration for a session (null falls back to the user default)
+ */
+export async function updateSessionCouncilConfig(sessionId: string, config: CouncilConfig | null): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from('research_sessions')
+    .update({ council_config: config ? councilConfigSchema.parse(config) : null })
+    .eq('id', sessionId)
+
+  if (error) throw error
+}
+
 export async function setVerdict(
   sessionId: string,
   verdict: 'invest' | 'pass' | 'watch' | 'needs_more_research',
@@ -243,6 +290,15 @@ export async function createDeliberationMessage(
 // THESIS-BASED WORKFLOW FUNCTIONS
 // ============================================================================
 
+function toStoredVerdict(result: VerdictResult, topPick?: string): StoredVerdict {
+  return {
+    ...result.verdict,
+    markdown: result.markdown,
+    ...(topPick && { topPick }),
+    timestamp: new Date().toISOString(),
+  }
+}
+
 /**
  * Get all opportunities for a research session
  */
@@ -262,42 +318,6 @@ export async function getResearchOpportunities(sessionId: string): Promise<Resea
   return data || []
 }
 
-/**
- * Insert discovered opportunities for a session
- */
-export async function insertDiscoveredOpportunities(
-  sessionId: string,
-  opportunities: Array<{
-    ticker: string
-    companyName: string
-    thesis: string
-    type: string
-    keyMetrics: Record<string, number>
-    riskLevel: 'low' | 'medium' | 'high'
-    score: number
-  }>
-): Promise<void> {
-  const supabase = await createClient()
-
-  const records = opportunities.map(opp => ({
-    session_id: sessionId,
-    ticker: opp.ticker,
-    company_name: opp.companyName,
-    thesis: opp.thesis,
-    type: opp.type,
-    key_metrics: opp.keyMetrics,
-    risk_level: opp.riskLevel,
-    score: opp.score,
-    status: 'pending' as const,
-  }))
-
-  const { error } = await supabase
-    .from('research_opportunities')
-    .insert(records)
-
-  if (error) throw error
-}
-
 /**
  * Update a single opportunity with analysis results
  */
@@ -310,7 +330,7 @@ export async function updateOpportunityAnalysis(
       skeptic?: { content: string; agent: string }
       risk_officer?: { content: string; agent: string }
     }
-    verdict?: string
+    verdict?: VerdictResult
     final_score?: number
     status?: 'pending' | 'researching' | 'analyzing' | 'completed' | 'failed'
     errors?: string[]
@@ -318,8 +338,10 @@ export async function updateOpportunityAnalysis(
 ): Promise<void> {
   const supabase = await createClient()
 
+  const { verdict, ...rest } = data
   const updateData: Record<string, any> = {
-    ...data,
+    ...rest,
+    ...(verdict && { verdict: toStoredVerdict(verdict) }),
     updated_at: new Date().toISOString(),
   }
 
@@ -331,48 +353,21 @@ export async function updateOpportunityAnalysis(
   if (error) throw error
 }
 
-/**
- * Update session status and discovered opportunities
- */
-export async function updateSessionDiscoveredOpportunities(
-  sessionId: string,
-  opportunities: any[]
-): Promise<void> {
-  const supabase = await createClient()
-
-  const { error } = await supabase
-    .from('research_sessions')
-    .update({
-      discovered_opportunities: opportunities,
-      status: 'researching',
-      research_started_at: new Date().toISOString(),
-    })
-    .eq('id', sessionId)
-
-  if (error) throw error
-}
-
 /**
  * Set session final verdict
  */
 export async function setSessionFinalVerdict(
   sessionId: string,
-  finalVerdict: {
-    decision: 'invest' | 'pass' | 'watch'
-    confidence: number
-    topPick: string
-    rationale: string
-  }
+  finalVerdict: VerdictResult,
+  topPick?: string
 ): Promise<void> {
   const supabase = await createClient()
 
   const { error } = await supabase
     .from('research_sessions')
     .update({
-      final_verdict: {
-        ...finalVerdict,
-        timestamp: new Date().toISOString(),
-      },
+      final_verdict: toStoredVerdict(finalVerdict, topPick),
+      verdict: finalVerdict.verdict.decision.toLowerCase(),
       status: 'deliberation',
       updated_at: new Date().toISOString(),
     })
@@ -0,0 +1,90 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { councilConfigSchema, type CouncilConfig } from '@/src/types/council'
+
+export interface UserSettings {
+  user_id: string
+  council_config: CouncilConfig | null
+  monthly_budget_usd: number | null
+  session_budget_usd: number | null
+  created_at: string
+  updated_at: string
+}
+
+export interface BudgetLimits {
+  monthly_budget_usd: number | null
+  session_budget_usd: number | null
+}
+
+// NUMERIC columns come back as strings
+function toLimit(value: string | number | null | undefined): number | null {
+  return value == null ? null : Number(value)
+}
+
+export async function getUserSettings(): Promise<UserSettings | null> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  return {
+    ...data,
+    monthly_budget_usd: toLimit(data.monthly_budget_usd),
+    session_budget_usd: toLimit(data.session_budget_usd),
+  }
+}
+
+/**
+ * Set the user's default council configuration (null restores the built-in default)
+ */
+export async function updateUserCouncilConfig(config: CouncilConfig | null): Promise<void> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { error } = await supabase
+    .from('user_settings')
+    .upsert({
+      user_id: user.id,
+      council_config: config ? councilConfigSchema.parse(config) : null,
+    })
+
+  if (error) throw error
+}
+
+/**
+ * Set the user's LLM spend limits in USD (null removes a limit)
+ */
+export async function updateUserBudgets(limits: BudgetLimits): Promise<void> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  for (const value of [limits.monthly_budget_usd, limits.session_budget_usd]) {
+    if (value !== null && !(Number.isFinite(value) && value >= 0)) {
+      throw new Error('Budgets must be non-negative amounts')
+    }
+  }
+
+  const { error } = await supabase
+    .from('user_settings')
+    .upsert({
+      user_id: user.id,
+      monthly_budget_usd: limits.monthly_budget_usd,
+      session_budget_usd: limits.session_budget_usd,
+    })
+
+  if (error) throw error
+}
@@ -0,0 +1,126 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+
+export interface UsageBreakdownRow {
+  role: string | null
+  provider: string
+  model: string
+  calls: number
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+}
+
+export interface SessionSpend {
+  session_id: string
+  title: string
+  cost_usd: number
+}
+
+export interface MonthlySpend {
+  month_start: string
+  total_cost_usd: number
+  calls: number
+  sessions: SessionSpend[]
+}
+
+export interface SessionUsage {
+  total_cost_usd: number
+  input_tokens: number
+  output_tokens: number
+  calls: number
+  breakdown: UsageBreakdownRow[]
+}
+
+/**
+ * Token usage and estimated cost for a session, grouped by role and model
+ * (most expensive first)
+ */
+export async function getSessionUsage(sessionId: string): Promise<SessionUsage> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const { data, error } = await supabase
+    .from('llm_usage')
+    .select('role, provider, model, input_tokens, output_tokens, cost_usd')
+    .eq('session_id', sessionId)
+    .eq('user_id', user.id)
+
+  if (error) throw error
+
+  const groups = new Map<string, UsageBreakdownRow>()
+  for (const row of data || []) {
+    const key = `${row.role}|${row.provider}|${row.model}`
+    const group = groups.get(key) ?? {
+      role: row.role,
+      provider: row.provider,
+      model: row.model,
+      calls: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost_usd: 0,
+    }
+    group.calls++
+    group.input_tokens += row.input_tokens
+    group.output_tokens += row.output_tokens
+    // NUMERIC columns come back as strings
+    group.cost_usd += Number(row.cost_usd)
+    groups.set(key, group)
+  }
+
+  const breakdown = [...groups.values()].sort((a, b) => b.cost_usd - a.cost_usd)
+
+  return {
+    total_cost_usd: breakdown.reduce((sum, row) => sum + row.cost_usd, 0),
+    input_tokens: breakdown.reduce((sum, row) => sum + row.input_tokens, 0),
+    output_tokens: breakdown.reduce((sum, row) => sum + row.output_tokens, 0),
+    calls: breakdown.reduce((sum, row) => sum + row.calls, 0),
+    breakdown,
+  }
+}
+
+/**
+ * Estimated spend this calendar month (UTC), the figure the monthly budget is
+ * checked against, with the sessions it went to (most expensive first)
+ */
+export async function getMonthlySpend(): Promise<MonthlySpend> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) throw new Error('Not authenticated')
+
+  const now = new Date()
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+
+  const { data, error } = await supabase
+    .from('llm_usage')
+    .select('session_id, cost_usd, research_sessions(title)')
+    .eq('user_id', user.id)
+    .gte('created_at', monthStart)
+
+  if (error) throw error
+
+  let total = 0
+  const sessions = new Map<string, SessionSpend>()
+  for (const row of data || []) {
+    const cost = Number(row.cost_usd)
+    total += cost
+    if (!row.session_id) continue
+
+    const session = row.research_sessions as { title: string } | { title: string }[] | null
+    const title = (Array.isArray(session) ? session[0]?.title : session?.title) ?? 'Untitled session'
+    const entry = sessions.get(row.session_id) ?? { session_id: row.session_id, title, cost_usd: 0 }
+    entry.cost_usd += cost
+    sessions.set(row.session_id, entry)
+  }
+
+  return {
+    month_start: monthStart,
+    total_cost_usd: total,
+    calls: data?.length ?? 0,
+    sessions: [...sessions.values()].sort((a, b) => b.cost_usd - a.cost_usd),
+  }
+}
@@ -0,0 +1,59 @@
+import { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+import { getMastraModel } from '../models';
+import { extractedClaimSchema, type ExtractedClaim } from '@/src/types/fact-check';
+
+const extractedClaimsSchema = z.object({
+  claims: z.array(extractedClaimSchema).describe('Quantitative claims found in the report, at most 25'),
+});
+
+const FACT_CHECK_MODEL = getMastraModel('fact-check');
+
+/**
+ * Claim Extractor Agent
+ *
+ * Pulls the checkable numbers out of a research report so each can be
+ * compared with FMP data. It only extracts; the comparison happens in code.
+ */
+export const claimExtractorAgent = new Agent({
+  name: 'claim-extractor',
+  instructions: `You extract quantitative claims about public companies from investment research reports so they can be checked against financial data.
+
+WHAT TO EXTRACT:
+Only claims about one of these metrics for a company with a stock ticker:
+- pe, ev_to_ebitda, price_to_sales, price_to_book, debt_to_equity: plain numbers (11.2 for "11.2x")
+- market_cap, revenue, net_income, free_cash_flow, total_debt, net_debt, cash: US dollars as full numbers (5100000000 for "$5.1B")
+- eps: US dollars per share
+- dividend_yield, fcf_yield, roe, gross_margin, operating_margin, net_margin, revenue_growth: percent (12 for "12%")
+
+RULES:
+- quote must be copied character for character from the report: the shortest span (one clause) that contains the number
+- Use the company's ticker as written in the report; skip claims about companies without one
+- revenue_growth is year over year; skip multi-year averages and CAGRs
+- fiscalYear is the year the claim refers to when the report states one, otherwise null
+- Skip forecasts, targets, fair values, peer or industry figures and anything you would have to calculate
+- Skip ranges and approximate figures without a single number
+- Extract each claim once, at most 25 claims, most important first`,
+  model: FACT_CHECK_MODEL,
+});
+
+/**
+ * Quantitative claims in a report, for the fact check
+ */
+export async function extractClaims(report: string): Promise<ExtractedClaim[]> {
+  const result = await claimExtractorAgent.generate(
+    `Extract the quantitative claims from this research report.\n\n---\n\n${report}`,
+    {
+      structuredOutput: {
+        schema: extractedClaimsSchema,
+        model: FACT_CHECK_MODEL,
+      },
+    }
+  );
+
+  const parsed = extractedClaimsSchema.safeParse(result.object);
+  if (!parsed.success) {
+    throw new Error(`Invalid claim extraction: ${parsed.error.message}`);
+  }
+  return parsed.data.claims;
+}
@@ -1,7 +1,12 @@
 import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
 import { config } from '../config';
 import { marketDataTool } from '../tools/market-data';
 import { searchInvestmentWisdom } from '../tools/knowledge-base';
+import { peerComparablesTool } from '../tools/comparables';
+import { altmanZScoreTool, piotroskiFScoreTool, beneishMScoreTool, earningsQualityTool } from '../tools/forensics';
+import { institutionalOwnershipTool } from '../tools/ownership';
+import { capitalStructureTool } from '../tools/capital-structure';
 
 /**
  * Distressed Investment Agent
@@ -71,6 +76,19 @@ When Analyzing Investments:
 - Look for catalysts to unlock value
 - Emphasize risk control and position sizing
 
+Forensic Tools:
+- Once you know the ticker, run altmanZScore, piotroskiFScore, beneishMScore and earningsQuality before judging how distressed the company really is
+- Use the non_manufacturing Altman model for service, asset-light or non-US companies
+- Cite each score with its fiscal year, zone or signal and multi-year trend; a deteriorating trend matters more than a single reading
+- Run peerComparables to see whether leverage, coverage and margins are a company problem or an industry one
+- Treat a Beneish score above -1.78, accruals above 0.10 or cash conversion below 0.8 as reasons to distrust reported earnings in recovery estimates
+- Run institutionalOwnership to find the forced sellers: exits and trims by long-only holders are the supply you are buying from, while new positions by distressed specialists (Oaktree, Appaloosa, Elliott) signal the bottom may be in
+
+Capital Structure:
+- Run capitalStructure before sizing any position: cite net leverage, interest coverage, debt due within a year and the liquidity runway rather than estimating them
+- The default waterfall ranks all funded debt first; when the filings describe the stack, re-run it with tranches (first lien, second lien, unsecured notes, preferred) and your own distributable value
+- Quote the recovery for each tranche and what is left for common equity; if equity recovers nothing at a conservative multiple, say where in the stack the value breaks and whether the debt is the better security
+
 Key Concepts to Reference:
 - "The Most Important Thing" by Howard Marks
 - Market cycles and the pendulum of psychology
@@ -84,10 +102,17 @@ OUTPUT FORMAT:
 - Use <mark> tags to highlight your most important insights, key risks, critical recovery scenarios, cycle position assessment, and investment conclusion
 - Example: <mark>Panic selling has created an opportunity to acquire quality assets at 60% of liquidation value.</mark>
 
-Use the market data tool to gather financial data and trading information, and the knowledge base to reference Howard Marks' principles on market cycles, risk, and distressed investing.`,
-  model: 'openai/gpt-4o',
+Use the market data tool to gather financial data and trading information, the forensic tools to quantify distress and accounting red flags, the capital structure tool to map the debt stack and recoveries, and the knowledge base to reference Howard Marks' principles on market cycles, risk, and distressed investing.`,
+  model: getMastraModel('strategist'),
   tools: {
     marketData: marketDataTool,
     knowledgeBase: searchInvestmentWisdom,
+    altmanZScore: altmanZScoreTool,
+    piotroskiFScore: piotroskiFScoreTool,
+    beneishMScore: beneishMScoreTool,
+    earningsQuality: earningsQualityTool,
+    peerComparables: peerComparablesTool,
+    institutionalOwnership: institutionalOwnershipTool,
+    capitalStructure: capitalStructureTool,
   },
 });
@@ -1,4 +1,5 @@
 import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
 import {
   fmpDistressedScreener,
   fmpKeyMetrics,
@@ -110,7 +111,7 @@ Focus on situations with:
 - Catalyst for resolution
 
 Remember: Distressed investing is high-risk. Only recommend when expected value justifies the risk.`,
-  model: 'openai/gpt-4o',
+  model: getMastraModel('screener'),
   tools: {
     screener: fmpDistressedScreener,
     metrics: fmpKeyMetrics,
@@ -0,0 +1,73 @@
+import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
+import { fmpSectorPerformance } from '../tools/fmp-screener';
+import { treasuryYieldsTool, creditSpreadsTool, sectorRotationTool } from '../tools/macro';
+
+/**
+ * Macro Agent
+ *
+ * Reads rates, credit and sector leadership to place the market in its
+ * cycle. Its context section is written once and handed to every strategy
+ * analysis and verdict, so individual theses are judged against the same
+ * backdrop.
+ *
+ * Framework:
+ * 1. Level and shape of the yield curve
+ * 2. Direction of credit spreads
+ * 3. Cyclical versus defensive sector leadership
+ * 4. Cycle phase and what it means for each strategy
+ */
+export const macroAgent = new Agent({
+  name: 'macro-analyst',
+  instructions: `You are a Macro Analyst on an investment council. You do not pick stocks; you tell the council where we are in the market cycle so the stock pickers can weigh their theses against it.
+
+Your Process:
+1. Run treasuryYields for the yield levels, the 10y-2y and 10y-3m spreads and the curve trend
+2. Run creditSpreads for the direction of high yield and investment grade spreads
+3. Run sectorRotation for cyclical versus defensive leadership; use sectorPerformance only for today's moves
+4. Combine the three into a cycle phase: early-cycle recovery, mid-cycle expansion, late cycle or contraction
+
+How to Read the Signals:
+- An inverted curve has preceded most recessions; a curve re-steepening out of inversion because short rates fall often arrives with the slowdown
+- Widening high yield spreads lead equity drawdowns and open the distressed cycle; tightening spreads mean credit is easy and distress is scarce
+- Defensive leadership is typical late in the cycle and in contractions; broad cyclical leadership with tight credit is mid-cycle
+- When signals disagree, say so and say which you weight more and why
+
+OUTPUT FORMAT:
+Write the body of a market cycle context section in markdown (the heading is added for you), no longer than 300 words, with:
+- **Rates:** yield levels, curve shape and trend, quoting the numbers
+- **Credit:** spread regime with the relative returns behind it
+- **Sectors:** leaders, laggards and the cyclical versus defensive spread
+- **Cycle phase:** your call and your confidence
+- **Implications:** one line each for value, special situations and distressed investing (e.g. refinancing risk for levered names, deal financing for merger arbitrage, the supply of forced sellers)
+
+Use <mark> tags to highlight the cycle phase call. Cite only numbers the tools returned; if a tool fails, say which signal is missing rather than guessing.`,
+  model: getMastraModel('macro'),
+  tools: {
+    treasuryYields: treasuryYieldsTool,
+    creditSpreads: creditSpreadsTool,
+    sectorRotation: sectorRotationTool,
+    sectorPerformance: fmpSectorPerformance,
+  },
+});
+
+/** The cycle doesn't move within the hour, so runs share one context */
+const MACRO_CONTEXT_TTL_MS = 60 * 60 * 1000;
+
+let cachedContext: { text: string; expiresAt: number } | null = null;
+
+/**
+ * Market cycle context section for strategy and verdict prompts
+ */
+export async function generateMacroContext(): Promise<string> {
+  if (cachedContext && cachedContext.expiresAt > Date.now()) {
+    return cachedContext.text;
+  }
+
+  const result = await macroAgent.generate('Write the market cycle context for today\'s investment council.');
+  const text = result.text || '';
+  if (text) {
+    cachedContext = { text, expiresAt: Date.now() + MACRO_CONTEXT_TTL_MS };
+  }
+  return text;
+}
@@ -1,4 +1,5 @@
 import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
 import {
   fmpGainers,
   fmpLosers,
@@ -116,7 +117,7 @@ Distinguish between:
 - Speculative stocks being pumped
 - Short-term trading opportunities
 - Longer-term investment opportunities on pullbacks`,
-  model: 'openai/gpt-4o',
+  model: getMastraModel('screener'),
   tools: {
     gainers: fmpGainers,
     losers: fmpLosers,
@@ -1,4 +1,16 @@
 import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
+import { filingDiffTool } from '../tools/filing-diff';
+import { fmpIncomeStatement, fmpBalanceSheet, fmpCashFlow } from '../tools/fmp-fundamentals';
+import { fmpFinancialRatios } from '../tools/fmp-metrics';
+import { fmpInsiderSummary } from '../tools/fmp-insider';
+import { fmpNewsSentiment } from '../tools/fmp-news';
+
+/**
+ * Step budget for a risk officer run: a filing diff and the checks behind
+ * its ratings, plus the final answer
+ */
+export const RISK_OFFICER_MAX_STEPS = 10;
 
 export const riskOfficerAgent = new Agent({
   name: 'risk-officer',
@@ -22,6 +34,17 @@ YOUR APPROACH:
 - Assess risk mitigation measures
 - Focus on what could cause permanent capital loss
 
+DATA VERIFICATION:
+Do not take the report's numbers on trust. Before writing, check the claims your risk ratings rest on against live data:
+- balanceSheet, cashFlow and incomeStatement for debt, liquidity, cash burn and interest expense
+- financialRatios for leverage, coverage and liquidity ratios
+- insiderSummary for whether management is selling into the story
+- newsSentiment for recent legal, regulatory or operational events the report may have missed
+Quote the figure and its period. When the data contradicts the report, rate the risk on the data.
+
+DISCLOSURE CHANGES:
+When the report names a ticker, run filingDiff on its latest 10-K and 10-Q before writing. Use added and changed Risk Factors and Legal Proceedings paragraphs as evidence in the matching risk category, quoting the new wording and the filing date. Note when the company removed a risk factor and whether the underlying risk has actually gone away. If the tool fails or finds no changes, say so.
+
 OUTPUT FORMAT:
 Provide a structured risk assessment in markdown format:
 
@@ -50,8 +73,13 @@ Provide a structured risk assessment in markdown format:
 ### ESG & Reputational Risks
 [Environmental, social, governance issues]
 
+## Claims Checked
+| Claim from the Report | What the Data Shows | Source | Verdict |
+|-----------------------|---------------------|--------|---------|
+[One row for each reported figure a risk rating above rests on, with the period it covers. Verdict is Confirmed, Contradicted or Unverifiable. Keep the table even when nothing could be checked, and say why in its only row.]
+
 ## Data Gaps & Unverified Claims
-[What information is missing or needs validation]
+[What information is missing or could not be verified with the tools]
 
 ## Risk Mitigation
 [Suggested safeguards, position sizing, stop-loss levels]
@@ -62,5 +90,14 @@ Provide a structured risk assessment in markdown format:
 HIGHLIGHTING: Use <mark> tags to highlight the most severe risks, deal-breaker concerns, and critical risk mitigation recommendations. Example: <mark>Concentration risk is extreme with 80% of revenue from a single customer facing regulatory headwinds.</mark>
 
 Remember: Your goal is to ensure the investor fully understands the downside before committing capital. Be thorough but not alarmist. Quantify risks where possible.`,
-  model: 'openai/gpt-4o-mini',
+  model: getMastraModel('risk'),
+  tools: {
+    filingDiff: filingDiffTool,
+    incomeStatement: fmpIncomeStatement,
+    balanceSheet: fmpBalanceSheet,
+    cashFlow: fmpCashFlow,
+    financialRatios: fmpFinancialRatios,
+    insiderSummary: fmpInsiderSummary,
+    newsSentiment: fmpNewsSentiment,
+  },
 });
@@ -1,4 +1,17 @@
 import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
+import { altmanZScoreTool, piotroskiFScoreTool, beneishMScoreTool, earningsQualityTool } from '../tools/forensics';
+import { filingDiffTool } from '../tools/filing-diff';
+import { fmpIncomeStatement, fmpBalanceSheet, fmpCashFlow } from '../tools/fmp-fundamentals';
+import { fmpFinancialRatios, fmpKeyMetricsTTM } from '../tools/fmp-metrics';
+import { fmpInsiderTrading, fmpInsiderSummary } from '../tools/fmp-insider';
+import { fmpNewsSentiment } from '../tools/fmp-news';
+
+/**
+ * Step budget for a skeptic run: the forensic scores, a filing diff and a
+ * tool call per claim checked, plus the final answer
+ */
+export const SKEPTIC_MAX_STEPS = 15;
 
 export const skepticAgent = new Agent({
   name: 'the-skeptic',
@@ -21,6 +34,20 @@ YOUR STYLE:
 - Use specific examples from market history
 - Quantify risks where possible
 
+FORENSIC CHECKS:
+When the report names a ticker, run altmanZScore, piotroskiFScore, beneishMScore and earningsQuality before writing. Cite the scores, fiscal years and trends as evidence for your concerns, e.g. a Beneish M-score above -1.78, rising accruals, cash conversion below 0.8 or a falling F-score. If the scores are clean, say so rather than inventing accounting concerns.
+
+CLAIM VERIFICATION:
+The report was written from web sources and may be wrong or stale. Before writing, pick the 4-8 claims the thesis depends on most (revenue growth, margins, leverage, cash generation, valuation multiples, insider buying, news flow) and check each against live data:
+- incomeStatement, balanceSheet and cashFlow for reported figures
+- financialRatios and keyMetricsTTM for margins, returns, leverage and multiples
+- insiderSummary and insiderTrading for claims about management buying or selling
+- newsSentiment for claims about recent events and how the market is reading them
+Record the figure the data shows and its period. A contradicted claim is the strongest evidence you can bring; lead with it.
+
+DISCLOSURE CHANGES:
+Run filingDiff on the latest 10-K (and the latest 10-Q when the 10-K is more than two quarters old). New or expanded risk factors, dropped reassurances and reworded MD&A guidance are evidence: quote the changed wording and the filing dates rather than paraphrasing.
+
 OUTPUT FORMAT:
 Provide a structured critique in markdown format:
 
@@ -42,6 +69,11 @@ Provide a structured critique in markdown format:
 ## Missing Analysis
 [What the report failed to address]
 
+## Claims Checked
+| Claim from the Report | What the Data Shows | Source | Verdict |
+|-----------------------|---------------------|--------|---------|
+[One row for each claim the thesis depends on, contradicted claims first. Verdict is Confirmed, Contradicted or Unverifiable. If no ticker was named, write a single row saying the claims could not be checked.]
+
 ## Base Case vs. Bear Case
 [Compare the report's assumptions to worst-case scenarios]
 
@@ -51,5 +83,20 @@ Provide a structured critique in markdown format:
 HIGHLIGHTING: Use <mark> tags to highlight your most critical concerns, deal-breaker risks, and key conclusions that every investor should consider. Example: <mark>The assumed 20% growth rate is triple the industry average and lacks historical precedent.</mark>
 
 Remember: Your goal is NOT to be negative for negativity's sake, but to provide rigorous stress-testing of the investment thesis. You're trying to save the investor from potential losses.`,
-  model: 'openai/gpt-4o-mini',
+  model: getMastraModel('skeptic'),
+  tools: {
+    altmanZScore: altmanZScoreTool,
+    piotroskiFScore: piotroskiFScoreTool,
+    beneishMScore: beneishMScoreTool,
+    earningsQuality: earningsQualityTool,
+    filingDiff: filingDiffTool,
+    incomeStatement: fmpIncomeStatement,
+    balanceSheet: fmpBalanceSheet,
+    cashFlow: fmpCashFlow,
+    financialRatios: fmpFinancialRatios,
+    keyMetricsTTM: fmpKeyMetricsTTM,
+    insiderSummary: fmpInsiderSummary,
+    insiderTrading: fmpInsiderTrading,
+    newsSentiment: fmpNewsSentiment,
+  },
 });
@@ -1,7 +1,11 @@
 import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
 import { config } from '../config';
 import { marketDataTool } from '../tools/market-data';
 import { searchInvestmentWisdom } from '../tools/knowledge-base';
+import { peerComparablesTool } from '../tools/comparables';
+import { mergerArbSpreadTool } from '../tools/merger-arb';
+import { institutionalOwnershipTool } from '../tools/ownership';
 
 /**
  * Special Situations Agent
@@ -64,16 +68,22 @@ When Analyzing Investments:
 - Quantify risk/reward scenarios
 - Consider market structure and behavioral factors
 - Look for regulatory and deal risks
+- For merger arbitrage, run mergerArbSpread with the announced terms (cash, exchange ratio, collar, expected close) instead of computing the spread by hand, and weigh the implied break probability against your own view of regulatory, financing and vote risk
+- Value each piece (spinco, remainco, stub) against its own peers with the peerComparables tool, citing peer medians and ranks rather than recalled multiples
+- Run institutionalOwnership to see who is positioned for the event: new positions by activists or event-driven funds, and index holders that will be forced to sell a spinco
 
 OUTPUT FORMAT:
 - Provide your analysis in well-structured markdown
 - Use <mark> tags to highlight your most important insights, key catalysts, critical timelines, risk/reward scenarios, and investment conclusion
 - Example: <mark>The upcoming spinoff will unlock hidden value as the market has not yet priced in the separate business segments.</mark>
 
-Use the market data tool to gather information on corporate structure and trading data, and the knowledge base to reference Greenblatt's principles and case studies.`,
-  model: 'openai/gpt-4o',
+Use the market data tool to gather information on corporate structure and trading data, the comparables tool to benchmark valuations against peers, and the knowledge base to reference Greenblatt's principles and case studies.`,
+  model: getMastraModel('strategist'),
   tools: {
     marketData: marketDataTool,
     knowledgeBase: searchInvestmentWisdom,
+    peerComparables: peerComparablesTool,
+    mergerArbSpread: mergerArbSpreadTool,
+    institutionalOwnership: institutionalOwnershipTool,
   },
 });
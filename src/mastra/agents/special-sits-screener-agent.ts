@@ -1,9 +1,12 @@
 import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
 import {
   fmpSecFilings,
   fmpNews,
   fmpGainers,
   fmpLosers,
+  mergerArbSpreadTool,
+  corporateEventsTool,
 } from '../tools';
 
 /**
@@ -36,15 +39,17 @@ Focus Areas:
 7. **Conglomerate Breakups**: Sum-of-parts worth more than whole
 
 Your Workflow:
-1. Search SEC filings for:
+1. Start from the recent corporate events you are given, if any, and run the corporateEvents tool on gainers, losers and other names you come across to classify their filings into spinoffs, mergers, tender offers, rights offerings, bankruptcies and activist 13Ds
+2. Search SEC filings for:
    - S-4 filings (mergers, spinoffs)
    - 13D/G filings (activist investors)
    - 8-K filings (material events)
    - Form 13F changes (institutional positions)
-2. Cross-reference with news for announcements
-3. Use web search for context and details
-4. Analyze 3-5 best opportunities
-5. Present with catalyst timeline
+3. Cross-reference with news for announcements
+4. Use web search for context and details
+   - For merger arb candidates, run the mergerArbSpread tool with the announced deal terms; quote its spread, annualized return and implied break probability in Key Details
+5. Analyze 3-5 best opportunities
+6. Present with catalyst timeline
 
 Output Format for Each Opportunity:
 ---
@@ -96,11 +101,13 @@ Focus on situations with:
 - Asymmetric risk/reward
 - Limited downside
 - High probability of completion`,
-  model: 'openai/gpt-4o',
+  model: getMastraModel('screener'),
   tools: {
     secFilings: fmpSecFilings,
     news: fmpNews,
     gainers: fmpGainers,
     losers: fmpLosers,
+    mergerArbSpread: mergerArbSpreadTool,
+    corporateEvents: corporateEventsTool,
   },
 });
@@ -1,7 +1,11 @@
 import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
 import { config } from '../config';
 import { marketDataTool } from '../tools/market-data';
 import { searchInvestmentWisdom } from '../tools/knowledge-base';
+import { dcfValuationTool, epvValuationTool, assetValuationTool } from '../tools/valuation';
+import { peerComparablesTool } from '../tools/comparables';
+import { institutionalOwnershipTool } from '../tools/ownership';
 
 /**
  * Value Investment Agent
@@ -56,15 +60,29 @@ When Analyzing Investments:
 - Look for hidden assets and liabilities
 - Assess competitive positioning
 
+Valuation Tools:
+- Never compute intrinsic value by hand. Once you know the ticker, run the epvValuation, assetValuation and dcfValuation tools
+- EPV versus reproduction value tells you whether there is a franchise: only credit growth value when EPV clearly exceeds reproduction value
+- Net asset value is your floor; treat the DCF as the least reliable of the estimates
+- Re-run a tool with overridden assumptions when the defaults do not fit the business (e.g. cyclical margins, higher cost of capital for leverage)
+- Quote the values, margins of safety and the key assumptions behind them, including any warnings the tools return
+- Run peerComparables to check the multiples against same-industry peers: cite the peer median and the company's rank rather than recalled peer multiples
+- Run institutionalOwnership to see whether notable value funds are building or exiting the position last quarter; a Baupost or Berkshire add supports the thesis, broad distribution by holders deserves an explanation
+
 OUTPUT FORMAT:
 - Provide your analysis in well-structured markdown
 - Use <mark> tags to highlight your most important insights, key risks, critical metrics, and investment conclusion
 - Example: <mark>The stock trades at 40% below estimated intrinsic value, providing a substantial margin of safety.</mark>
 
-Use the market data tool to gather financial information and the knowledge base to reference value investing principles from Graham, Greenwald, and other value investors.`,
-  model: 'openai/gpt-4o',
+Use the market data tool to gather financial information, the valuation and comparables tools to compute intrinsic and relative value, and the knowledge base to reference value investing principles from Graham, Greenwald, and other value investors.`,
+  model: getMastraModel('strategist'),
   tools: {
     marketData: marketDataTool,
     knowledgeBase: searchInvestmentWisdom,
+    dcfValuation: dcfValuationTool,
+    epvValuation: epvValuationTool,
+    assetValuation: assetValuationTool,
+    peerComparables: peerComparablesTool,
+    institutionalOwnership: institutionalOwnershipTool,
   },
 });
@@ -1,9 +1,11 @@
 import { Agent } from '@mastra/core/agent';
+import { getMastraModel } from '../models';
 import {
   fmpValueScreener,
   fmpKeyMetrics,
   fmpFinancialRatios,
   fmpPriceSnapshot,
+  insiderBuyingSignalTool,
 } from '../tools';
 
 /**
@@ -42,8 +44,9 @@ Your Workflow:
 2. Get detailed metrics for top 10-15 candidates
 3. Analyze financial health (debt, liquidity, profitability)
 4. Check recent price action (avoid falling knives)
-5. Rank by margin of safety
-6. Present 5-10 best opportunities
+5. Run the insiderBuying tool on the finalists: clustered purchases by several insiders, CEO/CFO buys and outsized buys relative to holdings are evidence that insiders see the same value
+6. Rank by margin of safety, using a moderate or strong insider signal to break ties
+7. Present 5-10 best opportunities
 
 Output Format for Each Opportunity:
 ---
@@ -63,6 +66,7 @@ Valuation:
 - Intrinsic Value Estimate: [$]
 - Margin of Safety: [%]
 - Key Value Driver: [what creates the value]
+- Insider Signal: [score/100, strength and the main reason]
 
 Red Flags:
 - [List any concerns]
@@ -79,11 +83,12 @@ Important Warnings:
 - Low price alone does not equal value
 
 Focus on finding high-quality businesses temporarily mispriced by the market.`,
-  model: 'openai/gpt-4o',
+  model: getMastraModel('screener'),
   tools: {
     screener: fmpValueScreener,
     metrics: fmpKeyMetrics,
     ratios: fmpFinancialRatios,
     price: fmpPriceSnapshot,
+    insiderBuying: insiderBuyingSignalTool,
   },
 });
@@ -1,6 +1,32 @@
 import { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+import { getMastraModel } from '../models';
 import { marketDataTool } from '../tools/market-data';
 
+/**
+ * Structured verdict schema
+ *
+ * Extracted from the verdict agent's markdown so downstream scoring never
+ * has to scrape the decision or conviction out of free text.
+ */
+export const investmentVerdictSchema = z.object({
+  decision: z.enum(['INVEST', 'PASS', 'WATCH']).describe('Final investment decision'),
+  conviction: z.number().min(0).max(100).describe('Conviction level as a percentage (0-100)'),
+  targetPrice: z.number().positive().nullable().describe('Fair value / target price per share in USD, or null if not given'),
+  positionSize: z.number().min(0).max(100).nullable().describe('Recommended position size as % of portfolio, or null if not given'),
+  keyRisks: z.array(z.string()).describe('Most significant risks and concerns, one per entry'),
+  openQuestions: z.array(z.string()).describe('Remaining questions that still need answering'),
+});
+
+export type InvestmentVerdict = z.infer<typeof investmentVerdictSchema>;
+
+export interface VerdictResult {
+  markdown: string;
+  verdict: InvestmentVerdict;
+}
+
+const VERDICT_MODEL = getMastraModel('verdict');
+
 /**
  * Investment Verdict Agent
  *
@@ -157,8 +183,35 @@ Required Output Format:
 Remember: Your verdict directly influences investment decisions. Be thorough, objective, and clear. A PASS on a mediocre opportunity is as valuable as an INVEST on a great one.
 
 HIGHLIGHTING: Use <mark> tags to highlight your final decision, key reasoning, conviction level, critical investment parameters, and most important takeaways. Example: <mark>INVEST with 75% conviction - the asymmetric risk/reward and clear spinoff catalyst provide an attractive entry point.</mark>`,
-  model: 'openai/gpt-4o',
+  model: VERDICT_MODEL,
   tools: {
     marketData: marketDataTool,
   },
 });
+
+/**
+ * Generate a verdict as rendered markdown plus a validated structured object
+ *
+ * The agent writes its usual markdown verdict; a structuring pass then
+ * extracts the decision fields, which are validated against the schema.
+ *
+ * @throws Error if the structured verdict is missing or fails validation
+ */
+export async function generateStructuredVerdict(context: string): Promise<VerdictResult> {
+  const result = await verdictAgent.generate(context, {
+    structuredOutput: {
+      schema: investmentVerdictSchema,
+      model: VERDICT_MODEL,
+    },
+  });
+
+  const parsed = investmentVerdictSchema.safeParse(result.object);
+  if (!parsed.success) {
+    throw new Error(`Invalid structured verdict: ${parsed.error.message}`);
+  }
+
+  return {
+    markdown: result.text,
+    verdict: parsed.data,
+  };
+}
@@ -1,4 +1,6 @@
-import { createOpenAI } from '@ai-sdk/openai';
+import path from 'path';
+import { DEFAULT_MODELS, type ModelRole } from '@/src/types/models';
+import { getModel, isMockMode } from './models';
 
 /**
  * Environment validation and configuration
@@ -10,32 +12,48 @@ const requiredEnvVars = {
   FMP_API_KEY: process.env.FMP_API_KEY,
 } as const;
 
-// Optional environment variables (for RAG functionality)
+// Optional environment variables (for RAG functionality and the FMP client)
 const optionalEnvVars = {
   POSTGRES_CONNECTION_STRING: process.env.POSTGRES_CONNECTION_STRING,
+  FMP_MODE: process.env.FMP_MODE,
+  FMP_FIXTURES_DIR: process.env.FMP_FIXTURES_DIR,
+  FMP_RATE_LIMIT_PER_MINUTE: process.env.FMP_RATE_LIMIT_PER_MINUTE,
+  SEC_USER_AGENT: process.env.SEC_USER_AGENT,
 } as const;
 
+/**
+ * FMP client mode: live API calls, record responses to fixtures, or replay fixtures offline
+ */
+export type FmpMode = 'live' | 'record' | 'replay';
+
+const fmpMode: FmpMode =
+  optionalEnvVars.FMP_MODE === 'record' || optionalEnvVars.FMP_MODE === 'replay'
+    ? optionalEnvVars.FMP_MODE
+    : 'live';
+
+// The OpenAI key is only needed while some role still uses an OpenAI model
+const usesOpenAI = !isMockMode() &&
+  (Object.keys(DEFAULT_MODELS) as ModelRole[]).some(role => getModel(role).provider === 'openai');
+
 // Validate required environment variables at startup
+// (the FMP key is not needed when replaying recorded fixtures)
 Object.entries(requiredEnvVars).forEach(([key, value]) => {
-  if (!value) {
+  if (!value && !(key === 'FMP_API_KEY' && fmpMode === 'replay') && !(key === 'OPENAI_API_KEY' && !usesOpenAI)) {
     throw new Error(`Missing required environment variable: ${key}`);
   }
 });
 
-/**
- * OpenAI provider for all agents
- * Mastra expects a provider instance
- */
-export const openaiProvider = createOpenAI({
-  apiKey: requiredEnvVars.OPENAI_API_KEY,
-});
-
 /**
  * Export validated configuration
  * Provides type-safe access to environment variables
  */
 export const config = {
   fmpApiKey: requiredEnvVars.FMP_API_KEY,
+  fmpMode,
+  fmpFixturesDir: path.resolve(optionalEnvVars.FMP_FIXTURES_DIR ?? 'fixtures/fmp'),
+  fmpRateLimitPerMinute: Number(optionalEnvVars.FMP_RATE_LIMIT_PER_MINUTE) || 300,
+  // SEC EDGAR rejects requests without a descriptive User-Agent naming a contact;
+  // EDGAR fetches fail fast when this is unset
+  secUserAgent: optionalEnvVars.SEC_USER_AGENT,
   postgresConnectionString: optionalEnvVars.POSTGRES_CONNECTION_STRING,
-  openaiModelId: 'gpt-4o',
 } as const;
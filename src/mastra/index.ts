@@ -4,11 +4,14 @@ import { specialSitsAgent } from './agents/special-sits-agent';
 import { distressedAgent } from './agents/distressed-agent';
 import { skepticAgent } from './agents/skeptic-agent';
 import { riskOfficerAgent } from './agents/risk-officer-agent';
+import { bullAdvocateAgent } from './agents/bull-advocate-agent';
 import { valueScreenerAgent } from './agents/value-screener-agent';
 import { specialSitsScreenerAgent } from './agents/special-sits-screener-agent';
 import { distressedScreenerAgent } from './agents/distressed-screener-agent';
 import { marketMoversAgent } from './agents/market-movers-agent';
 import { verdictAgent } from './agents/verdict-agent';
+import { macroAgent } from './agents/macro-agent';
+import { claimExtractorAgent } from './agents/claim-extractor-agent';
 import { vectorStore } from './rag';
 
 /**
@@ -33,9 +36,16 @@ export const mastra = new Mastra({
     // Critique agents (for stress-testing research)
     skepticAgent,
     riskOfficerAgent,
+    bullAdvocateAgent,
 
     // Verdict agent (for final investment decision)
     verdictAgent,
+
+    // Macro agent (for market cycle context)
+    macroAgent,
+
+    // Claim extractor (for the report fact check)
+    claimExtractorAgent,
   },
   ...(vectorStore && {
     vectors: {
@@ -141,7 +151,13 @@ export { valueAgent, specialSitsAgent, distressedAgent };
 export { valueScreenerAgent, specialSitsScreenerAgent, distressedScreenerAgent, marketMoversAgent };
 
 // Critique agents
-export { skepticAgent, riskOfficerAgent };
+export { skepticAgent, riskOfficerAgent, bullAdvocateAgent };
 
 // Verdict agent
 export { verdictAgent };
+
+// Macro agent
+export { macroAgent };
+
+// Claim extractor
+export { claimExtractorAgent };
@@ -0,0 +1,327 @@
+/**
+ * Mock Model Provider
+ *
+ * Deterministic stand-in for every model call when LLM_MODE=mock, so routes
+ * and workflows run end to end without API keys. Each role answers with a
+ * scripted response shaped like the real output (stances for the council,
+ * opportunity blocks for screeners, ...). Drop `<role>.md` (text) or
+ * `<role>.json` (structured output) into LLM_FIXTURES_DIR (default
+ * fixtures/llm) to replace a script.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { MastraModelConfig } from '@mastra/core/llm';
+import type { ModelRole } from '@/src/types/models';
+
+type MockLanguageModel = Extract<MastraModelConfig, { specificationVersion: 'v2' }>;
+type GenerateOptions = Parameters<MockLanguageModel['doGenerate']>[0];
+
+interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  minItems?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  anyOf?: JsonSchema[];
+  default?: unknown;
+}
+
+const STANCE_FOOTER = '\n\nSTANCE: WATCH';
+
+const CRITIQUE = `## Key Concerns
+1. Revenue growth assumptions rely on a single product cycle.
+2. Margin expansion is not supported by the cost structure disclosed.
+3. The research cites few primary sources for its valuation inputs.
+
+## Missing Information
+- Segment-level profitability
+- Debt maturity schedule beyond 2027
+
+## Claims Checked
+| Claim from the Report | What the Data Shows | Source | Verdict |
+|-----------------------|---------------------|--------|---------|
+| Revenue grew 12% last year | Revenue grew 7.8% (FY2024) | Income statement | Contradicted |
+| Net debt below 2x EBITDA | 1.7x (TTM) | Financial ratios | Confirmed |
+
+## Overall Assessment
+The thesis is plausible but under-evidenced. Verify the margin assumptions before committing capital.`;
+
+const RISK_ASSESSMENT = `## Risk Summary
+| Risk | Likelihood | Impact |
+|------|------------|--------|
+| Demand slowdown | Medium | High |
+| Refinancing | Low | High |
+| Execution | Medium | Medium |
+
+## Claims Checked
+| Claim from the Report | What the Data Shows | Source | Verdict |
+|-----------------------|---------------------|--------|---------|
+| No maturities before 2027 | $120M short-term debt (latest quarter) | Balance sheet | Contradicted |
+
+## Downside Scenario
+A 30% drawdown is plausible if guidance is cut; a 50% drawdown would require a credit event.
+
+## Position Sizing
+Start with a half position (2% of portfolio) and add on confirmation.`;
+
+const BULL_CASE = `## Bull Case
+The market extrapolates a temporary margin dip. With the cost program delivering, earnings recover to $4.20 by next year and a 12x multiple gives $50 per share.
+
+## Conviction
+Moderate: the downside is limited by a strong balance sheet.`;
+
+const ANALYSIS = `## Strategy Fit
+The opportunity fits the strategy: shares trade at a discount to conservative estimates of intrinsic value.
+
+## Key Metrics
+- P/E: 11.2
+- P/B: 1.3
+- Free cash flow yield: 8.5%
+
+## Catalysts
+1. Cost program completing within 12 months
+2. Capital return once leverage falls below 2x
+
+## Margin of Safety
+Roughly 30% below our base-case fair value of $48 per share.`;
+
+const MOCK_RESPONSES: Record<ModelRole, string> = {
+  'deep-research': '',
+  'researcher': `# Investment Research Report
+
+## 1. Executive Summary
+**Mock Industries (MOCK)** trades at $34.20 with a market cap of $5.1B. <mark>Shares sit 30% below a conservative fair value estimate.</mark>
+
+## 2. Company Overview
+Mock Industries makes industrial components for a diversified customer base and holds the #2 position in its niche ([Mock Industry Review](https://example.com/mock-industry-review)).
+
+## 3. Financial Analysis
+- P/E: 11.2, P/B: 1.3, EV/EBITDA: 7.4
+- Revenue grew 6% a year over the last five years
+- Net debt / EBITDA of 1.8x; free cash flow of $430M
+
+## 4. Investment Thesis
+Temporary margin pressure has pushed the shares to a multi-year low while the franchise is intact.
+
+## 5. Valuation
+Base-case fair value of $48, implying 40% upside.
+
+## 6. Risks
+- Demand slowdown in the core end market
+- Execution risk on the cost program
+
+## 7. Recommendation
+Accumulate up to a 3% position below $36.
+
+Sources: [Mock 10-K](https://example.com/mock-10k)`,
+  'fact-check': '',
+  'strategist': ANALYSIS,
+  'macro': `- **Rates:** 10-year at 4.20%, 2-year at 3.95%; the curve is flat (+25bps) and steepening
+- **Credit:** high yield spreads stable, HYG in line with IEF over three months
+- **Sectors:** defensives lead cyclicals by 1.5% over three months
+- **Cycle phase:** <mark>Late cycle, moderate confidence</mark>
+- **Implications:** value should stress-test refinancing; merger arbitrage financing is available; distressed supply is still thin`,
+  'screener': `**Opportunity: [MOCK] - [Mock Industries]**
+Thesis: Temporary margin pressure has pushed a quality franchise to a multi-year low.
+P/E: 11.2
+P/B: 1.3
+Market Cap: $5.1B
+Verdict: [INVEST] with [72%] confidence
+
+---
+
+**Opportunity: [TEST] - [Test Holdings]**
+Thesis: Spin-off of a non-core division creates forced selling and a clear catalyst.
+P/E: 14.8
+P/B: 2.1
+Market Cap: $2.4B
+Verdict: [WATCH] with [55%] confidence
+
+---`,
+  'skeptic': CRITIQUE,
+  'risk': RISK_ASSESSMENT,
+  'bull': BULL_CASE,
+  'verdict': `## Investment Verdict
+**Decision: WATCH** with 60% conviction
+
+The thesis is attractive on valuation but the council's concerns about margins are unresolved.
+
+**Target price:** $48
+**Position size:** 2% of portfolio
+
+### Key Risks
+- Demand slowdown in the core end market
+- Execution risk on the cost program
+
+### Open Questions
+- Can margins recover without volume growth?`,
+  'chat': 'Based on the research and the council debate, the main open question is whether margins can recover without volume growth. The valuation leaves a reasonable margin of safety, but I would wait for evidence from the next two quarters before sizing up.',
+  'interrogation': 'The research report and the critiques agree on valuation but disagree on margin durability. The skeptic\'s strongest point is the lack of segment-level data; the risk officer suggests starting with a half position.',
+  'council-skeptic': CRITIQUE + STANCE_FOOTER,
+  'council-risk': RISK_ASSESSMENT + STANCE_FOOTER,
+  'council-bull': BULL_CASE + STANCE_FOOTER,
+  'council-synthesizer': `## Council Synthesis
+The council agrees the valuation is undemanding and disagrees on how quickly margins recover. Further research should focus on segment margins and the refinancing timeline.${STANCE_FOOTER}`,
+  'embedding': '',
+};
+
+/**
+ * Scripted structured output, matching the text scripts above
+ */
+const MOCK_STRUCTURED: Partial<Record<ModelRole, unknown>> = {
+  'fact-check': {
+    claims: [
+      { quote: 'market cap of $5.1B', ticker: 'MOCK', metric: 'market_cap', value: 5100000000, fiscalYear: null },
+      { quote: 'P/E: 11.2', ticker: 'MOCK', metric: 'pe', value: 11.2, fiscalYear: null },
+      { quote: 'free cash flow of $430M', ticker: 'MOCK', metric: 'free_cash_flow', value: 430000000, fiscalYear: null },
+    ],
+  },
+  'verdict': {
+    decision: 'WATCH',
+    conviction: 60,
+    targetPrice: 48,
+    positionSize: 2,
+    keyRisks: ['Demand slowdown in the core end market', 'Execution risk on the cost program'],
+    openQuestions: ['Can margins recover without volume growth?'],
+  },
+};
+
+const GENERIC_RESPONSE = 'Mock response: this content was generated offline by the mock model provider.';
+
+function fixturesDir(): string {
+  return path.resolve(process.env.LLM_FIXTURES_DIR ?? 'fixtures/llm');
+}
+
+function readFixture(role: ModelRole | undefined, extension: 'md' | 'json'): string | undefined {
+  if (!role) return undefined;
+  const file = path.join(fixturesDir(), `${role}.${extension}`);
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined;
+}
+
+/**
+ * Scripted text response for a role (fixture first, then the built-in script)
+ */
+export function getMockResponse(role?: ModelRole): string {
+  return readFixture(role, 'md') ?? ((role && MOCK_RESPONSES[role]) || GENERIC_RESPONSE);
+}
+
+/**
+ * Smallest value that satisfies a JSON schema, for structured output without a fixture
+ */
+function sampleFromSchema(schema: JsonSchema): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum?.length) return schema.enum[0];
+  if (schema.anyOf?.length) return sampleFromSchema(schema.anyOf[0]);
+
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') ?? 'null' : schema.type;
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value)])
+      );
+    case 'array':
+      return Array.from({ length: schema.minItems ?? 1 }, () => sampleFromSchema(schema.items ?? {}));
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 1);
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    default:
+      return 'mock';
+  }
+}
+
+/**
+ * Rough token count (4 characters per token) so usage figures look plausible
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function respond(role: ModelRole | undefined, options: GenerateOptions): { text: string; inputTokens: number } {
+  const text = options.responseFormat?.type === 'json'
+    ? readFixture(role, 'json') ??
+      JSON.stringify((role && MOCK_STRUCTURED[role]) ?? sampleFromSchema((options.responseFormat.schema ?? {}) as JsonSchema))
+    : getMockResponse(role);
+
+  return { text, inputTokens: estimateTokens(JSON.stringify(options.prompt)) };
+}
+
+export interface MockModelHooks {
+  /** Runs before each call; throwing aborts the call */
+  beforeCall?: () => Promise<void>;
+  /** Receives the estimated token counts of each call */
+  onUsage?: (usage: { inputTokens: number; outputTokens: number }) => void;
+}
+
+/**
+ * Mastra-compatible language model answering from the mock scripts
+ */
+export function createMockLanguageModel(role?: ModelRole, hooks: MockModelHooks = {}): MockLanguageModel {
+  const { beforeCall, onUsage } = hooks;
+  const modelId = role ?? 'generic';
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      await beforeCall?.();
+      const { text, inputTokens } = respond(role, options);
+      const outputTokens = estimateTokens(text);
+      onUsage?.({ inputTokens, outputTokens });
+
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        warnings: [],
+        response: { id: `mock-${modelId}`, modelId, timestamp: new Date(0) },
+      };
+    },
+
+    async doStream(options) {
+      await beforeCall?.();
+      const { text, inputTokens } = respond(role, options);
+      const outputTokens = estimateTokens(text);
+      const id = `mock-${modelId}`;
+      onUsage?.({ inputTokens, outputTokens });
+
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: 'stream-start', warnings: [] });
+            controller.enqueue({ type: 'text-start', id });
+            for (const delta of text.match(/\S+\s*/g) ?? []) {
+              controller.enqueue({ type: 'text-delta', id, delta });
+            }
+            controller.enqueue({ type: 'text-end', id });
+            controller.enqueue({
+              type: 'finish',
+              finishReason: 'stop',
+              usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+            });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Scripted response split into word-sized deltas, for streaming routes
+ */
+export function* mockTextStream(role?: ModelRole): Generator<string> {
+  yield* getMockResponse(role).match(/\S+\s*/g) ?? [];
+}
@@ -0,0 +1,168 @@
+/**
+ * Model Registry
+ *
+ * Maps logical roles to a provider and model so models can be swapped
+ * without code edits. Any role can be overridden per environment with
+ * MODEL_<ROLE>=provider/model, e.g. MODEL_SKEPTIC=anthropic/claude-sonnet-4-20250514
+ * or MODEL_CHAT=local/llama3.1. The `local` provider targets an
+ * OpenAI-compatible endpoint at LOCAL_LLM_BASE_URL (Ollama, vLLM, LM Studio...).
+ *
+ * Set LLM_MODE=mock to answer every role from the deterministic mock provider
+ * (src/mastra/mock-model.ts) instead, so nothing needs an API key.
+ *
+ * Agent models check the user's spend limits before each call and report their
+ * token usage to llm_usage (src/services/llm-usage.ts).
+ */
+
+import { ModelRouterLanguageModel, type MastraModelConfig, type OpenAICompatibleConfig } from '@mastra/core/llm';
+import {
+  DEFAULT_MODELS,
+  MODEL_PROVIDERS,
+  type ModelProvider,
+  type ModelRole,
+  type ModelSpec,
+} from '@/src/types/models';
+import { assertWithinBudget, recordUsage, type LlmUsage } from '@/src/services/llm-usage';
+import { createMockLanguageModel } from './mock-model';
+
+export type { ModelProvider, ModelRole, ModelSpec };
+
+/**
+ * API key environment variable for each hosted provider
+ */
+const PROVIDER_API_KEYS: Record<Exclude<ModelProvider, 'local'>, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  google: 'GOOGLE_GEMINI_API_KEY',
+};
+
+function isModelProvider(value: string): value is ModelProvider {
+  return (MODEL_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Whether every model call is served by the mock provider
+ */
+export function isMockMode(): boolean {
+  return process.env.LLM_MODE === 'mock';
+}
+
+/**
+ * Parse a `provider/model` string; the model part may itself contain slashes
+ */
+export function parseModelSpec(value: string): ModelSpec {
+  const slash = value.indexOf('/');
+  const provider = value.slice(0, slash);
+  const model = value.slice(slash + 1).trim();
+
+  if (slash < 0 || !isModelProvider(provider) || !model) {
+    throw new Error(`Invalid model "${value}": expected provider/model with provider one of ${MODEL_PROVIDERS.join(', ')}`);
+  }
+
+  return { provider, model };
+}
+
+/**
+ * Model for a role, applying any MODEL_<ROLE> environment override
+ */
+export function getModel(role: ModelRole): ModelSpec {
+  const override = process.env[`MODEL_${role.toUpperCase().replace(/-/g, '_')}`];
+  return override ? parseModelSpec(override) : DEFAULT_MODELS[role];
+}
+
+/**
+ * Base URL and key for the local OpenAI-compatible endpoint
+ */
+export function getLocalEndpoint(): { url: string; apiKey: string } {
+  const url = process.env.LOCAL_LLM_BASE_URL;
+  if (!url) {
+    throw new Error('LOCAL_LLM_BASE_URL is required for local models');
+  }
+  return { url, apiKey: process.env.LOCAL_LLM_API_KEY || 'local' };
+}
+
+/**
+ * API key for a hosted provider (undefined when not set)
+ */
+export function getProviderApiKey(provider: Exclude<ModelProvider, 'local'>): string | undefined {
+  return process.env[PROVIDER_API_KEYS[provider]];
+}
+
+/**
+ * Whether a provider has the credentials or endpoint it needs
+ * (always true in mock mode, where no provider is called)
+ */
+export function isProviderConfigured(provider: ModelProvider): boolean {
+  if (isMockMode()) return true;
+
+  return provider === 'local'
+    ? !!process.env.LOCAL_LLM_BASE_URL
+    : !!getProviderApiKey(provider);
+}
+
+type ModelCallOptions = Parameters<ModelRouterLanguageModel['doStream']>[0];
+type ModelCallResult = Awaited<ReturnType<ModelRouterLanguageModel['doStream']>>;
+
+/**
+ * Router model that enforces spend limits before every call and records
+ * token usage from its finish part
+ */
+class UsageTrackingModel extends ModelRouterLanguageModel {
+  constructor(
+    config: OpenAICompatibleConfig,
+    private readonly call: Pick<LlmUsage, 'role' | 'provider' | 'model'>
+  ) {
+    super(config);
+  }
+
+  async doGenerate(options: ModelCallOptions): Promise<ModelCallResult> {
+    await assertWithinBudget();
+    return this.track(await super.doGenerate(options));
+  }
+
+  async doStream(options: ModelCallOptions): Promise<ModelCallResult> {
+    await assertWithinBudget();
+    return this.track(await super.doStream(options));
+  }
+
+  private track(result: ModelCallResult): ModelCallResult {
+    const call = this.call;
+
+    return {
+      ...result,
+      stream: result.stream.pipeThrough(new TransformStream({
+        transform(part, controller) {
+          if (part.type === 'finish') {
+            void recordUsage({
+              ...call,
+              inputTokens: part.usage.inputTokens ?? 0,
+              outputTokens: part.usage.outputTokens ?? 0,
+            });
+          }
+          controller.enqueue(part);
+        },
+      })),
+    };
+  }
+}
+
+/**
+ * Model config for a Mastra agent; accepts a role or an explicit spec
+ */
+export function getMastraModel(roleOrSpec: ModelRole | ModelSpec): MastraModelConfig {
+  const role = typeof roleOrSpec === 'string' ? roleOrSpec : undefined;
+
+  if (isMockMode()) {
+    return createMockLanguageModel(role, {
+      beforeCall: assertWithinBudget,
+      onUsage: usage => void recordUsage({ role, provider: 'mock', model: role ?? 'generic', ...usage }),
+    });
+  }
+
+  const { provider, model } = role ? getModel(role) : roleOrSpec as ModelSpec;
+  const config: OpenAICompatibleConfig = provider === 'local'
+    ? { providerId: 'local', modelId: model, ...getLocalEndpoint() }
+    : { id: `${provider}/${model}`, apiKey: getProviderApiKey(provider) };
+
+  return new UsageTrackingModel(config, { role, provider, model });
+}
@@ -1,6 +1,15 @@
+import { createOpenAI } from '@ai-sdk/openai';
 import { PgVector } from '@mastra/pg';
+import { embed, embedMany, cosineSimilarity } from 'ai';
 import { config } from './config';
-import { setVectorIndex } from './tools/knowledge-base';
+import { getLocalEndpoint, getModel, getProviderApiKey } from './models';
+import { assertWithinBudget, recordUsage } from '@/src/services/llm-usage';
+import {
+  setVectorIndex,
+  type WisdomDocument,
+  type WisdomIndex,
+  type WisdomSearchResult,
+} from './tools/knowledge-base';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -17,25 +26,175 @@ export const vectorStore = config.postgresConnectionString
   : null;
 
 /**
- * Create vector index for investment wisdom
- * Uses OpenAI text-embedding-3-small with 1536 dimensions
+ * Index settings for investment wisdom
+ * Uses the registry's embedding model (OpenAI text-embedding-3-small by default);
+ * a local override must also produce 1536 dimensions
+ */
+const WISDOM_INDEX_NAME = 'investment_wisdom';
+const EMBEDDING_DIMENSION = 1536;
+const embeddingSpec = getModel('embedding');
+const embeddingModel = createEmbeddingModel();
+
+function createEmbeddingModel() {
+  const { provider, model } = embeddingSpec;
+
+  if (provider === 'local') {
+    const { url, apiKey } = getLocalEndpoint();
+    return createOpenAI({ baseURL: url, apiKey }).embeddingModel(model);
+  }
+  if (provider !== 'openai') {
+    throw new Error(`Embeddings are only supported for openai and local models, not ${provider}`);
+  }
+  return createOpenAI({ apiKey: getProviderApiKey('openai') }).embeddingModel(model);
+}
+
+/**
+ * Create the wisdom index table if it does not exist yet
  *
- * Note: The exact API may vary by Mastra version.
- * This creates a placeholder that can be configured properly.
+ * @returns true if the index was created
  */
-export const investmentWisdomIndex = {
-  query: async (params: { query: string; topK: number; filter?: any }) => {
-    // Placeholder implementation
-    // In production, this would query the vector index
-    console.log('Vector query:', params);
-    return [];
-  },
-  upsert: async (documents: Array<{ content: string; metadata: any }>) => {
-    // Placeholder implementation
-    console.log('Vector upsert:', documents.length, 'documents');
-    return;
-  },
-};
+async function ensureWisdomIndex(store: PgVector): Promise<boolean> {
+  const indexes = await store.listIndexes();
+  if (indexes.includes(WISDOM_INDEX_NAME)) {
+    return false;
+  }
+
+  await store.createIndex({
+    indexName: WISDOM_INDEX_NAME,
+    dimension: EMBEDDING_DIMENSION,
+    metric: 'cosine',
+  });
+  return true;
+}
+
+/**
+ * pgvector-backed index
+ *
+ * Chunk text is stored in the vector metadata under `text` so results can be
+ * returned without a second lookup.
+ */
+function createPgWisdomIndex(store: PgVector): WisdomIndex {
+  let indexReady: Promise<boolean> | null = null;
+
+  const ensureIndex = () => {
+    indexReady ??= ensureWisdomIndex(store).catch((error) => {
+      indexReady = null;
+      throw error;
+    });
+    return indexReady;
+  };
+
+  return {
+    query: async ({ query, topK, filter }) => {
+      await ensureIndex();
+      await assertWithinBudget();
+      const { embedding, usage } = await embed({ model: embeddingModel, value: query });
+      await recordUsage({ role: 'embedding', ...embeddingSpec, inputTokens: usage.tokens, outputTokens: 0 });
+
+      const results = await store.query({
+        indexName: WISDOM_INDEX_NAME,
+        queryVector: embedding,
+        topK,
+        filter,
+      });
+
+      return results.map(({ score, metadata = {} }) => {
+        const { text, ...rest } = metadata;
+        return {
+          content: typeof text === 'string' ? text : '',
+          score,
+          metadata: rest,
+        };
+      });
+    },
+    upsert: async (documents) => {
+      if (documents.length === 0) return;
+      await ensureIndex();
+      await assertWithinBudget();
+
+      const { embeddings, usage } = await embedMany({
+        model: embeddingModel,
+        values: documents.map((doc) => doc.content),
+      });
+      await recordUsage({ role: 'embedding', ...embeddingSpec, inputTokens: usage.tokens, outputTokens: 0 });
+
+      await store.upsert({
+        indexName: WISDOM_INDEX_NAME,
+        vectors: embeddings,
+        ids: documents.map((doc) => doc.id),
+        metadata: documents.map((doc) => ({ ...doc.metadata, text: doc.content })),
+      });
+    },
+  };
+}
+
+/**
+ * Deterministic local embedding for the in-memory index
+ *
+ * Hashes lowercase word tokens into a fixed-size term-frequency vector.
+ * Lexical rather than semantic, but needs no network or API key.
+ */
+const LOCAL_EMBEDDING_DIMENSION = 512;
+
+function localEmbedding(text: string): number[] {
+  const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSION).fill(0);
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+  for (const token of tokens) {
+    let hash = 0;
+    for (let i = 0; i < token.length; i++) {
+      hash = (hash * 31 + token.charCodeAt(i)) >>> 0;
+    }
+    vector[hash % LOCAL_EMBEDDING_DIMENSION] += 1;
+  }
+
+  return vector;
+}
+
+/**
+ * In-memory index used when POSTGRES_CONNECTION_STRING is absent
+ *
+ * Contents live for the lifetime of the process only.
+ */
+export function createInMemoryWisdomIndex(): WisdomIndex {
+  const entries: Array<WisdomDocument & { vector: number[] }> = [];
+
+  return {
+    query: async ({ query, topK, filter }) => {
+      const queryVector = localEmbedding(query);
+      const isZero = queryVector.every((v) => v === 0);
+
+      return entries
+        .filter((entry) => !filter || entry.metadata.category === filter.category)
+        .map((entry): WisdomSearchResult => ({
+          content: entry.content,
+          score: isZero ? 0 : cosineSimilarity(queryVector, entry.vector),
+          metadata: entry.metadata,
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+    upsert: async (documents) => {
+      for (const doc of documents) {
+        const entry = { ...doc, vector: localEmbedding(doc.content) };
+        const existing = entries.findIndex((e) => e.id === doc.id);
+        if (existing === -1) {
+          entries.push(entry);
+        } else {
+          entries[existing] = entry;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Investment wisdom index
+ * pgvector when a connection string is configured, in-memory otherwise
+ */
+export const investmentWisdomIndex: WisdomIndex = vectorStore
+  ? createPgWisdomIndex(vectorStore)
+  : createInMemoryWisdomIndex();
 
 /**
  * Initialize the knowledge base tool with the vector index
@@ -99,12 +258,14 @@ export async function ingestDocument(
     // Chunk text
     const chunks = chunkText(text, chunkSize, chunkOverlap);
 
-    // Add chunks to vector index
-    const documents = chunks.map((chunk, index) => ({
+    // Add chunks to vector index; ids from source and position make re-ingestion replace rather than duplicate
+    const source = path.basename(filePath);
+    const documents: WisdomDocument[] = chunks.map((chunk, index) => ({
+      id: `${category}:${source}:${index}`,
       content: chunk,
       metadata: {
         category,
-        source: path.basename(filePath),
+        source,
         chunkIndex: index,
         totalChunks: chunks.length,
       },
@@ -163,14 +324,19 @@ export async function ingestDirectory(dirPath: string, category: string) {
  * Call this once during setup to ensure the database is ready
  */
 export async function initializeVectorDB() {
+  if (!vectorStore) {
+    console.log('POSTGRES_CONNECTION_STRING not set - using in-memory investment wisdom index');
+    return;
+  }
+
   try {
-    // Placeholder for database initialization
-    // The exact API depends on the Mastra version
-    console.log('Vector database initialization placeholder');
-    console.log('Ensure PostgreSQL has pgvector extension installed:');
-    console.log('  CREATE EXTENSION IF NOT EXISTS vector;');
+    if (await ensureWisdomIndex(vectorStore)) {
+      console.log(`Created vector index: ${WISDOM_INDEX_NAME}`);
+    }
   } catch (error) {
     console.error('Failed to initialize vector database:', error);
+    console.error('Ensure PostgreSQL has pgvector extension installed:');
+    console.error('  CREATE EXTENSION IF NOT EXISTS vector;');
     throw error;
   }
 }
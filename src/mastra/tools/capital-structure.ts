@@ -0,0 +1,254 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { fmpIncomeStatement, fmpBalanceSheet, fmpCashFlow } from './fmp-fundamentals';
+import {
+  capitalStructureSchema,
+  type CapitalStructure,
+  type DistributableValueBasis,
+  type RecoveryTranche,
+} from '@/src/types/capital-structure';
+
+type StatementRow = Record<string, unknown>;
+
+/** Liquidation recoveries when EBITDA can't support a going-concern value; same defaults as net asset value */
+const LIQUIDATION_RECOVERY = {
+  receivables: 0.85,
+  inventory: 0.6,
+  ppe: 0.5,
+};
+
+function num(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function round(value: number, digits = 2): number {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * a / b, or null when the denominator is not positive
+ */
+function ratio(a: number, b: number): number | null {
+  return b > 0 ? round(a / b) : null;
+}
+
+function sum(rows: StatementRow[], field: (row: StatementRow) => number): number {
+  return rows.reduce((total, row) => total + field(row), 0);
+}
+
+/**
+ * Latest balance sheet and the trailing four quarters of income and cash flow
+ */
+async function loadStatements(ticker: string) {
+  const runtimeContext = new RuntimeContext();
+  const [income, balance, cashFlow] = await Promise.all([
+    fmpIncomeStatement.execute({ context: { ticker, period: 'quarterly', limit: 4 }, runtimeContext }),
+    fmpBalanceSheet.execute({ context: { ticker, period: 'quarterly', limit: 1 }, runtimeContext }),
+    fmpCashFlow.execute({ context: { ticker, period: 'quarterly', limit: 4 }, runtimeContext }),
+  ]);
+  const rows = (data: unknown[]) => data.filter((row): row is StatementRow => !!row && typeof row === 'object');
+
+  const latestBalance = rows(balance.data)[0];
+  if (!latestBalance) {
+    throw new Error(`No balance sheet available for ${ticker}`);
+  }
+
+  return { income: rows(income.data), balance: latestBalance, cashFlow: rows(cashFlow.data) };
+}
+
+/**
+ * Pay claims in seniority order; tranches sharing a seniority split what is
+ * left pro rata
+ */
+function runWaterfall(
+  distributableValue: number,
+  claims: Array<{ name: string; seniority: number; amount: number }>
+): { tranches: RecoveryTranche[]; equityResidual: number } {
+  let remaining = Math.max(0, distributableValue);
+  const tranches: RecoveryTranche[] = [];
+  const levels = [...new Set(claims.map(c => c.seniority))].sort((a, b) => a - b);
+
+  for (const seniority of levels) {
+    const level = claims.filter(c => c.seniority === seniority);
+    const total = level.reduce((acc, c) => acc + c.amount, 0);
+    const paid = Math.min(remaining, total);
+    remaining -= paid;
+
+    for (const claim of level) {
+      const recovery = total > 0 ? (claim.amount / total) * paid : 0;
+      tranches.push({
+        name: claim.name,
+        seniority,
+        claim: claim.amount,
+        recovery: Math.round(recovery),
+        recoveryPct: claim.amount > 0 ? round(recovery / claim.amount) : null,
+      });
+    }
+  }
+
+  return { tranches, equityResidual: remaining };
+}
+
+// Capital Structure Tool
+const capitalStructureInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol'),
+  evMultiple: z.number().min(1).max(20).default(5).describe('EV / EBITDA multiple for the distressed enterprise value in the waterfall'),
+  distributableValue: z.number().positive().optional().describe('Value to distribute in the waterfall, in USD; overrides the EBITDA multiple'),
+  tranches: z.array(z.object({
+    name: z.string().min(1),
+    amount: z.number().min(0).describe('Claim in USD'),
+    seniority: z.number().int().min(1).max(10).describe('1 is the most senior; equal seniority shares pro rata'),
+  })).optional().describe('Claims from the 10-K debt footnote (e.g. first lien, second lien, unsecured notes); replaces the balance sheet defaults'),
+});
+
+const capitalStructureOutputSchema = z.object({
+  capitalStructure: capitalStructureSchema,
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+type CapitalStructureInput = z.infer<typeof capitalStructureInputSchema>;
+
+/**
+ * Capital stack, credit metrics and recovery waterfall from the latest
+ * quarterly statements
+ */
+async function buildCapitalStructure(input: CapitalStructureInput): Promise<CapitalStructure> {
+  const ticker = input.ticker.toUpperCase();
+  const { income, balance, cashFlow } = await loadStatements(ticker);
+  const warnings: string[] = [];
+
+  if (income.length < 4 || cashFlow.length < 4) {
+    warnings.push(`Only ${Math.min(income.length, cashFlow.length)} quarters of statements; TTM figures cover fewer than four quarters`);
+  }
+
+  // Debt and liquidity
+  const shortTerm = num(balance.shortTermDebt);
+  const longTerm = num(balance.longTermDebt);
+  const leases = num(balance.capitalLeaseObligations);
+  const totalDebt = num(balance.totalDebt) || shortTerm + longTerm;
+  const cash = num(balance.cashAndShortTermInvestments) || num(balance.cashAndCashEquivalents);
+  const netDebt = totalDebt - cash;
+
+  // Trailing twelve months
+  const ebit = sum(income, row => num(row.operatingIncome));
+  const ebitda = sum(income, row => num(row.ebitda) || num(row.operatingIncome) + num(row.depreciationAndAmortization));
+  const interestExpense = sum(income, row => Math.abs(num(row.interestExpense)));
+  const freeCashFlow = sum(cashFlow, row => num(row.freeCashFlow) || num(row.operatingCashFlow) + num(row.capitalExpenditure));
+
+  if (totalDebt > 0 && interestExpense === 0) {
+    warnings.push('No interest expense reported; coverage not computed');
+  }
+  if (totalDebt > 0) {
+    warnings.push('FMP only splits debt into current and long-term; check the maturity schedule in the 10-K debt footnote before relying on the maturity wall');
+  }
+
+  // Distributable value
+  let distributableValue: number;
+  let basis: DistributableValueBasis;
+  if (input.distributableValue !== undefined) {
+    distributableValue = input.distributableValue;
+    basis = 'input';
+  } else if (ebitda > 0) {
+    distributableValue = ebitda * input.evMultiple + cash;
+    basis = 'ebitda_multiple';
+  } else {
+    distributableValue = cash
+      + num(balance.netReceivables) * LIQUIDATION_RECOVERY.receivables
+      + num(balance.inventory) * LIQUIDATION_RECOVERY.inventory
+      + num(balance.propertyPlantEquipmentNet) * LIQUIDATION_RECOVERY.ppe;
+    basis = 'liquidation';
+    warnings.push('TTM EBITDA is not positive; the waterfall distributes liquidation value (cash, 85% of receivables, 60% of inventory, 50% of PP&E)');
+  }
+
+  // Claims: the agent's tranches, else funded debt ahead of leases and trade claims
+  let claims: Array<{ name: string; seniority: number; amount: number }>;
+  if (input.tranches && input.tranches.length > 0) {
+    claims = input.tranches;
+  } else {
+    claims = [
+      { name: 'Funded debt', seniority: 1, amount: Math.max(0, totalDebt - leases) },
+      { name: 'Lease obligations', seniority: 2, amount: Math.min(leases, totalDebt) },
+      { name: 'Trade payables', seniority: 2, amount: num(balance.accountsPayable) },
+      { name: 'Preferred equity', seniority: 3, amount: num(balance.preferredStock) },
+    ].filter(claim => claim.amount > 0);
+    warnings.push('Default tranches rank all funded debt ahead of leases and trade claims; pass tranches from the debt footnote to separate secured and unsecured debt');
+  }
+
+  const { tranches, equityResidual } = runWaterfall(distributableValue, claims);
+  const shares = num(income[0]?.weightedAverageShsOutDil) || num(income[0]?.weightedAverageShsOut);
+
+  return {
+    ticker,
+    asOf: String(balance.date ?? ''),
+    debt: { shortTerm, longTerm, leases, total: totalDebt },
+    cash,
+    netDebt,
+    ttm: { ebitda, ebit, interestExpense, freeCashFlow },
+    interestCoverage: ratio(ebit, interestExpense),
+    ebitdaCoverage: ratio(ebitda, interestExpense),
+    netLeverage: ratio(netDebt, ebitda),
+    maturities: {
+      dueWithinYear: shortTerm,
+      dueAfterYear: Math.max(0, totalDebt - shortTerm),
+      dueWithinYearPct: ratio(shortTerm, totalDebt),
+    },
+    liquidity: {
+      cash,
+      annualFreeCashFlow: freeCashFlow,
+      runwayMonths: freeCashFlow < 0 ? round(cash / (-freeCashFlow / 12), 1) : null,
+      coversNearTermMaturities: cash + Math.max(0, freeCashFlow) >= shortTerm,
+    },
+    waterfall: {
+      distributableValue,
+      basis,
+      evMultiple: basis === 'ebitda_multiple' ? input.evMultiple : null,
+      tranches,
+      equityResidual,
+      equityPerShare: shares > 0 ? round(equityResidual / shares) : null,
+    },
+    warnings,
+  };
+}
+
+export const capitalStructureTool = createTool({
+  id: 'capital-structure',
+  description: `Build a company's capital structure and a recovery waterfall from its latest quarterly statements.
+
+Returns:
+- Debt stack: short-term, long-term, leases, total debt, cash and net debt
+- Credit metrics on trailing twelve months: EBIT and EBITDA interest coverage, net debt / EBITDA
+- Maturities: debt due within a year versus later (FMP has no full schedule)
+- Liquidity: free cash flow, months of runway at the current burn, and whether cash covers near-term maturities
+- Recovery waterfall: value distributed by seniority, recovery per tranche and what is left for common equity
+
+Distributable value defaults to TTM EBITDA x evMultiple plus cash, or
+liquidation value when EBITDA is negative. Pass distributableValue to set it
+yourself, and tranches from the 10-K debt footnote (first lien, second lien,
+unsecured notes...) to model the real stack instead of the balance sheet defaults.`,
+  inputSchema: capitalStructureInputSchema,
+  outputSchema: capitalStructureOutputSchema,
+  execute: async ({ context }) => {
+    return {
+      capitalStructure: await buildCapitalStructure(context),
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+/**
+ * Capital structures from an agent run's tool calls; the last run per ticker
+ * wins when the agent re-ran it with its own tranches
+ */
+export function collectCapitalStructures(toolResults: Array<{ payload: { result: unknown } }>): CapitalStructure[] {
+  const latest = new Map<string, CapitalStructure>();
+
+  for (const { payload } of toolResults) {
+    const parsed = capitalStructureOutputSchema.safeParse(payload.result);
+    if (parsed.success) latest.set(parsed.data.capitalStructure.ticker, parsed.data.capitalStructure);
+  }
+
+  return [...latest.values()];
+}
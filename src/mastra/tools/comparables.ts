@@ -0,0 +1,263 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { fmpGet } from './fmp-client';
+import { fmpScreener } from './fmp-screener';
+import { fmpKeyMetricsTTM, fmpFinancialRatios } from './fmp-metrics';
+import {
+  comparablesTableSchema,
+  type ComparableMetric,
+  type ComparableRow,
+  type ComparableStat,
+  type ComparablesTable,
+} from '@/src/types/comparables';
+
+type DataRow = Record<string, unknown>;
+
+/**
+ * Metrics in the comps table and where each comes from. Multiples that are
+ * negative (loss-making or negative EBITDA) are not meaningful and dropped.
+ */
+const COMPARABLE_METRICS: Array<ComparableMetric & { source: 'ttm' | 'ratios'; field: string; positiveOnly?: boolean }> = [
+  { key: 'pe', label: 'P/E', format: 'multiple', higherIsBetter: false, source: 'ttm', field: 'peRatioTTM', positiveOnly: true },
+  { key: 'evToEbitda', label: 'EV/EBITDA', format: 'multiple', higherIsBetter: false, source: 'ttm', field: 'enterpriseValueOverEBITDATTM', positiveOnly: true },
+  { key: 'priceToSales', label: 'P/S', format: 'multiple', higherIsBetter: false, source: 'ttm', field: 'priceToSalesRatioTTM', positiveOnly: true },
+  { key: 'priceToBook', label: 'P/B', format: 'multiple', higherIsBetter: false, source: 'ttm', field: 'pbRatioTTM', positiveOnly: true },
+  { key: 'fcfYield', label: 'FCF yield', format: 'percent', higherIsBetter: true, source: 'ttm', field: 'freeCashFlowYieldTTM' },
+  { key: 'dividendYield', label: 'Dividend yield', format: 'percent', higherIsBetter: true, source: 'ttm', field: 'dividendYieldTTM' },
+  { key: 'grossMargin', label: 'Gross margin', format: 'percent', higherIsBetter: true, source: 'ratios', field: 'grossProfitMargin' },
+  { key: 'operatingMargin', label: 'Operating margin', format: 'percent', higherIsBetter: true, source: 'ratios', field: 'operatingProfitMargin' },
+  { key: 'roe', label: 'ROE', format: 'percent', higherIsBetter: true, source: 'ttm', field: 'roeTTM' },
+  { key: 'roic', label: 'ROIC', format: 'percent', higherIsBetter: true, source: 'ttm', field: 'roicTTM' },
+  { key: 'debtToEquity', label: 'Debt/equity', format: 'ratio', higherIsBetter: false, source: 'ttm', field: 'debtToEquityTTM' },
+  { key: 'interestCoverage', label: 'Interest coverage', format: 'multiple', higherIsBetter: true, source: 'ratios', field: 'interestCoverage' },
+];
+
+interface Company {
+  ticker: string;
+  name: string;
+  marketCap: number | null;
+}
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+async function fetchProfile(ticker: string): Promise<DataRow> {
+  const response = await fmpGet<DataRow[] | DataRow>(`/profile/${ticker}`);
+  const profile = Array.isArray(response) ? response[0] : response;
+  if (!profile) {
+    throw new Error(`No company profile available for ${ticker}`);
+  }
+  return profile;
+}
+
+/**
+ * Peers from the screener: same industry first, widened to the sector when
+ * the industry is too thin, closest in market cap to the subject
+ */
+async function findPeers(
+  subject: Company,
+  sector: string | null,
+  industry: string | null,
+  maxPeers: number
+): Promise<{ peers: Company[]; selection: string }> {
+  const runtimeContext = new RuntimeContext();
+  const screen = async (filter: { sector?: string; industry?: string }) => {
+    const result = await fmpScreener.execute({
+      context: { ...filter, isActivelyTrading: true, isEtf: false, limit: 100 },
+      runtimeContext,
+    });
+    return (result.data as DataRow[])
+      .filter(r => typeof r.symbol === 'string' && r.symbol !== subject.ticker)
+      .map((r): Company => ({
+        ticker: String(r.symbol),
+        name: String(r.companyName ?? r.symbol),
+        marketCap: num(r.marketCap),
+      }));
+  };
+
+  let candidates = industry ? await screen({ industry }) : [];
+  let selection = `Industry: ${industry}`;
+
+  if (candidates.length < Math.min(maxPeers, 5) && sector) {
+    candidates = await screen({ sector });
+    selection = `Sector: ${sector} (industry had too few listed peers)`;
+  }
+
+  if (candidates.length === 0) {
+    throw new Error(`No peers found for ${subject.ticker}; pass peer tickers explicitly`);
+  }
+
+  // Rank by distance in log market cap so a mega-cap is not compared with micro-caps
+  const size = subject.marketCap;
+  const distance = (c: Company) =>
+    size !== null && size > 0 && c.marketCap !== null && c.marketCap > 0
+      ? Math.abs(Math.log(c.marketCap / size))
+      : Number.POSITIVE_INFINITY;
+
+  const peers = [...new Map(candidates.map(c => [c.ticker, c])).values()]
+    .sort((a, b) => distance(a) - distance(b))
+    .slice(0, maxPeers);
+
+  return { peers, selection: `${selection}, ${peers.length} closest by market cap` };
+}
+
+/**
+ * Normalized metric values for one company; null where FMP has no data
+ */
+async function loadMetrics(ticker: string): Promise<Record<string, number | null>> {
+  const runtimeContext = new RuntimeContext();
+  const [ttm, ratios] = await Promise.all([
+    fmpKeyMetricsTTM.execute({ context: { ticker }, runtimeContext }),
+    fmpFinancialRatios.execute({ context: { ticker, period: 'annual', limit: 1 }, runtimeContext }),
+  ]);
+
+  const sources: Record<'ttm' | 'ratios', DataRow> = {
+    ttm: (ttm.data as DataRow | undefined) ?? {},
+    ratios: (ratios.data[0] as DataRow | undefined) ?? {},
+  };
+
+  return Object.fromEntries(COMPARABLE_METRICS.map(metric => {
+    const value = num(sources[metric.source][metric.field]);
+    return [metric.key, value !== null && metric.positiveOnly && value <= 0 ? null : value];
+  }));
+}
+
+/**
+ * Value at quantile q (0-1) of sorted values, linearly interpolated
+ */
+function quantile(sorted: number[], q: number): number | null {
+  if (sorted.length === 0) return null;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function computeStat(metric: ComparableMetric, rows: ComparableRow[]): ComparableStat {
+  const values = rows.map(r => r.values[metric.key]).filter((v): v is number => v !== null).sort((a, b) => a - b);
+  const subjectValue = rows.find(r => r.isSubject)?.values[metric.key] ?? null;
+
+  let subjectPercentile: number | null = null;
+  let subjectRank: number | null = null;
+  if (subjectValue !== null) {
+    subjectPercentile = Math.round(values.filter(v => v <= subjectValue).length / values.length * 100);
+    subjectRank = 1 + values.filter(v => (metric.higherIsBetter ? v > subjectValue : v < subjectValue)).length;
+  }
+
+  return {
+    median: quantile(values, 0.5),
+    p25: quantile(values, 0.25),
+    p75: quantile(values, 0.75),
+    count: values.length,
+    subjectValue,
+    subjectPercentile,
+    subjectRank,
+  };
+}
+
+async function buildComparables(ticker: string, peerTickers: string[] | undefined, maxPeers: number): Promise<ComparablesTable> {
+  const symbol = ticker.toUpperCase();
+  const warnings: string[] = [];
+
+  const profile = await fetchProfile(symbol);
+  const sector = typeof profile.sector === 'string' && profile.sector ? profile.sector : null;
+  const industry = typeof profile.industry === 'string' && profile.industry ? profile.industry : null;
+  const subject: Company = {
+    ticker: symbol,
+    name: String(profile.companyName ?? symbol),
+    marketCap: num(profile.mktCap) ?? num(profile.marketCap),
+  };
+
+  const { peers, selection } = peerTickers?.length
+    ? {
+        peers: peerTickers.map((t): Company => ({ ticker: t.toUpperCase(), name: t.toUpperCase(), marketCap: null })),
+        selection: 'Peers chosen by the agent',
+      }
+    : await findPeers(subject, sector, industry, maxPeers);
+
+  const companies = [subject, ...peers.filter(p => p.ticker !== symbol)];
+  const results = await Promise.allSettled(companies.map(c => loadMetrics(c.ticker)));
+
+  const rows: ComparableRow[] = [];
+  results.forEach((result, i) => {
+    const company = companies[i];
+    if (result.status === 'rejected') {
+      warnings.push(`No metrics for ${company.ticker}: ${result.reason instanceof Error ? result.reason.message : 'request failed'}`);
+      return;
+    }
+    rows.push({ ...company, isSubject: i === 0, values: result.value });
+  });
+
+  if (!rows.some(r => r.isSubject)) {
+    throw new Error(`No metrics available for ${symbol}`);
+  }
+  if (rows.length < 4) {
+    warnings.push(`Only ${rows.length - 1} peer(s) with data; medians and ranks are not robust`);
+  }
+
+  const metrics = COMPARABLE_METRICS.map(({ key, label, format, higherIsBetter }) => ({ key, label, format, higherIsBetter }));
+  return {
+    ticker: symbol,
+    sector,
+    industry,
+    peerSelection: selection,
+    metrics,
+    rows,
+    stats: Object.fromEntries(metrics.map(m => [m.key, computeStat(m, rows)])),
+    warnings,
+  };
+}
+
+// Peer Comparables Tool
+const comparablesInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol (e.g., AAPL, GOOGL)'),
+  peers: z.array(z.string()).max(20).optional().describe('Peer tickers to use instead of screening by industry'),
+  maxPeers: z.number().int().min(3).max(20).default(10).describe('Number of screened peers to compare against (default 10)'),
+});
+
+const comparablesOutputSchema = z.object({
+  table: comparablesTableSchema,
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+export const peerComparablesTool = createTool({
+  id: 'peer-comparables',
+  description: `Build a peer comparables table for a ticker.
+
+Finds same-industry peers with the screener (widening to the sector when the
+industry is thin, closest in market cap), then pulls TTM key metrics and the
+latest annual ratios for every company: P/E, EV/EBITDA, P/S, P/B, FCF and
+dividend yield, margins, ROE, ROIC, debt/equity and interest coverage.
+Returns each company's values plus the peer median, 25th/75th percentiles,
+and the subject's percentile and rank (1 = cheapest or strongest) per metric.
+Pass peers explicitly when the screener's industry grouping is too broad.`,
+  inputSchema: comparablesInputSchema,
+  outputSchema: comparablesOutputSchema,
+  execute: async ({ context }) => {
+    const { ticker, peers, maxPeers } = context;
+
+    return {
+      table: await buildComparables(ticker, peers, maxPeers),
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+/**
+ * Comparables tables from an agent run's tool results; the last table per
+ * ticker wins when the tool was re-run with a different peer set
+ */
+export function collectComparables(toolResults: Array<{ payload: { result: unknown } }>): ComparablesTable[] {
+  const latest = new Map<string, ComparablesTable>();
+
+  for (const { payload } of toolResults) {
+    const parsed = comparablesOutputSchema.safeParse(payload.result);
+    if (parsed.success) latest.set(parsed.data.table.ticker, parsed.data.table);
+  }
+
+  return [...latest.values()];
+}
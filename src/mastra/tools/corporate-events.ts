@@ -0,0 +1,256 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { fmpSecFilings, fmp8KFiling } from './fmp-filings';
+import { getFilingText } from './filing-diff';
+import {
+  CORPORATE_EVENT_TYPES,
+  corporateEventSchema,
+  type CorporateEvent,
+  type CorporateEventType,
+} from '@/src/types/corporate-events';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FilingRow = Record<string, unknown>;
+
+/**
+ * Form types that identify an event on their own, matched against the form
+ * type with any /A amendment suffix removed
+ */
+const FORM_RULES: Array<{ forms: string[]; type: CorporateEventType; label: string }> = [
+  { forms: ['10-12B', '10-12G'], type: 'spinoff', label: 'Form 10 registration' },
+  { forms: ['SC 13D'], type: 'activist_13d', label: 'Schedule 13D' },
+  { forms: ['S-4', 'DEFM14A', 'PREM14A', '425'], type: 'merger', label: 'Merger proxy/registration' },
+  { forms: ['SC TO-T', 'SC TO-I', 'SC 14D9'], type: 'tender_offer', label: 'Tender offer schedule' },
+];
+
+/**
+ * 8-K rules, tried in order: a rule matches when the filing reports one of
+ * its items, or when its pattern appears in the text of the reported items
+ */
+const EIGHT_K_RULES: Array<{ items?: string[]; pattern: RegExp; type: CorporateEventType; label: string }> = [
+  { items: ['1.03'], pattern: /chapter\s*11|receivership/i, type: 'bankruptcy', label: 'Bankruptcy or receivership' },
+  { pattern: /rights\s+offering|subscription\s+rights/i, type: 'rights_offering', label: 'Rights offering' },
+  { pattern: /spin-?off|separation\s+and\s+distribution/i, type: 'spinoff', label: 'Spinoff/separation' },
+  { pattern: /tender\s+offer/i, type: 'tender_offer', label: 'Tender offer' },
+  { pattern: /agreement\s+and\s+plan\s+of\s+merger|merger\s+agreement|definitive\s+agreement\s+to\s+(acquire|be\s+acquired)/i, type: 'merger', label: 'Merger agreement' },
+];
+
+const ITEM_HEADING = /^item\s*(\d\.\d{2})\b/i;
+
+/** Exhibits and signatures follow the reported items */
+const ITEMS_END = /^(item\s*9\.01\b|signatures?\b)/i;
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Item numbers an 8-K reports and the text under them, parsed from the
+ * filed document. FMP's filing lists carry only the form type and links.
+ */
+function parseEightKItems(text: string): { items: string[]; body: string } {
+  const lines = text.split('\n');
+  const start = lines.findIndex(line => ITEM_HEADING.test(line));
+  if (start === -1) return { items: [], body: '' };
+
+  const end = lines.findIndex((line, i) => i > start && ITEMS_END.test(line));
+  const section = lines.slice(start, end === -1 ? undefined : end);
+  const items = section
+    .map(line => ITEM_HEADING.exec(line)?.[1])
+    .filter((item): item is string => item !== undefined);
+
+  return { items: [...new Set(items)], body: section.join('\n') };
+}
+
+function classifyEightK(text: string): { type: CorporateEventType; label: string; items: string[] } | null {
+  const { items, body } = parseEightKItems(text);
+  const rule = EIGHT_K_RULES.find(r => r.items?.some(item => items.includes(item)) || r.pattern.test(body));
+  return rule ? { type: rule.type, label: rule.label, items } : null;
+}
+
+function toEvent(ticker: string, row: FilingRow, type: CorporateEventType, reason: string): CorporateEvent | null {
+  const url = str(row.finalLink) ?? str(row.link);
+  const filedAt = filedAtOf(row);
+  if (!url || !filedAt) return null;
+
+  return {
+    ticker,
+    type,
+    formType: str(row.type) ?? str(row.formType) ?? 'unknown',
+    filedAt,
+    reason,
+    url,
+  };
+}
+
+function formTypeOf(row: FilingRow): string {
+  return (str(row.type) ?? str(row.formType) ?? '').toUpperCase();
+}
+
+function filedAtOf(row: FilingRow): string | null {
+  return (str(row.fillingDate) ?? str(row.filingDate) ?? str(row.acceptedDate))?.slice(0, 10) ?? null;
+}
+
+function classifyFiling(ticker: string, row: FilingRow): CorporateEvent | null {
+  const formType = formTypeOf(row);
+  const baseForm = formType.replace(/\/A$/, '');
+
+  const formRule = FORM_RULES.find(rule => rule.forms.includes(baseForm));
+  return formRule ? toEvent(ticker, row, formRule.type, `${formRule.label} (${formType})`) : null;
+}
+
+/**
+ * Classify an 8-K from its filed document
+ */
+async function classifyEightKFiling(ticker: string, row: FilingRow): Promise<CorporateEvent | null> {
+  const url = str(row.finalLink);
+  if (!url) return null;
+
+  const match = classifyEightK(await getFilingText(url));
+  if (!match) return null;
+
+  const items = match.items.length > 0 ? ` (Item ${match.items.join(', ')})` : '';
+  return toEvent(ticker, row, match.type, `8-K: ${match.label}${items}`);
+}
+
+/**
+ * Classify a ticker's filings from the last `days` days into corporate events.
+ * 8-Ks whose document can't be fetched are reported in warnings.
+ */
+async function scanTicker(
+  ticker: string,
+  days: number,
+  runtimeContext: RuntimeContext,
+  warnings: string[]
+): Promise<CorporateEvent[]> {
+  const [filings, eightKs] = await Promise.all([
+    fmpSecFilings.execute({ context: { ticker, limit: 100 }, runtimeContext }),
+    fmp8KFiling.execute({ context: { ticker, limit: 20 }, runtimeContext }),
+  ]);
+
+  const cutoff = new Date(Date.now() - days * DAY_MS).toISOString().slice(0, 10);
+  const recent = [...(filings.data as FilingRow[]), ...(eightKs.data as FilingRow[])]
+    .filter(row => row && typeof row === 'object' && (filedAtOf(row) ?? '') >= cutoff);
+
+  // Both lists include 8-Ks, so fetch each document once
+  const eightKRows = [
+    ...new Map(
+      recent
+        .filter(row => formTypeOf(row).replace(/\/A$/, '') === '8-K')
+        .map(row => [str(row.finalLink) ?? str(row.link), row] as const)
+    ).values(),
+  ];
+
+  const eightKEvents = await Promise.all(eightKRows.map(async row => {
+    try {
+      return await classifyEightKFiling(ticker, row);
+    } catch (error) {
+      warnings.push(`${ticker}: 8-K ${str(row.finalLink) ?? ''} unavailable (${error instanceof Error ? error.message : String(error)})`);
+      return null;
+    }
+  }));
+
+  const events = [...recent.map(row => classifyFiling(ticker, row)), ...eightKEvents]
+    .filter((event): event is CorporateEvent => event !== null);
+
+  return dedupeCorporateEvents(events);
+}
+
+/**
+ * One event per filing and type
+ */
+export function dedupeCorporateEvents(events: CorporateEvent[]): CorporateEvent[] {
+  const seen = new Set<string>();
+  return events.filter(event => {
+    const key = `${event.url}|${event.type}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Scan tickers for corporate events, newest first. Tickers whose filings
+ * can't be fetched are reported in warnings rather than failing the scan.
+ */
+export async function scanCorporateEvents(tickers: string[], days = 30, types?: CorporateEventType[]) {
+  const runtimeContext = new RuntimeContext();
+  const warnings: string[] = [];
+  const unique = [...new Set(tickers.map(t => t.toUpperCase()))];
+
+  const results = await Promise.all(unique.map(async ticker => {
+    try {
+      return await scanTicker(ticker, days, runtimeContext, warnings);
+    } catch (error) {
+      warnings.push(`${ticker}: filings unavailable (${error instanceof Error ? error.message : String(error)})`);
+      return [];
+    }
+  }));
+
+  const events = results.flat()
+    .filter(event => !types || types.includes(event.type))
+    .sort((a, b) => (b.filedAt > a.filedAt ? 1 : b.filedAt < a.filedAt ? -1 : 0));
+
+  return { events, tickersScanned: unique, warnings };
+}
+
+// Corporate Events Tool
+const corporateEventsInputSchema = z.object({
+  tickers: z.array(z.string().min(1)).min(1).max(25).describe('Tickers to scan'),
+  days: z.number().min(1).max(365).default(30).describe('Look-back window in days'),
+  types: z.array(z.enum(CORPORATE_EVENT_TYPES as [CorporateEventType, ...CorporateEventType[]])).optional()
+    .describe('Only return these event types'),
+});
+
+const corporateEventsOutputSchema = z.object({
+  events: z.array(corporateEventSchema),
+  tickersScanned: z.array(z.string()),
+  warnings: z.array(z.string()),
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+export const corporateEventsTool = createTool({
+  id: 'corporate-events',
+  description: `Scan SEC filings for special-situation corporate events.
+
+Classifies each ticker's recent filings into typed events:
+- spinoff: Form 10 (10-12B/10-12G) registrations, 8-K separation announcements
+- merger: S-4, merger proxies (DEFM14A/PREM14A), Rule 425 communications, 8-K merger agreements
+- tender_offer: Schedule TO and 14D-9 filings
+- rights_offering: 8-K rights offering announcements
+- bankruptcy: 8-K Item 1.03 and Chapter 11 filings
+- activist_13d: Schedule 13D filings by 5%+ holders with activist intent
+
+Returns the events newest first with the form type, filing date, the reason
+for the classification and a link to the filing. 8-Ks are classified from the
+items they report and keywords in the item text; read the filing before
+relying on a keyword match.`,
+  inputSchema: corporateEventsInputSchema,
+  outputSchema: corporateEventsOutputSchema,
+  execute: async ({ context }) => {
+    const { tickers, days, types } = context;
+
+    return {
+      ...(await scanCorporateEvents(tickers, days, types)),
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+/**
+ * Events found by an agent run's corporate events tool calls
+ */
+export function collectCorporateEvents(toolResults: Array<{ payload: { result: unknown } }>): CorporateEvent[] {
+  const events: CorporateEvent[] = [];
+
+  for (const { payload } of toolResults) {
+    const parsed = corporateEventsOutputSchema.safeParse(payload.result);
+    if (parsed.success) events.push(...parsed.data.events);
+  }
+
+  return dedupeCorporateEvents(events);
+}
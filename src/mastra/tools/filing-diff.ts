@@ -0,0 +1,399 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import ky from 'ky';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { config } from '../config';
+import { fmp10KFiling, fmp10QFiling } from './fmp-filings';
+
+type FilingRow = Record<string, unknown>;
+type FormType = '10-K' | '10-Q';
+type FilingSection = 'risk_factors' | 'mdna' | 'legal_proceedings';
+
+const SECTION_LABELS: Record<FilingSection, string> = {
+  risk_factors: 'Risk Factors',
+  mdna: "Management's Discussion and Analysis",
+  legal_proceedings: 'Legal Proceedings',
+};
+
+/**
+ * Headings that open each section, matched at the start of a line
+ */
+const SECTION_HEADINGS: Record<FormType, Record<FilingSection, RegExp>> = {
+  '10-K': {
+    risk_factors: /^item\s*1a\b\W*risk\s+factors/i,
+    mdna: /^item\s*7\b\W*management.?s\s+discussion/i,
+    legal_proceedings: /^item\s*3\b\W*legal\s+proceedings/i,
+  },
+  '10-Q': {
+    risk_factors: /^item\s*1a\b\W*risk\s+factors/i,
+    mdna: /^item\s*2\b\W*management.?s\s+discussion/i,
+    legal_proceedings: /^item\s*1\b\W*legal\s+proceedings/i,
+  },
+};
+
+/** Any item or part heading closes the section before it */
+const NEXT_HEADING = /^(item\s*\d{1,2}[a-c]?\b|part\s+i{1,2}\b)/i;
+
+const MAX_HEADING_LENGTH = 150;
+
+/** Shorter lines are page headers, footers and table cells rather than disclosure */
+const MIN_PARAGRAPH_LENGTH = 60;
+
+/** Dice similarity above which an unmatched pair counts as the same paragraph, edited */
+const CHANGED_THRESHOLD = 0.5;
+
+const MAX_PARAGRAPH_CHARS = 800;
+
+const FILING_TIMEOUT_MS = 30000;
+
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  mdash: '—', ndash: '–', bull: '•', middot: '·',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Plain text of an EDGAR HTML document, one block element per line
+ */
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|ix:header)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|tr|li|h[1-6]|table|section)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function filingFixturePath(url: string): string {
+  const hash = crypto.createHash('sha1').update(url).digest('hex').slice(0, 10);
+  return path.join(config.fmpFixturesDir, 'sec', `${path.basename(new URL(url).pathname)}.${hash}.html`);
+}
+
+async function fetchFilingHtml(url: string): Promise<string> {
+  if (config.fmpMode === 'replay') {
+    try {
+      return await fs.readFile(filingFixturePath(url), 'utf-8');
+    } catch {
+      throw new Error(`No SEC filing fixture for ${url}. Expected ${filingFixturePath(url)}. Run with FMP_MODE=record to capture it.`);
+    }
+  }
+
+  const userAgent = config.secUserAgent;
+  if (!userAgent) {
+    throw new Error('SEC_USER_AGENT is required for EDGAR requests; set it to a name and contact email (e.g. "Your Name you@example.com")');
+  }
+
+  const html = await ky.get(url, {
+    headers: { 'User-Agent': userAgent },
+    timeout: FILING_TIMEOUT_MS,
+  }).text();
+
+  if (config.fmpMode === 'record') {
+    const file = filingFixturePath(url);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, html);
+  }
+  return html;
+}
+
+// Filed documents never change, so text is kept for the life of the process
+const MAX_CACHED_FILINGS = 10;
+const filingTextCache = new Map<string, Promise<string>>();
+
+/**
+ * Plain text of an EDGAR document, one block element per line. Follows
+ * FMP_MODE, so filings are recorded and replayed with the FMP fixtures.
+ */
+export function getFilingText(url: string): Promise<string> {
+  const hit = filingTextCache.get(url);
+  if (hit) return hit;
+
+  const text = fetchFilingHtml(url).then(htmlToText);
+  text.catch(() => filingTextCache.delete(url));
+  filingTextCache.set(url, text);
+  if (filingTextCache.size > MAX_CACHED_FILINGS) {
+    filingTextCache.delete(filingTextCache.keys().next().value!);
+  }
+  return text;
+}
+
+/**
+ * Headings are often split across lines ("Item 1A." / "Risk Factors")
+ */
+function isHeading(pattern: RegExp, lines: string[], i: number): boolean {
+  if (lines[i].length > MAX_HEADING_LENGTH) return false;
+  return pattern.test(lines[i]) || (lines[i].length < 20 && pattern.test(`${lines[i]} ${lines[i + 1] ?? ''}`));
+}
+
+/**
+ * Paragraphs of a section, or null when its heading isn't found. The table
+ * of contents repeats every heading, so the longest span wins.
+ */
+function extractSection(text: string, formType: FormType, section: FilingSection): string[] | null {
+  const start = SECTION_HEADINGS[formType][section];
+  const lines = text.split('\n');
+  let best: string[] | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!isHeading(start, lines, i)) continue;
+
+    // A split heading's second line ("Risk Factors") is not the next item
+    let j = lines[i].length < 20 ? i + 2 : i + 1;
+    while (j < lines.length && !isHeading(NEXT_HEADING, lines, j)) j++;
+
+    const paragraphs = lines.slice(i + 1, j).filter(line => line.length >= MIN_PARAGRAPH_LENGTH);
+    if (!best || paragraphs.join('').length > best.join('').length) best = paragraphs;
+  }
+
+  return best;
+}
+
+function normalize(paragraph: string): string {
+  return paragraph.toLowerCase().replace(/[^a-z0-9 ]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function wordSet(paragraph: string): Set<string> {
+  return new Set(normalize(paragraph).split(' ').filter(word => word.length > 2));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+function clip(paragraph: string): string {
+  return paragraph.length > MAX_PARAGRAPH_CHARS ? `${paragraph.slice(0, MAX_PARAGRAPH_CHARS)}…` : paragraph;
+}
+
+/**
+ * Paragraph-level diff: identical paragraphs (ignoring case, punctuation and
+ * whitespace) are unchanged; the rest are paired greedily by word overlap
+ * into changed, and whatever is left is added or removed
+ */
+function diffParagraphs(prior: string[], current: string[]) {
+  const priorKeys = new Map<string, number>();
+  for (const p of prior) {
+    const key = normalize(p);
+    priorKeys.set(key, (priorKeys.get(key) ?? 0) + 1);
+  }
+
+  const unmatchedCurrent: string[] = [];
+  let unchanged = 0;
+  for (const p of current) {
+    const key = normalize(p);
+    const count = priorKeys.get(key) ?? 0;
+    if (count > 0) {
+      priorKeys.set(key, count - 1);
+      unchanged++;
+    } else {
+      unmatchedCurrent.push(p);
+    }
+  }
+
+  const unmatchedPrior: string[] = [];
+  for (const p of prior) {
+    const key = normalize(p);
+    const count = priorKeys.get(key) ?? 0;
+    if (count > 0) {
+      priorKeys.set(key, count - 1);
+      unmatchedPrior.push(p);
+    }
+  }
+
+  const priorWords = unmatchedPrior.map(wordSet);
+  const currentWords = unmatchedCurrent.map(wordSet);
+  const pairs: Array<{ prior: number; current: number; score: number }> = [];
+  for (let i = 0; i < priorWords.length; i++) {
+    for (let j = 0; j < currentWords.length; j++) {
+      const score = similarity(priorWords[i], currentWords[j]);
+      if (score >= CHANGED_THRESHOLD) pairs.push({ prior: i, current: j, score });
+    }
+  }
+  pairs.sort((a, b) => b.score - a.score);
+
+  const pairedPrior = new Set<number>();
+  const pairedCurrent = new Set<number>();
+  const changed: Array<{ prior: string; current: string; similarity: number }> = [];
+  for (const pair of pairs) {
+    if (pairedPrior.has(pair.prior) || pairedCurrent.has(pair.current)) continue;
+    pairedPrior.add(pair.prior);
+    pairedCurrent.add(pair.current);
+    changed.push({
+      prior: unmatchedPrior[pair.prior],
+      current: unmatchedCurrent[pair.current],
+      similarity: Number(pair.score.toFixed(2)),
+    });
+  }
+
+  // Most heavily reworded first
+  changed.sort((a, b) => a.similarity - b.similarity);
+
+  return {
+    unchanged,
+    changed,
+    added: unmatchedCurrent.filter((_, j) => !pairedCurrent.has(j)),
+    removed: unmatchedPrior.filter((_, i) => !pairedPrior.has(i)),
+  };
+}
+
+async function listFilings(ticker: string, formType: FormType): Promise<Array<{ filedAt: string; url: string }>> {
+  const runtimeContext = new RuntimeContext();
+  const response = formType === '10-K'
+    ? await fmp10KFiling.execute({ context: { ticker }, runtimeContext })
+    : await fmp10QFiling.execute({ context: { ticker }, runtimeContext });
+
+  return (response.data as FilingRow[])
+    .filter(row => row && typeof row.type === 'string' && row.type.toUpperCase() === formType)
+    .map(row => ({
+      filedAt: String(row.fillingDate ?? row.filingDate ?? row.acceptedDate ?? '').slice(0, 10),
+      url: typeof row.finalLink === 'string' ? row.finalLink : '',
+    }))
+    .filter(filing => filing.filedAt && filing.url)
+    .sort((a, b) => (b.filedAt > a.filedAt ? 1 : b.filedAt < a.filedAt ? -1 : 0));
+}
+
+// Filing Diff Tool
+const filingRefSchema = z.object({
+  filedAt: z.string(),
+  url: z.string(),
+});
+
+const sectionDiffSchema = z.object({
+  section: z.enum(['risk_factors', 'mdna', 'legal_proceedings']),
+  label: z.string(),
+  found: z.boolean(),
+  stats: z.object({
+    currentParagraphs: z.number(),
+    priorParagraphs: z.number(),
+    unchanged: z.number(),
+    changed: z.number(),
+    added: z.number(),
+    removed: z.number(),
+  }).nullable(),
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  changed: z.array(z.object({
+    prior: z.string(),
+    current: z.string(),
+    similarity: z.number(),
+  })),
+});
+
+const filingDiffInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol'),
+  formType: z.enum(['10-K', '10-Q']).default('10-K').describe('Compare the latest 10-K with the prior 10-K, or the latest 10-Q with the prior 10-Q'),
+  sections: z.array(z.enum(['risk_factors', 'mdna', 'legal_proceedings']))
+    .default(['risk_factors', 'mdna', 'legal_proceedings'])
+    .describe('Sections to compare'),
+  maxParagraphs: z.number().min(1).max(50).default(15).describe('Maximum added, removed and changed paragraphs returned per section'),
+});
+
+const filingDiffOutputSchema = z.object({
+  ticker: z.string(),
+  formType: z.enum(['10-K', '10-Q']),
+  current: filingRefSchema,
+  prior: filingRefSchema,
+  sections: z.array(sectionDiffSchema),
+  warnings: z.array(z.string()),
+  source: z.literal('sec'),
+  timestamp: z.string(),
+});
+
+export const filingDiffTool = createTool({
+  id: 'filing-diff',
+  description: `Compare disclosure sections of a company's latest 10-K or 10-Q with the prior filing of the same form.
+
+Fetches both filings from SEC EDGAR, extracts Risk Factors, MD&A and Legal
+Proceedings, and diffs them paragraph by paragraph. Returns, per section:
+- added: paragraphs that are new in the latest filing
+- removed: paragraphs that were dropped
+- changed: pairs of prior/current paragraphs that were reworded, with a
+  similarity score (1 = identical wording)
+- counts of unchanged, changed, added and removed paragraphs
+
+Use this to point to what changed in disclosures: new risk factors, dropped
+reassurances, new litigation, or reworded guidance in MD&A. 10-Qs often
+only say there were no material changes to risk factors.`,
+  inputSchema: filingDiffInputSchema,
+  outputSchema: filingDiffOutputSchema,
+  execute: async ({ context }) => {
+    const { formType, sections, maxParagraphs } = context;
+    const ticker = context.ticker.toUpperCase();
+    const warnings: string[] = [];
+
+    const filings = await listFilings(ticker, formType);
+    if (filings.length < 2) {
+      throw new Error(`Need two ${formType} filings to compare; found ${filings.length} for ${ticker}`);
+    }
+    const [current, prior] = filings;
+
+    const [currentText, priorText] = await Promise.all([getFilingText(current.url), getFilingText(prior.url)]);
+
+    const diffs = sections.map(section => {
+      const label = SECTION_LABELS[section];
+      const currentParagraphs = extractSection(currentText, formType, section);
+      const priorParagraphs = extractSection(priorText, formType, section);
+
+      if (!currentParagraphs || !priorParagraphs) {
+        const missing = [!currentParagraphs && `current (${current.filedAt})`, !priorParagraphs && `prior (${prior.filedAt})`]
+          .filter(Boolean)
+          .join(' and ');
+        warnings.push(`${label} not found in the ${missing} filing`);
+        return { section, label, found: false, stats: null, added: [], removed: [], changed: [] };
+      }
+
+      const diff = diffParagraphs(priorParagraphs, currentParagraphs);
+      for (const [kind, count] of [['added', diff.added.length], ['removed', diff.removed.length], ['changed', diff.changed.length]] as const) {
+        if (count > maxParagraphs) warnings.push(`${label}: showing ${maxParagraphs} of ${count} ${kind} paragraphs`);
+      }
+
+      return {
+        section,
+        label,
+        found: true,
+        stats: {
+          currentParagraphs: currentParagraphs.length,
+          priorParagraphs: priorParagraphs.length,
+          unchanged: diff.unchanged,
+          changed: diff.changed.length,
+          added: diff.added.length,
+          removed: diff.removed.length,
+        },
+        added: diff.added.slice(0, maxParagraphs).map(clip),
+        removed: diff.removed.slice(0, maxParagraphs).map(clip),
+        changed: diff.changed.slice(0, maxParagraphs).map(c => ({ ...c, prior: clip(c.prior), current: clip(c.current) })),
+      };
+    });
+
+    return {
+      ticker,
+      formType,
+      current,
+      prior,
+      sections: diffs,
+      warnings,
+      source: 'sec' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
@@ -0,0 +1,337 @@
+import ky, { HTTPError } from 'ky';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+
+/**
+ * FMP API base URLs; endpoints starting with `/v4/` go to the v4 API
+ */
+const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+const FMP_API_ROOT = 'https://financialmodelingprep.com/api';
+
+/**
+ * Query parameters for an FMP request
+ * Undefined values are dropped; the API key is added by the client.
+ */
+export type FmpParams = Record<string, string | number | boolean | undefined>;
+
+export interface FmpRequestOptions {
+  timeout?: number;
+}
+
+/**
+ * Recorded FMP response stored on disk
+ */
+interface FmpFixture {
+  endpoint: string;
+  params: Record<string, string>;
+  recordedAt: string;
+  response: unknown;
+}
+
+/**
+ * Cache and rate-limit counters, exposed to workflow output
+ */
+export interface FmpMetrics {
+  requests: number;
+  cacheHits: number;
+  cacheMisses: number;
+  rateLimitRetries: number;
+  throttledMs: number;
+}
+
+const metrics: FmpMetrics = {
+  requests: 0,
+  cacheHits: 0,
+  cacheMisses: 0,
+  rateLimitRetries: 0,
+  throttledMs: 0,
+};
+
+/**
+ * FMP metrics for a single workflow run
+ */
+export interface FmpRunMetrics extends FmpMetrics {
+  cacheHitRate: number;
+}
+
+/**
+ * Snapshot of the process-wide FMP metrics
+ */
+export function getFmpMetrics(): FmpMetrics {
+  return { ...metrics };
+}
+
+/**
+ * Metrics accumulated between two snapshots
+ *
+ * Counters are process-wide, so overlapping runs are attributed to each other.
+ */
+export function diffFmpMetrics(before: FmpMetrics, after: FmpMetrics = getFmpMetrics()): FmpRunMetrics {
+  const cacheHits = after.cacheHits - before.cacheHits;
+  const cacheMisses = after.cacheMisses - before.cacheMisses;
+
+  return {
+    requests: after.requests - before.requests,
+    cacheHits,
+    cacheMisses,
+    rateLimitRetries: after.rateLimitRetries - before.rateLimitRetries,
+    throttledMs: after.throttledMs - before.throttledMs,
+    cacheHitRate: cacheHits + cacheMisses > 0 ? cacheHits / (cacheHits + cacheMisses) : 0,
+  };
+}
+
+/**
+ * Cache TTLs by endpoint
+ *
+ * Quotes move constantly; annual statements and filings change a few times a year.
+ */
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const CACHE_TTLS: Array<{ pattern: RegExp; ttl: number }> = [
+  { pattern: /^\/(quote|quotes|stock_market|historical-chart)\//, ttl: MINUTE },
+  { pattern: /^\/(news|general_news|news-sentiments|press-releases)\b/, ttl: 15 * MINUTE },
+  { pattern: /^\/(key-metrics-ttm|historical-price-full|stock-screener|sector-performance|historical-sectors-performance|profile|v4\/treasury)\b/, ttl: HOUR },
+  { pattern: /^\/(income-statement|balance-sheet-statement|cash-flow-statement|key-metrics|ratios|enterprise-values|growth|financials|income-statement-segments|revenue-segmentation|geographic-segmentation)\//, ttl: 24 * HOUR },
+  { pattern: /^\/(sec_filings|sec_filings_cik)\//, ttl: 24 * HOUR },
+];
+
+const DEFAULT_CACHE_TTL = 5 * MINUTE;
+const QUARTERLY_CACHE_TTL = 6 * HOUR;
+const MAX_CACHE_ENTRIES = 2000;
+
+function cacheTtl(endpoint: string, params: Record<string, string>): number {
+  const ttl = CACHE_TTLS.find(({ pattern }) => pattern.test(endpoint))?.ttl ?? DEFAULT_CACHE_TTL;
+  return params.period === 'quarter' ? Math.min(ttl, QUARTERLY_CACHE_TTL) : ttl;
+}
+
+/**
+ * TTL cache keyed by endpoint + params
+ *
+ * Stores the in-flight promise, so concurrent identical calls share one request.
+ */
+const responseCache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+function cached(key: string, ttl: number, load: () => Promise<unknown>): Promise<unknown> {
+  const now = Date.now();
+  const entry = responseCache.get(key);
+
+  if (entry && entry.expiresAt > now) {
+    metrics.cacheHits++;
+    return entry.value;
+  }
+
+  metrics.cacheMisses++;
+  const value = load();
+  responseCache.set(key, { expiresAt: now + ttl, value });
+
+  // Failed requests are not cached
+  value.catch(() => {
+    if (responseCache.get(key)?.value === value) {
+      responseCache.delete(key);
+    }
+  });
+
+  // Evict oldest entries (Map keeps insertion order)
+  while (responseCache.size > MAX_CACHE_ENTRIES) {
+    const oldest = responseCache.keys().next().value;
+    if (oldest === undefined) break;
+    responseCache.delete(oldest);
+  }
+
+  return value;
+}
+
+/**
+ * Clear cached FMP responses
+ */
+export function clearFmpCache(): void {
+  responseCache.clear();
+}
+
+/**
+ * Token bucket per API key
+ *
+ * Refills continuously at the configured per-minute rate; callers wait
+ * for a token instead of being rejected.
+ */
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+async function acquireToken(apiKey: string): Promise<void> {
+  const capacity = config.fmpRateLimitPerMinute;
+  const refillPerMs = capacity / MINUTE;
+
+  const bucket = buckets.get(apiKey) ?? { tokens: capacity, updatedAt: Date.now() };
+  buckets.set(apiKey, bucket);
+
+  const now = Date.now();
+  bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+  bucket.updatedAt = now;
+
+  // Reserve the token now; a negative balance queues later callers behind us
+  bucket.tokens -= 1;
+  if (bucket.tokens < 0) {
+    const waitMs = Math.ceil(-bucket.tokens / refillPerMs);
+    metrics.throttledMs += waitMs;
+    await sleep(waitMs);
+  }
+}
+
+const MAX_RATE_LIMIT_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Backoff before retrying a 429, honouring Retry-After when present
+ */
+function retryDelay(error: HTTPError, attempt: number): number {
+  const retryAfter = Number(error.response.headers.get('retry-after'));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return retryAfter * 1000;
+  }
+  return BASE_BACKOFF_MS * 2 ** attempt;
+}
+
+/**
+ * Normalize params into sorted string pairs, dropping undefined values
+ */
+function normalizeParams(params: FmpParams): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => [key, String(value)])
+  );
+}
+
+/**
+ * Fixture file path for an endpoint + params pair
+ *
+ * The readable prefix comes from the endpoint path; the hash keeps
+ * different parameter sets apart.
+ */
+function fixturePath(endpoint: string, params: Record<string, string>): string {
+  const slug = endpoint.replace(/^\/+/, '').replace(/[^a-zA-Z0-9.-]+/g, '_');
+  const hash = crypto
+    .createHash('sha1')
+    .update(`${endpoint}?${new URLSearchParams(params).toString()}`)
+    .digest('hex')
+    .slice(0, 10);
+
+  return path.join(config.fmpFixturesDir, `${slug}.${hash}.json`);
+}
+
+async function readFixture(endpoint: string, params: Record<string, string>): Promise<unknown> {
+  const file = fixturePath(endpoint, params);
+
+  try {
+    const fixture: FmpFixture = JSON.parse(await fs.readFile(file, 'utf-8'));
+    return fixture.response;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(
+        `No FMP fixture for ${endpoint} (${JSON.stringify(params)}). ` +
+        `Expected ${file}. Run with FMP_MODE=record to capture it.`
+      );
+    }
+    throw error;
+  }
+}
+
+async function writeFixture(endpoint: string, params: Record<string, string>, response: unknown): Promise<void> {
+  const file = fixturePath(endpoint, params);
+  const fixture: FmpFixture = {
+    endpoint,
+    params,
+    recordedAt: new Date().toISOString(),
+    response,
+  };
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+async function fetchLive(endpoint: string, params: Record<string, string>, timeout: number): Promise<unknown> {
+  const apiKey = config.fmpApiKey;
+  if (!apiKey) {
+    throw new Error('FMP_API_KEY is required for live FMP requests');
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken(apiKey);
+    metrics.requests++;
+
+    try {
+      return await ky.get(`${endpoint.startsWith('/v4/') ? FMP_API_ROOT : FMP_BASE_URL}${endpoint}`, {
+        searchParams: {
+          ...params,
+          apikey: apiKey,
+        },
+        timeout,
+        retry: 0,
+      }).json();
+    } catch (error) {
+      if (error instanceof HTTPError && error.response.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+        const delay = retryDelay(error, attempt);
+        console.warn(`FMP rate limited on ${endpoint}, retrying in ${delay}ms`);
+        metrics.rateLimitRetries++;
+        metrics.throttledMs += delay;
+        await sleep(delay);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Fetch an FMP endpoint
+ *
+ * All FMP tools route through here. Behaviour depends on FMP_MODE:
+ * - live (default): call the API
+ * - record: call the API and save the response as a JSON fixture
+ * - replay: serve responses from fixtures only, no network or API key needed
+ *
+ * Responses are cached per endpoint + params (see CACHE_TTLS), and live
+ * calls are throttled per API key with backoff on 429s.
+ *
+ * @param endpoint - Path relative to the v3 API (e.g. `/quote/AAPL`), or `/v4/...` for the v4 API
+ * @param params - Query parameters (excluding the API key)
+ */
+export async function fmpGet<T = unknown>(
+  endpoint: string,
+  params: FmpParams = {},
+  options: FmpRequestOptions = {}
+): Promise<T> {
+  const { timeout = 10000 } = options;
+  const normalized = normalizeParams(params);
+  const key = `${endpoint}?${new URLSearchParams(normalized).toString()}`;
+
+  return cached(key, cacheTtl(endpoint, normalized), () => load(endpoint, normalized, timeout)) as Promise<T>;
+}
+
+async function load(endpoint: string, normalized: Record<string, string>, timeout: number): Promise<unknown> {
+  switch (config.fmpMode) {
+    case 'replay':
+      return readFixture(endpoint, normalized);
+
+    case 'record': {
+      const response = await fetchLive(endpoint, normalized, timeout);
+      await writeFixture(endpoint, normalized, response);
+      return response;
+    }
+
+    default:
+      return fetchLive(endpoint, normalized, timeout);
+  }
+}
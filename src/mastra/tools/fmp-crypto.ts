@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet, type FmpParams } from './fmp-client';
 
 // Crypto Price Snapshot Tool
 const cryptoPriceInputSchema = z.object({
@@ -43,12 +37,7 @@ Supported symbols: BTC, ETH, BNB, XRP, ADA, DOGE, SOL, DOT, and many more.`,
   execute: async ({ context }) => {
     const { symbol } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/quote/${symbol}`, {
-      searchParams: {
-        apikey: config.fmpApiKey,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/quote/${symbol}`);
 
     return {
       symbol,
@@ -96,17 +85,12 @@ Default: 30 days of data. Can specify date ranges with 'from' and 'to' parameter
   execute: async ({ context }) => {
     const { symbol, from, to, timeseries } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
-    };
+    const searchParams: FmpParams = {};
 
     if (from) searchParams.from = from;
     if (to) searchParams.to = to;
 
-    const response = await ky.get(`${FMP_BASE_URL}/historical-price-full/crypto/${symbol}`, {
-      searchParams,
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/historical-price-full/crypto/${symbol}`, searchParams);
 
     // FMP returns historical data with a 'historical' array
     let historical = response?.historical || [];
@@ -155,12 +139,7 @@ Returns all supported cryptocurrencies that can be queried with other crypto too
   inputSchema: z.object({}),
   outputSchema: cryptoListOutputSchema,
   execute: async () => {
-    const response = await ky.get(`${FMP_BASE_URL}/symbol/available-cryptocurrencies`, {
-      searchParams: {
-        apikey: config.fmpApiKey,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>('/symbol/available-cryptocurrencies');
 
     return {
       data: Array.isArray(response) ? response : [response],
@@ -201,12 +180,7 @@ Focuses on the most significant cryptocurrencies by market cap and volume.`,
   execute: async ({ context }) => {
     const { limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/quotes/crypto`, {
-      searchParams: {
-        apikey: config.fmpApiKey,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>('/quotes/crypto');
 
     const data = Array.isArray(response) ? response : [response];
 
@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet, type FmpParams } from './fmp-client';
 
 // Analyst Estimates Tool
 const analystEstimatesInputSchema = z.object({
@@ -47,9 +41,7 @@ Data is available quarterly and annually. Without specifying year/quarter, retur
   execute: async ({ context }) => {
     const { ticker, year, quarter } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
-    };
+    const searchParams: FmpParams = {};
 
     if (year) {
       searchParams.year = year.toString();
@@ -58,10 +50,7 @@ Data is available quarterly and annually. Without specifying year/quarter, retur
       searchParams.quarter = quarter.toString();
     }
 
-    const response = await ky.get(`${FMP_BASE_URL}/analyst-estimates/${ticker}`, {
-      searchParams,
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/analyst-estimates/${ticker}`, searchParams);
 
     return {
       ticker,
@@ -112,13 +101,9 @@ Negative surprises may signal challenges or unrealistic expectations.`,
   execute: async ({ context }) => {
     const { ticker, limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/earnings-surprises/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: limit.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/earnings-surprises/${ticker}`, {
+      limit,
+    });
 
     return {
       ticker,
@@ -164,12 +149,7 @@ Earnings announcements are major catalysts for stock movement.`,
   execute: async ({ context }) => {
     const { ticker } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/earnings-calendar/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/earnings-calendar/${ticker}`);
 
     return {
       ticker,
@@ -215,12 +195,7 @@ Sorted by upcoming earnings date (nearest first).`,
   execute: async ({ context }) => {
     const { limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/earning_surprises`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>('/earning_surprises');
 
     return {
       data: Array.isArray(response) ? response.slice(0, limit) : [],
@@ -266,9 +241,7 @@ Revenue growth is a key driver for stock valuation, especially for growth compan
   execute: async ({ context }) => {
     const { ticker, year, quarter } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
-    };
+    const searchParams: FmpParams = {};
 
     if (year) {
       searchParams.year = year.toString();
@@ -277,10 +250,7 @@ Revenue growth is a key driver for stock valuation, especially for growth compan
       searchParams.quarter = quarter.toString();
     }
 
-    const response = await ky.get(`${FMP_BASE_URL}/revenue-estimates/${ticker}`, {
-      searchParams,
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/revenue-estimates/${ticker}`, searchParams);
 
     return {
       ticker,
@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet, type FmpParams } from './fmp-client';
 
 // SEC Filings List Tool
 const secFilingsInputSchema = z.object({
@@ -45,8 +39,7 @@ Filter by specific filing type to narrow results.`,
   execute: async ({ context }) => {
     const { ticker, filingType, limit } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
+    const searchParams: FmpParams = {
       limit: limit.toString(),
     };
 
@@ -54,10 +47,7 @@ Filter by specific filing type to narrow results.`,
       searchParams.type = filingType;
     }
 
-    const response = await ky.get(`${FMP_BASE_URL}/sec_filings/${ticker}`, {
-      searchParams,
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/sec_filings/${ticker}`, searchParams);
 
     return {
       ticker,
@@ -111,18 +101,13 @@ Use this for comprehensive annual analysis and full financial statement review.`
   execute: async ({ context }) => {
     const { ticker, year } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
-    };
+    const searchParams: FmpParams = {};
 
     if (year) {
       searchParams.year = year.toString();
     }
 
-    const response = await ky.get(`${FMP_BASE_URL}/sec_filings/${ticker}/10-K`, {
-      searchParams,
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/sec_filings/${ticker}/10-K`, searchParams);
 
     return {
       ticker,
@@ -172,9 +157,7 @@ Use this for quarterly updates and ongoing performance tracking.`,
   execute: async ({ context }) => {
     const { ticker, year, quarter } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
-    };
+    const searchParams: FmpParams = {};
 
     if (year) {
       searchParams.year = year.toString();
@@ -183,10 +166,7 @@ Use this for quarterly updates and ongoing performance tracking.`,
       searchParams.quarter = quarter.toString();
     }
 
-    const response = await ky.get(`${FMP_BASE_URL}/sec_filings/${ticker}/10-Q`, {
-      searchParams,
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/sec_filings/${ticker}/10-Q`, searchParams);
 
     return {
       ticker,
@@ -246,13 +226,9 @@ Use this to monitor real-time corporate events and material changes.`,
   execute: async ({ context }) => {
     const { ticker, limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/sec_filings/${ticker}/8-K`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: limit.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/sec_filings/${ticker}/8-K`, {
+      limit,
+    });
 
     return {
       ticker,
@@ -289,18 +265,13 @@ CIK is a unique identifier assigned by the SEC to each company, individual, or e
   execute: async ({ context }) => {
     const { cik, filingType } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
-    };
+    const searchParams: FmpParams = {};
 
     if (filingType) {
       searchParams.type = filingType;
     }
 
-    const response = await ky.get(`${FMP_BASE_URL}/sec_filings_cik/${cik}`, {
-      searchParams,
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/sec_filings_cik/${cik}`, searchParams);
 
     return {
       cik,
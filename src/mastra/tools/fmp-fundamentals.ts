@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet } from './fmp-client';
 
 // Income Statement Tool
 const incomeStatementInputSchema = z.object({
@@ -39,17 +33,10 @@ Supports both annual and quarterly periods.`,
   execute: async ({ context }) => {
     const { ticker, period, limit } = context;
 
-    const periodType = period === 'quarterly' ? '' : '?periodType=annual';
-    const response = await ky.get(
-      `${FMP_BASE_URL}/income-statement/${ticker}${periodType}`,
-      {
-        searchParams: {
-          apikey: config.fmpApiKey as string,
-          limit: limit.toString(),
-        },
-        timeout: 10000,
-      }
-    ).json<any>();
+    const response = await fmpGet<any>(`/income-statement/${ticker}`, {
+      limit,
+      period: period === 'quarterly' ? 'quarter' : 'annual',
+    });
 
     return {
       ticker,
@@ -90,17 +77,10 @@ Supports both annual and quarterly periods.`,
   execute: async ({ context }) => {
     const { ticker, period, limit } = context;
 
-    const periodType = period === 'quarterly' ? '' : '?periodType=annual';
-    const response = await ky.get(
-      `${FMP_BASE_URL}/balance-sheet-statement/${ticker}${periodType}`,
-      {
-        searchParams: {
-          apikey: config.fmpApiKey as string,
-          limit: limit.toString(),
-        },
-        timeout: 10000,
-      }
-    ).json<any>();
+    const response = await fmpGet<any>(`/balance-sheet-statement/${ticker}`, {
+      limit,
+      period: period === 'quarterly' ? 'quarter' : 'annual',
+    });
 
     return {
       ticker,
@@ -142,17 +122,10 @@ Supports both annual and quarterly periods.`,
   execute: async ({ context }) => {
     const { ticker, period, limit } = context;
 
-    const periodType = period === 'quarterly' ? '' : '?periodType=annual';
-    const response = await ky.get(
-      `${FMP_BASE_URL}/cash-flow-statement/${ticker}${periodType}`,
-      {
-        searchParams: {
-          apikey: config.fmpApiKey as string,
-          limit: limit.toString(),
-        },
-        timeout: 10000,
-      }
-    ).json<any>();
+    const response = await fmpGet<any>(`/cash-flow-statement/${ticker}`, {
+      limit,
+      period: period === 'quarterly' ? 'quarter' : 'annual',
+    });
 
     return {
       ticker,
@@ -192,21 +165,19 @@ Supports both annual and quarterly periods.`,
   execute: async ({ context }) => {
     const { ticker, period, limit } = context;
 
-    const periodType = period === 'quarterly' ? '' : '?periodType=annual';
-
     const [income, balance, cash] = await Promise.all([
-      ky.get(`${FMP_BASE_URL}/income-statement/${ticker}${periodType}`, {
-        searchParams: { apikey: config.fmpApiKey as string, limit: limit.toString() },
-        timeout: 10000,
-      }).json<any>(),
-      ky.get(`${FMP_BASE_URL}/balance-sheet-statement/${ticker}${periodType}`, {
-        searchParams: { apikey: config.fmpApiKey as string, limit: limit.toString() },
-        timeout: 10000,
-      }).json<any>(),
-      ky.get(`${FMP_BASE_URL}/cash-flow-statement/${ticker}${periodType}`, {
-        searchParams: { apikey: config.fmpApiKey as string, limit: limit.toString() },
-        timeout: 10000,
-      }).json<any>(),
+      fmpGet<any>(`/income-statement/${ticker}`, {
+        limit,
+        period: period === 'quarterly' ? 'quarter' : 'annual',
+      }),
+      fmpGet<any>(`/balance-sheet-statement/${ticker}`, {
+        limit,
+        period: period === 'quarterly' ? 'quarter' : 'annual',
+      }),
+      fmpGet<any>(`/cash-flow-statement/${ticker}`, {
+        limit,
+        period: period === 'quarterly' ? 'quarter' : 'annual',
+      }),
     ]);
 
     return {
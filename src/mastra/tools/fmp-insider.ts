@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet } from './fmp-client';
 
 // Insider Trading Tool
 const insiderTradingInputSchema = z.object({
@@ -48,13 +42,9 @@ or signal concerns. Context matters - look for patterns.`,
   execute: async ({ context }) => {
     const { ticker, limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/insider-trading/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: limit.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/insider-trading/${ticker}`, {
+      limit,
+    });
 
     return {
       ticker,
@@ -100,13 +90,9 @@ A positive net share count indicates net buying, negative indicates net selling.
   execute: async ({ context }) => {
     const { ticker } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/insider-trading/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: '1000',
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/insider-trading/${ticker}`, {
+      limit: '1000',
+    });
 
     const transactions = Array.isArray(response) ? response : [response];
 
@@ -176,12 +162,7 @@ Track changes over time for insights.`,
   execute: async ({ context }) => {
     const { ticker } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/insider-roster/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/insider-roster/${ticker}`);
 
     return {
       ticker,
@@ -230,13 +211,9 @@ Significant position changes can signal changing sentiment.`,
   execute: async ({ context }) => {
     const { ticker, limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/institutional-holder/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: limit.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/institutional-holder/${ticker}`, {
+      limit,
+    });
 
     return {
       ticker,
@@ -283,13 +260,9 @@ Mutual fund ownership can provide stability and demand support.`,
   execute: async ({ context }) => {
     const { ticker, limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/mutual-fund-holder/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: limit.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/mutual-fund-holder/${ticker}`, {
+      limit,
+    });
 
     return {
       ticker,
@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet } from './fmp-client';
 
 // Key Metrics Tool
 const keyMetricsInputSchema = z.object({
@@ -43,14 +37,10 @@ Use this for quick valuation and financial health assessment.`,
   execute: async ({ context }) => {
     const { ticker, period, limit } = context;
 
-    const periodType = period === 'quarterly' ? '' : '?periodType=annual';
-    const response = await ky.get(`${FMP_BASE_URL}/key-metrics/${ticker}${periodType}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: limit.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/key-metrics/${ticker}`, {
+      limit,
+      period: period === 'quarterly' ? 'quarter' : 'annual',
+    });
 
     return {
       ticker,
@@ -92,12 +82,7 @@ Use this for current valuation metrics without seasonality bias.`,
   execute: async ({ context }) => {
     const { ticker } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/key-metrics-ttm/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/key-metrics-ttm/${ticker}`);
 
     return {
       ticker,
@@ -139,17 +124,10 @@ Use this for comprehensive ratio analysis and comparison.`,
   execute: async ({ context }) => {
     const { ticker, period, limit } = context;
 
-    const periodType = period === 'quarterly' ? '' : '?periodType=annual';
-    const response = await ky.get(
-      `${FMP_BASE_URL}/ratios/${ticker}${periodType}`,
-      {
-        searchParams: {
-          apikey: config.fmpApiKey as string,
-          limit: limit.toString(),
-        },
-        timeout: 10000,
-      }
-    ).json<any>();
+    const response = await fmpGet<any>(`/ratios/${ticker}`, {
+      limit,
+      period: period === 'quarterly' ? 'quarter' : 'annual',
+    });
 
     return {
       ticker,
@@ -193,17 +171,10 @@ Use this for calculating EV-based multiples and understanding capital structure.
   execute: async ({ context }) => {
     const { ticker, period, limit } = context;
 
-    const periodType = period === 'quarterly' ? '' : '?periodType=annual';
-    const response = await ky.get(
-      `${FMP_BASE_URL}/enterprise-values/${ticker}${periodType}`,
-      {
-        searchParams: {
-          apikey: config.fmpApiKey as string,
-          limit: limit.toString(),
-        },
-        timeout: 10000,
-      }
-    ).json<any>();
+    const response = await fmpGet<any>(`/enterprise-values/${ticker}`, {
+      limit,
+      period: period === 'quarterly' ? 'quarter' : 'annual',
+    });
 
     return {
       ticker,
@@ -244,12 +215,7 @@ Use this for analyzing company growth trends and historical performance.`,
   execute: async ({ context }) => {
     const { ticker } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/growth/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/growth/${ticker}`);
 
     return {
       ticker,
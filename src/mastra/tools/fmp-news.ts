@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet } from './fmp-client';
 
 // Company News Tool
 const newsInputSchema = z.object({
@@ -48,13 +42,9 @@ News is sorted by most recent first.`,
   execute: async ({ context }) => {
     const { ticker, limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/news/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: limit.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/news/${ticker}`, {
+      limit,
+    });
 
     return {
       ticker,
@@ -99,14 +89,10 @@ News is curated from major financial news sources and covers US equities, ETFs,
   execute: async ({ context }) => {
     const { page, size } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/general_news`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        page: page.toString(),
-        size: size.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>('/general_news', {
+      page,
+      size,
+    });
 
     return {
       data: Array.isArray(response) ? response : [response],
@@ -154,13 +140,9 @@ Sentiment is calculated using natural language processing on news content.`,
   execute: async ({ context }) => {
     const { ticker, limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/news-sentiments/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: limit.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/news-sentiments/${ticker}`, {
+      limit,
+    });
 
     return {
       ticker,
@@ -205,13 +187,9 @@ Press releases are primary sources for material corporate events.`,
   execute: async ({ context }) => {
     const { ticker, limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/press-releases/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        limit: limit.toString(),
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/press-releases/${ticker}`, {
+      limit,
+    });
 
     return {
       ticker,
@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet, type FmpParams } from './fmp-client';
 
 // Price Snapshot Tool
 const priceSnapshotInputSchema = z.object({
@@ -39,12 +33,7 @@ Use this for up-to-date pricing information.`,
   execute: async ({ context }) => {
     const { ticker } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/quote/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/quote/${ticker}`);
 
     return {
       ticker,
@@ -92,17 +81,12 @@ Default: 30 days of data. Can specify date ranges with 'from' and 'to' parameter
   execute: async ({ context }) => {
     const { ticker, from, to, timeseries } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
-    };
+    const searchParams: FmpParams = {};
 
     if (from) searchParams.from = from;
     if (to) searchParams.to = to;
 
-    const response = await ky.get(`${FMP_BASE_URL}/historical-price-full/${ticker}`, {
-      searchParams,
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/historical-price-full/${ticker}`, searchParams);
 
     // FMP returns historical data with a 'historical' array
     let historical = response?.historical || [];
@@ -157,18 +141,14 @@ Note: Intraday data is only available for the current day and recent days.`,
   execute: async ({ context }) => {
     const { ticker, interval, from, to } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
+    const searchParams: FmpParams = {
       interval: interval === '1hour' ? '1hour' : interval.replace('min', 'min'),
     };
 
     if (from) searchParams.from = from;
     if (to) searchParams.to = to;
 
-    const response = await ky.get(`${FMP_BASE_URL}/historical-chart/${interval}/${ticker}`, {
-      searchParams,
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/historical-chart/${interval}/${ticker}`, searchParams);
 
     return {
       ticker,
@@ -209,12 +189,7 @@ Use this to gauge market sentiment and analyst expectations.`,
   execute: async ({ context }) => {
     const { ticker } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/analyst-price-target/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/analyst-price-target/${ticker}`);
 
     return {
       ticker,
@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet, type FmpParams } from './fmp-client';
 
 // General Screener Tool
 const screenerInputSchema = z.object({
@@ -60,8 +54,7 @@ Returns array of stocks matching all specified criteria.`,
     const params = context;
     const limit = params.limit || 100;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
+    const searchParams: FmpParams = {
       limit: limit.toString(),
     };
 
@@ -83,10 +76,7 @@ Returns array of stocks matching all specified criteria.`,
     if (params.country) searchParams.country = params.country;
     if (params.exchange) searchParams.exchange = params.exchange;
 
-    const response = await ky.get(`${FMP_BASE_URL}/stock-screener`, {
-      searchParams,
-      timeout: 15000,
-    }).json<any>();
+    const response = await fmpGet<any>('/stock-screener', searchParams, { timeout: 15000 });
 
     const data = Array.isArray(response) ? response : [];
 
@@ -138,8 +128,7 @@ Default criteria: P/E < 20, P/B < 3, market cap > $100M`,
   execute: async ({ context }) => {
     const { marketCapMoreThan, priceLowerThan, peRatioLowerThan, pbRatioLowerThan, dividendMoreThan, limit } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
+    const searchParams: FmpParams = {
       limit: limit.toString(),
       marketCapMoreThan: marketCapMoreThan.toString(),
       priceLowerThan: priceLowerThan.toString(),
@@ -149,10 +138,7 @@ Default criteria: P/E < 20, P/B < 3, market cap > $100M`,
       isActivelyTrading: 'true',
     };
 
-    const response = await ky.get(`${FMP_BASE_URL}/stock-screener`, {
-      searchParams,
-      timeout: 15000,
-    }).json<any>();
+    const response = await fmpGet<any>('/stock-screener', searchParams, { timeout: 15000 });
 
     const data = Array.isArray(response) ? response : [];
 
@@ -198,18 +184,14 @@ Note: Growth stocks typically have higher valuations due to expected future grow
   execute: async ({ context }) => {
     const { marketCapMoreThan, peRatioMoreThan, limit } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
+    const searchParams: FmpParams = {
       limit: limit.toString(),
       marketCapMoreThan: marketCapMoreThan.toString(),
       peRatioMoreThan: peRatioMoreThan.toString(),
       isActivelyTrading: 'true',
     };
 
-    const response = await ky.get(`${FMP_BASE_URL}/stock-screener`, {
-      searchParams,
-      timeout: 15000,
-    }).json<any>();
+    const response = await fmpGet<any>('/stock-screener', searchParams, { timeout: 15000 });
 
     const data = Array.isArray(response) ? response : [];
 
@@ -264,8 +246,7 @@ These stocks are volatile and may lose significant value.`,
   execute: async ({ context }) => {
     const { priceLowerThan, marketCapLowerThan, volumeMoreThan, limit } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
+    const searchParams: FmpParams = {
       limit: limit.toString(),
       priceLowerThan: priceLowerThan.toString(),
       marketCapLowerThan: marketCapLowerThan.toString(),
@@ -273,10 +254,7 @@ These stocks are volatile and may lose significant value.`,
       isActivelyTrading: 'true',
     };
 
-    const response = await ky.get(`${FMP_BASE_URL}/stock-screener`, {
-      searchParams,
-      timeout: 15000,
-    }).json<any>();
+    const response = await fmpGet<any>('/stock-screener', searchParams, { timeout: 15000 });
 
     const data = Array.isArray(response) ? response : [];
 
@@ -326,18 +304,14 @@ Always verify dividend sustainability and payout ratio.`,
   execute: async ({ context }) => {
     const { dividendMoreThan, marketCapMoreThan, limit } = context;
 
-    const searchParams: Record<string, string> = {
-      apikey: config.fmpApiKey as string,
+    const searchParams: FmpParams = {
       limit: limit.toString(),
       dividendMoreThan: dividendMoreThan.toString(),
       marketCapMoreThan: marketCapMoreThan.toString(),
       isActivelyTrading: 'true',
     };
 
-    const response = await ky.get(`${FMP_BASE_URL}/stock-screener`, {
-      searchParams,
-      timeout: 15000,
-    }).json<any>();
+    const response = await fmpGet<any>('/stock-screener', searchParams, { timeout: 15000 });
 
     const data = Array.isArray(response) ? response : [];
 
@@ -384,12 +358,7 @@ Always research the underlying reason for the move.`,
   execute: async ({ context }) => {
     const { limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/stock_market/gainers`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>('/stock_market/gainers');
 
     const data = Array.isArray(response) ? response.slice(0, limit) : [];
 
@@ -436,12 +405,7 @@ Large drops can create opportunity if the sell-off is overdone.`,
   execute: async ({ context }) => {
     const { limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/stock_market/losers`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>('/stock_market/losers');
 
     const data = Array.isArray(response) ? response.slice(0, limit) : [];
 
@@ -491,12 +455,7 @@ High volume can indicate:
   execute: async ({ context }) => {
     const { limit } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/stock_market/active`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>('/stock_market/active');
 
     const data = Array.isArray(response) ? response.slice(0, limit) : [];
 
@@ -539,12 +498,7 @@ Sector performance can help identify:
   inputSchema: z.object({}),
   outputSchema: sectorPerformanceOutputSchema,
   execute: async () => {
-    const response = await ky.get(`${FMP_BASE_URL}/sector-performance`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>('/sector-performance');
 
     const data = Array.isArray(response) ? response : [response];
 
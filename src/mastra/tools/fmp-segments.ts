@@ -1,12 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
-import { config } from '../config';
-
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
+import { fmpGet } from './fmp-client';
 
 // Revenue Segments Tool
 const revenueSegmentsInputSchema = z.object({
@@ -45,13 +39,9 @@ Essential for companies with multiple business units or global operations.`,
   execute: async ({ context }) => {
     const { ticker, structure } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/revenue-segmentation/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-        structure,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/revenue-segmentation/${ticker}`, {
+      structure,
+    });
 
     return {
       ticker,
@@ -102,17 +92,10 @@ Critical for conglomerates and multi-business companies.`,
   execute: async ({ context }) => {
     const { ticker, period, limit } = context;
 
-    const periodType = period === 'quarterly' ? '' : '?periodType=annual';
-    const response = await ky.get(
-      `${FMP_BASE_URL}/income-statement-segments/${ticker}${periodType}`,
-      {
-        searchParams: {
-          apikey: config.fmpApiKey as string,
-          limit: limit.toString(),
-        },
-        timeout: 10000,
-      }
-    ).json<any>();
+    const response = await fmpGet<any>(`/income-statement-segments/${ticker}`, {
+      limit,
+      period: period === 'quarterly' ? 'quarter' : 'annual',
+    });
 
     return {
       ticker,
@@ -159,12 +142,7 @@ Important for companies with significant international operations.`,
   execute: async ({ context }) => {
     const { ticker } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/geographic-segmentation/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/geographic-segmentation/${ticker}`);
 
     return {
       ticker,
@@ -212,12 +190,7 @@ Increasingly important for long-term investors and risk assessment.`,
   execute: async ({ context }) => {
     const { ticker } = context;
 
-    const response = await ky.get(`${FMP_BASE_URL}/esg-environmental-social-governance-data/${ticker}`, {
-      searchParams: {
-        apikey: config.fmpApiKey as string,
-      },
-      timeout: 10000,
-    }).json<any>();
+    const response = await fmpGet<any>(`/esg-environmental-social-governance-data/${ticker}`);
 
     return {
       ticker,
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeAltmanZ,
+  computeBeneishM,
+  computeEarningsQuality,
+  computePiotroskiF,
+  type FiscalYear,
+} from './forensics';
+
+type Statements = Pick<FiscalYear, 'income' | 'balance' | 'cashFlow'>;
+
+function fiscalYear(year: string, overrides: Partial<Statements> = {}, marketCap: number | null = 1200): FiscalYear {
+  return {
+    fiscalYear: year,
+    income: {
+      revenue: 1500,
+      grossProfit: 600,
+      operatingIncome: 100,
+      netIncome: 100,
+      sellingGeneralAndAdministrativeExpenses: 200,
+      weightedAverageShsOut: 100,
+      ...overrides.income,
+    },
+    balance: {
+      totalAssets: 1000,
+      totalLiabilities: 400,
+      totalCurrentAssets: 300,
+      totalCurrentLiabilities: 100,
+      retainedEarnings: 200,
+      totalStockholdersEquity: 600,
+      longTermDebt: 200,
+      netReceivables: 150,
+      propertyPlantEquipmentNet: 500,
+      ...overrides.balance,
+    },
+    cashFlow: {
+      operatingCashFlow: 100,
+      depreciationAndAmortization: 50,
+      capitalExpenditure: -50,
+      ...overrides.cashFlow,
+    },
+    marketCap,
+  };
+}
+
+describe('computeAltmanZ', () => {
+  it('scores the original model with market equity', () => {
+    const warnings: string[] = [];
+    const series = computeAltmanZ([fiscalYear('2024')], 'original', warnings);
+
+    // 1.2(0.2) + 1.4(0.2) + 3.3(0.1) + 0.6(1200/400) + 1.0(1.5)
+    expect(series.years[0].score).toBe(4.15);
+    expect(series.years[0].signal).toBe('Safe zone');
+    expect(warnings).toEqual([]);
+  });
+
+  it('falls back to book equity and warns when market cap is missing', () => {
+    const warnings: string[] = [];
+    const series = computeAltmanZ([fiscalYear('2024', {}, null)], 'original', warnings);
+
+    expect(series.years[0].score).toBe(3.25);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it("scores Z'' on book equity without the sales term", () => {
+    const series = computeAltmanZ([fiscalYear('2024')], 'non_manufacturing', []);
+
+    // 6.56(0.2) + 3.26(0.2) + 6.72(0.1) + 1.05(600/400)
+    expect(series.years[0].score).toBe(4.21);
+    expect(series.years[0].components).not.toHaveProperty('salesToAssets');
+  });
+
+  it('flags distress and returns null when assets are missing', () => {
+    const series = computeAltmanZ([
+      fiscalYear('2024', { balance: { retainedEarnings: -600, totalCurrentAssets: 50, totalCurrentLiabilities: 250 } }, 100),
+      fiscalYear('2023', { balance: { totalAssets: 0 } }),
+    ], 'original', []);
+
+    expect(series.years[0].signal).toBe('Distress zone');
+    expect(series.years[1].score).toBeNull();
+    expect(series.trend).toBe('insufficient_data');
+  });
+});
+
+describe('computePiotroskiF', () => {
+  it('passes every test when the year improves on the prior one', () => {
+    const series = computePiotroskiF([
+      fiscalYear('2024', {
+        income: { netIncome: 120, revenue: 1600, grossProfit: 700, weightedAverageShsOut: 95 },
+        balance: { longTermDebt: 150, totalCurrentAssets: 350 },
+        cashFlow: { operatingCashFlow: 150 },
+      }),
+      fiscalYear('2023'),
+    ]);
+
+    expect(series.years).toHaveLength(1);
+    expect(series.years[0].score).toBe(9);
+    expect(series.years[0].signal).toBe('Strong');
+  });
+
+  it('scores an unchanged year on the level tests only', () => {
+    const series = computePiotroskiF([
+      fiscalYear('2024', { cashFlow: { operatingCashFlow: 110 } }),
+      fiscalYear('2023'),
+    ]);
+
+    // Positive ROA and cash flow, accruals, leverage and dilution pass; the improvement tests do not
+    expect(series.years[0].score).toBe(5);
+    expect(series.years[0].signal).toBe('Neutral');
+  });
+});
+
+describe('computeBeneishM', () => {
+  it('gives the model intercept plus unit indexes for a steady company', () => {
+    const series = computeBeneishM([fiscalYear('2024'), fiscalYear('2023')]);
+
+    expect(series.years[0].score).toBe(-2.48);
+    expect(series.years[0].signal).toBe('Unlikely manipulator');
+    expect(series.years[0].components).toMatchObject({ dsri: 1, gmi: 1, sgi: 1, tata: 0 });
+  });
+
+  it('flags ballooning receivables and accruals', () => {
+    const series = computeBeneishM([
+      fiscalYear('2024', { balance: { netReceivables: 450 }, cashFlow: { operatingCashFlow: -100 } }),
+      fiscalYear('2023'),
+    ]);
+
+    expect(series.years[0].components).toMatchObject({ dsri: 3, tata: 0.2 });
+    expect(series.years[0].signal).toBe('Likely manipulator');
+  });
+});
+
+describe('computeEarningsQuality', () => {
+  it('computes accruals on average assets and cash conversion on net income', () => {
+    const [accruals, conversion] = computeEarningsQuality([
+      fiscalYear('2024', { balance: { totalAssets: 1200 }, cashFlow: { operatingCashFlow: 60 } }),
+      fiscalYear('2023'),
+    ]);
+
+    expect(accruals.years[0].score).toBe(0.036);
+    expect(accruals.years[0].signal).toBe('Normal');
+    expect(conversion.years[0].score).toBe(0.6);
+    expect(conversion.years[0].signal).toBe('Weak conversion');
+    expect(conversion.years[0].components.freeCashFlowConversion).toBe(0.1);
+  });
+
+  it('does not compute conversion against a loss', () => {
+    const [, conversion] = computeEarningsQuality([
+      fiscalYear('2024', { income: { netIncome: -50 } }),
+      fiscalYear('2023'),
+    ]);
+
+    expect(conversion.years[0].score).toBeNull();
+    expect(conversion.years[0].signal).toBe('Net loss');
+  });
+});
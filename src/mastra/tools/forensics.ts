@@ -0,0 +1,469 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { fmpIncomeStatement, fmpBalanceSheet, fmpCashFlow } from './fmp-fundamentals';
+import { fmpKeyMetrics } from './fmp-metrics';
+
+type StatementRow = Record<string, unknown>;
+
+/**
+ * One fiscal year of statements, aligned by report date
+ */
+export interface FiscalYear {
+  fiscalYear: string;
+  income: StatementRow;
+  balance: StatementRow;
+  cashFlow: StatementRow;
+  marketCap: number | null;
+}
+
+/**
+ * Annual statements for a ticker, newest first. Fetches one extra year so
+ * the oldest scored year still has a prior year to compare against.
+ */
+async function loadYears(ticker: string, years: number, withMarketCap = false): Promise<FiscalYear[]> {
+  const runtimeContext = new RuntimeContext();
+  const limit = years + 1;
+
+  const [income, balance, cashFlow, metrics] = await Promise.all([
+    fmpIncomeStatement.execute({ context: { ticker, period: 'annual', limit }, runtimeContext }),
+    fmpBalanceSheet.execute({ context: { ticker, period: 'annual', limit }, runtimeContext }),
+    fmpCashFlow.execute({ context: { ticker, period: 'annual', limit }, runtimeContext }),
+    withMarketCap
+      ? fmpKeyMetrics.execute({ context: { ticker, period: 'annual', limit }, runtimeContext })
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const byDate = (rows: StatementRow[]) => new Map(rows.filter(Boolean).map(r => [String(r.date), r]));
+  const balanceByDate = byDate(balance.data);
+  const cashFlowByDate = byDate(cashFlow.data);
+  const metricsByDate = byDate(metrics.data);
+
+  const aligned = income.data
+    .filter(Boolean)
+    .map((row: StatementRow): FiscalYear | null => {
+      const date = String(row.date);
+      const b = balanceByDate.get(date);
+      const c = cashFlowByDate.get(date);
+      if (!b || !c) return null;
+
+      const marketCap = num(metricsByDate.get(date)?.marketCap);
+      return {
+        fiscalYear: String(row.calendarYear ?? date),
+        income: row,
+        balance: b,
+        cashFlow: c,
+        marketCap: marketCap > 0 ? marketCap : null,
+      };
+    })
+    .filter((y: FiscalYear | null): y is FiscalYear => y !== null);
+
+  if (aligned.length === 0) {
+    throw new Error(`No annual financial statements available for ${ticker}`);
+  }
+
+  return aligned;
+}
+
+function num(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function round(value: number, digits = 3): number {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * a / b, or null when the denominator is zero
+ */
+function ratio(a: number, b: number): number | null {
+  return b !== 0 ? a / b : null;
+}
+
+function averageAssets(current: FiscalYear, prior?: FiscalYear): number {
+  const end = num(current.balance.totalAssets);
+  return prior ? (end + num(prior.balance.totalAssets)) / 2 : end;
+}
+
+type Trend = 'improving' | 'deteriorating' | 'stable' | 'insufficient_data';
+
+/**
+ * Direction of a score from the oldest to the newest year. Changes within
+ * the tolerance count as stable.
+ */
+function trendOf(scores: Array<number | null>, higherIsBetter: boolean, tolerance: number): Trend {
+  const values = scores.filter((s): s is number => s !== null);
+  if (values.length < 2) return 'insufficient_data';
+
+  const change = values[0] - values[values.length - 1];
+  if (Math.abs(change) <= tolerance) return 'stable';
+  return (change > 0) === higherIsBetter ? 'improving' : 'deteriorating';
+}
+
+const forensicYearSchema = z.object({
+  fiscalYear: z.string(),
+  score: z.number().nullable(),
+  signal: z.string(),
+  components: z.record(z.number().nullable()),
+});
+
+const forensicSeriesSchema = z.object({
+  metric: z.enum(['altman_z', 'piotroski_f', 'beneish_m', 'accruals_ratio', 'cash_conversion']),
+  label: z.string(),
+  /** Newest first */
+  years: z.array(forensicYearSchema),
+  trend: z.enum(['improving', 'deteriorating', 'stable', 'insufficient_data']),
+  interpretation: z.string(),
+});
+
+type ForensicYear = z.infer<typeof forensicYearSchema>;
+type ForensicSeries = z.infer<typeof forensicSeriesSchema>;
+
+const forensicOutputSchema = z.object({
+  ticker: z.string(),
+  series: z.array(forensicSeriesSchema),
+  warnings: z.array(z.string()),
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+type AltmanModel = 'original' | 'non_manufacturing';
+
+/**
+ * Altman Z-score. The original model is for public manufacturers; Z'' drops
+ * the sales term and uses book equity for service and non-US companies.
+ */
+export function computeAltmanZ(years: FiscalYear[], model: AltmanModel, warnings: string[]): ForensicSeries {
+  const zones = model === 'original' ? { safe: 2.99, distress: 1.81 } : { safe: 2.6, distress: 1.1 };
+  let usedBookEquity = false;
+
+  const scored = years.map((y): ForensicYear => {
+    const totalAssets = num(y.balance.totalAssets);
+    const totalLiabilities = num(y.balance.totalLiabilities);
+    const workingCapital = num(y.balance.totalCurrentAssets) - num(y.balance.totalCurrentLiabilities);
+    const ebit = num(y.income.operatingIncome);
+
+    let equity = num(y.balance.totalStockholdersEquity);
+    if (model === 'original') {
+      if (y.marketCap !== null) equity = y.marketCap;
+      else usedBookEquity = true;
+    }
+
+    const x1 = ratio(workingCapital, totalAssets);
+    const x2 = ratio(num(y.balance.retainedEarnings), totalAssets);
+    const x3 = ratio(ebit, totalAssets);
+    const x4 = ratio(equity, totalLiabilities);
+    const x5 = ratio(num(y.income.revenue), totalAssets);
+
+    const components = {
+      workingCapitalToAssets: x1,
+      retainedEarningsToAssets: x2,
+      ebitToAssets: x3,
+      [model === 'original' ? 'marketEquityToLiabilities' : 'bookEquityToLiabilities']: x4,
+      ...(model === 'original' ? { salesToAssets: x5 } : {}),
+    };
+
+    if (x1 === null || x2 === null || x3 === null || x4 === null || x5 === null) {
+      return { fiscalYear: y.fiscalYear, score: null, signal: 'Insufficient data', components };
+    }
+
+    const z = model === 'original'
+      ? 1.2 * x1 + 1.4 * x2 + 3.3 * x3 + 0.6 * x4 + 1.0 * x5
+      : 6.56 * x1 + 3.26 * x2 + 6.72 * x3 + 1.05 * x4;
+
+    return {
+      fiscalYear: y.fiscalYear,
+      score: round(z, 2),
+      signal: z > zones.safe ? 'Safe zone' : z >= zones.distress ? 'Grey zone' : 'Distress zone',
+      components: Object.fromEntries(Object.entries(components).map(([k, v]) => [k, v === null ? null : round(v)])),
+    };
+  });
+
+  if (usedBookEquity) {
+    warnings.push('Market capitalization missing for some years; Altman Z used book equity for X4 in those years');
+  }
+
+  return {
+    metric: 'altman_z',
+    label: model === 'original' ? 'Altman Z-score' : "Altman Z''-score (non-manufacturing)",
+    years: scored,
+    trend: trendOf(scored.map(s => s.score), true, 0.25),
+    interpretation: `Above ${zones.safe} is safe, ${zones.distress}-${zones.safe} is the grey zone, below ${zones.distress} signals elevated bankruptcy risk within two years.`,
+  };
+}
+
+/**
+ * Piotroski F-score: nine binary tests of profitability, leverage and
+ * liquidity, and operating efficiency, each against the prior year
+ */
+export function computePiotroskiF(years: FiscalYear[]): ForensicSeries {
+  const scored = years.slice(0, -1).map((y, i): ForensicYear => {
+    const prior = years[i + 1];
+    const roa = (f: FiscalYear) => ratio(num(f.income.netIncome), num(f.balance.totalAssets)) ?? 0;
+    const leverage = (f: FiscalYear) => ratio(num(f.balance.longTermDebt), num(f.balance.totalAssets)) ?? 0;
+    const currentRatio = (f: FiscalYear) => ratio(num(f.balance.totalCurrentAssets), num(f.balance.totalCurrentLiabilities)) ?? 0;
+    const grossMargin = (f: FiscalYear) => ratio(num(f.income.grossProfit), num(f.income.revenue)) ?? 0;
+    const turnover = (f: FiscalYear) => ratio(num(f.income.revenue), num(f.balance.totalAssets)) ?? 0;
+    const shares = (f: FiscalYear) => num(f.income.weightedAverageShsOut);
+
+    const cfo = num(y.cashFlow.operatingCashFlow);
+    const tests = {
+      positiveRoa: roa(y) > 0,
+      positiveOperatingCashFlow: cfo > 0,
+      improvingRoa: roa(y) > roa(prior),
+      cashFlowExceedsNetIncome: cfo > num(y.income.netIncome),
+      lowerLeverage: leverage(y) <= leverage(prior),
+      higherCurrentRatio: currentRatio(y) > currentRatio(prior),
+      noDilution: shares(y) <= shares(prior),
+      higherGrossMargin: grossMargin(y) > grossMargin(prior),
+      higherAssetTurnover: turnover(y) > turnover(prior),
+    };
+
+    const score = Object.values(tests).filter(Boolean).length;
+    return {
+      fiscalYear: y.fiscalYear,
+      score,
+      signal: score >= 7 ? 'Strong' : score >= 4 ? 'Neutral' : 'Weak',
+      components: Object.fromEntries(Object.entries(tests).map(([k, passed]) => [k, passed ? 1 : 0])),
+    };
+  });
+
+  return {
+    metric: 'piotroski_f',
+    label: 'Piotroski F-score',
+    years: scored,
+    trend: trendOf(scored.map(s => s.score), true, 1),
+    interpretation: '0-9; 7 or more indicates strong and improving fundamentals, 3 or less weak and deteriorating ones.',
+  };
+}
+
+/**
+ * Beneish M-score (eight-variable model) for the likelihood of earnings
+ * manipulation. Indexes with a zero denominator default to a neutral 1.
+ */
+export function computeBeneishM(years: FiscalYear[]): ForensicSeries {
+  const scored = years.slice(0, -1).map((y, i): ForensicYear => {
+    const p = years[i + 1];
+    const index = (current: number | null, prior: number | null) =>
+      current !== null && prior !== null && prior !== 0 ? current / prior : 1;
+
+    const sales = (f: FiscalYear) => num(f.income.revenue);
+    const ppe = (f: FiscalYear) => num(f.balance.propertyPlantEquipmentNet);
+    const depreciation = (f: FiscalYear) => num(f.cashFlow.depreciationAndAmortization) || num(f.income.depreciationAndAmortization);
+    const hardAssets = (f: FiscalYear) =>
+      num(f.balance.totalCurrentAssets) + ppe(f) + num(f.balance.longTermInvestments);
+
+    const dsri = index(ratio(num(y.balance.netReceivables), sales(y)), ratio(num(p.balance.netReceivables), sales(p)));
+    const gmi = index(ratio(num(p.income.grossProfit), sales(p)), ratio(num(y.income.grossProfit), sales(y)));
+    const aqi = index(
+      ratio(num(y.balance.totalAssets) - hardAssets(y), num(y.balance.totalAssets)),
+      ratio(num(p.balance.totalAssets) - hardAssets(p), num(p.balance.totalAssets))
+    );
+    const sgi = index(sales(y), sales(p));
+    const depi = index(ratio(depreciation(p), depreciation(p) + ppe(p)), ratio(depreciation(y), depreciation(y) + ppe(y)));
+    const sgai = index(
+      ratio(num(y.income.sellingGeneralAndAdministrativeExpenses), sales(y)),
+      ratio(num(p.income.sellingGeneralAndAdministrativeExpenses), sales(p))
+    );
+    const lvgi = index(
+      ratio(num(y.balance.totalCurrentLiabilities) + num(y.balance.longTermDebt), num(y.balance.totalAssets)),
+      ratio(num(p.balance.totalCurrentLiabilities) + num(p.balance.longTermDebt), num(p.balance.totalAssets))
+    );
+    const tata = ratio(num(y.income.netIncome) - num(y.cashFlow.operatingCashFlow), num(y.balance.totalAssets)) ?? 0;
+
+    const m = -4.84 + 0.92 * dsri + 0.528 * gmi + 0.404 * aqi + 0.892 * sgi
+      + 0.115 * depi - 0.172 * sgai + 4.679 * tata - 0.327 * lvgi;
+
+    return {
+      fiscalYear: y.fiscalYear,
+      score: round(m, 2),
+      signal: m > -1.78 ? 'Likely manipulator' : m > -2.22 ? 'Grey zone' : 'Unlikely manipulator',
+      components: {
+        dsri: round(dsri), gmi: round(gmi), aqi: round(aqi), sgi: round(sgi),
+        depi: round(depi), sgai: round(sgai), lvgi: round(lvgi), tata: round(tata),
+      },
+    };
+  });
+
+  return {
+    metric: 'beneish_m',
+    label: 'Beneish M-score',
+    years: scored,
+    trend: trendOf(scored.map(s => s.score), false, 0.25),
+    interpretation: 'Above -1.78 flags likely earnings manipulation; -2.22 to -1.78 is a grey zone. High DSRI (receivables), AQI (capitalized costs) or TATA (accruals) are the usual drivers.',
+  };
+}
+
+/**
+ * Sloan accruals ratio and cash conversion: how much of reported earnings
+ * is backed by operating cash flow
+ */
+export function computeEarningsQuality(years: FiscalYear[]): ForensicSeries[] {
+  const scored = years.slice(0, -1).map((y, i) => {
+    const netIncome = num(y.income.netIncome);
+    const cfo = num(y.cashFlow.operatingCashFlow);
+    const fcf = num(y.cashFlow.freeCashFlow) || cfo + num(y.cashFlow.capitalExpenditure);
+    const assets = averageAssets(y, years[i + 1]);
+
+    const accruals = ratio(netIncome - cfo, assets);
+    // Conversion is meaningless against a loss
+    const conversion = netIncome > 0 ? cfo / netIncome : null;
+    const fcfConversion = netIncome > 0 ? fcf / netIncome : null;
+
+    const accrualsYear: ForensicYear = {
+      fiscalYear: y.fiscalYear,
+      score: accruals === null ? null : round(accruals),
+      signal: accruals === null ? 'Insufficient data'
+        : accruals > 0.1 ? 'High accruals' : accruals < -0.1 ? 'Cash earnings exceed reported' : 'Normal',
+      components: { netIncome, operatingCashFlow: cfo, averageTotalAssets: assets },
+    };
+
+    const conversionYear: ForensicYear = {
+      fiscalYear: y.fiscalYear,
+      score: conversion === null ? null : round(conversion, 2),
+      signal: conversion === null ? 'Net loss' : conversion < 0.8 ? 'Weak conversion' : 'Healthy conversion',
+      components: {
+        operatingCashFlow: cfo,
+        freeCashFlow: fcf,
+        netIncome,
+        freeCashFlowConversion: fcfConversion === null ? null : round(fcfConversion, 2),
+      },
+    };
+
+    return { accrualsYear, conversionYear };
+  });
+
+  return [
+    {
+      metric: 'accruals_ratio',
+      label: 'Accruals ratio',
+      years: scored.map(s => s.accrualsYear),
+      trend: trendOf(scored.map(s => s.accrualsYear.score), false, 0.02),
+      interpretation: '(Net income - operating cash flow) / average total assets. Above 0.10 means earnings lean heavily on accruals, which tend to reverse.',
+    },
+    {
+      metric: 'cash_conversion',
+      label: 'Cash conversion',
+      years: scored.map(s => s.conversionYear),
+      trend: trendOf(scored.map(s => s.conversionYear.score), true, 0.1),
+      interpretation: 'Operating cash flow / net income. Persistently below 0.8 means reported profits are not turning into cash.',
+    },
+  ];
+}
+
+function buildOutput(ticker: string, series: ForensicSeries[], warnings: string[]) {
+  if (series.some(s => s.years.length < 2)) {
+    warnings.push('Fewer than two scored years available; trends could not be assessed for every metric');
+  }
+
+  return {
+    ticker: ticker.toUpperCase(),
+    series,
+    warnings,
+    source: 'fmp' as const,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+const yearsSchema = z.number().int().min(1).max(10).default(5).describe('Number of fiscal years to score (default 5)');
+
+// Altman Z-Score Tool
+const altmanInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol (e.g., AAPL, GOOGL)'),
+  model: z.enum(['original', 'non_manufacturing']).default('original')
+    .describe("'original' for public manufacturers, 'non_manufacturing' (Z'') for service, financial-light or non-US companies"),
+  years: yearsSchema,
+});
+
+export const altmanZScoreTool = createTool({
+  id: 'altman-z-score',
+  description: `Compute the Altman Z-score for a ticker across several fiscal years.
+
+Scores bankruptcy risk from working capital, retained earnings, EBIT,
+equity-to-liabilities and sales, each scaled by total assets. Returns the
+score, zone (safe, grey, distress) and all five ratios per year, plus the
+multi-year trend. Use the non-manufacturing model for service companies.`,
+  inputSchema: altmanInputSchema,
+  outputSchema: forensicOutputSchema,
+  execute: async ({ context }) => {
+    const { ticker, model, years } = context;
+    const fiscalYears = await loadYears(ticker, years, model === 'original');
+    const warnings: string[] = [];
+
+    const series = computeAltmanZ(fiscalYears.slice(0, years), model, warnings);
+    return buildOutput(ticker, [series], warnings);
+  },
+});
+
+// Piotroski F-Score Tool
+const piotroskiInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol (e.g., AAPL, GOOGL)'),
+  years: yearsSchema,
+});
+
+export const piotroskiFScoreTool = createTool({
+  id: 'piotroski-f-score',
+  description: `Compute the Piotroski F-score (0-9) for a ticker across several fiscal years.
+
+Nine pass/fail tests against the prior year: positive ROA and operating cash
+flow, improving ROA, cash flow above net income, lower leverage, higher
+current ratio, no share dilution, higher gross margin and asset turnover.
+Returns the score, each test result per year and the multi-year trend.`,
+  inputSchema: piotroskiInputSchema,
+  outputSchema: forensicOutputSchema,
+  execute: async ({ context }) => {
+    const { ticker, years } = context;
+    const fiscalYears = await loadYears(ticker, years);
+
+    return buildOutput(ticker, [computePiotroskiF(fiscalYears)], []);
+  },
+});
+
+// Beneish M-Score Tool
+const beneishInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol (e.g., AAPL, GOOGL)'),
+  years: yearsSchema,
+});
+
+export const beneishMScoreTool = createTool({
+  id: 'beneish-m-score',
+  description: `Compute the Beneish M-score for a ticker across several fiscal years.
+
+Eight-variable model of earnings manipulation risk: receivables growth
+(DSRI), gross margin erosion (GMI), asset quality (AQI), sales growth (SGI),
+depreciation (DEPI), SG&A (SGAI), leverage (LVGI) and total accruals (TATA).
+Returns the score, a manipulation signal and every index per year, plus the
+multi-year trend. Scores above -1.78 warrant scrutiny of the accounts.`,
+  inputSchema: beneishInputSchema,
+  outputSchema: forensicOutputSchema,
+  execute: async ({ context }) => {
+    const { ticker, years } = context;
+    const fiscalYears = await loadYears(ticker, years);
+
+    return buildOutput(ticker, [computeBeneishM(fiscalYears)], []);
+  },
+});
+
+// Earnings Quality Tool
+const earningsQualityInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol (e.g., AAPL, GOOGL)'),
+  years: yearsSchema,
+});
+
+export const earningsQualityTool = createTool({
+  id: 'earnings-quality',
+  description: `Compute the accruals ratio and cash conversion for a ticker across several fiscal years.
+
+Accruals ratio: (net income - operating cash flow) / average total assets.
+Cash conversion: operating cash flow / net income, with free cash flow
+conversion alongside. Returns both series per year with signals and trends.
+Rising accruals and falling conversion are classic early warnings.`,
+  inputSchema: earningsQualityInputSchema,
+  outputSchema: forensicOutputSchema,
+  execute: async ({ context }) => {
+    const { ticker, years } = context;
+    const fiscalYears = await loadYears(ticker, years);
+
+    return buildOutput(ticker, computeEarningsQuality(fiscalYears), []);
+  },
+});
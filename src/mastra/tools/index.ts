@@ -85,6 +85,35 @@ import {
   fmpSectorPerformance,
 } from './fmp-screener';
 
+import {
+  dcfValuationTool,
+  epvValuationTool,
+  assetValuationTool,
+} from './valuation';
+
+import {
+  altmanZScoreTool,
+  piotroskiFScoreTool,
+  beneishMScoreTool,
+  earningsQualityTool,
+} from './forensics';
+
+import { peerComparablesTool } from './comparables';
+
+import { mergerArbSpreadTool } from './merger-arb';
+
+import { corporateEventsTool } from './corporate-events';
+
+import { filingDiffTool } from './filing-diff';
+
+import { insiderBuyingSignalTool } from './insider-signal';
+
+import { institutionalOwnershipTool } from './ownership';
+
+import { capitalStructureTool } from './capital-structure';
+
+import { treasuryYieldsTool, creditSpreadsTool, sectorRotationTool } from './macro';
+
 // Re-export all tools
 export {
   fmpIncomeStatement,
@@ -136,6 +165,23 @@ export {
   fmpLosers,
   fmpActive,
   fmpSectorPerformance,
+  dcfValuationTool,
+  epvValuationTool,
+  assetValuationTool,
+  altmanZScoreTool,
+  piotroskiFScoreTool,
+  beneishMScoreTool,
+  earningsQualityTool,
+  peerComparablesTool,
+  mergerArbSpreadTool,
+  corporateEventsTool,
+  filingDiffTool,
+  insiderBuyingSignalTool,
+  institutionalOwnershipTool,
+  capitalStructureTool,
+  treasuryYieldsTool,
+  creditSpreadsTool,
+  sectorRotationTool,
 };
 
 /**
@@ -167,6 +213,7 @@ export const fmpTools = {
   fmp10QFiling,
   fmp8KFiling,
   fmpCIKSearch,
+  filingDiffTool,
 
   // News
   fmpNews,
@@ -193,6 +240,8 @@ export const fmpTools = {
   fmpInsiderRoster,
   fmpInstitutionalHolders,
   fmpMutualFundHolders,
+  insiderBuyingSignalTool,
+  institutionalOwnershipTool,
 
   // Crypto
   fmpCryptoPrice,
@@ -210,6 +259,32 @@ export const fmpTools = {
   fmpLosers,
   fmpActive,
   fmpSectorPerformance,
+
+  // Valuation
+  dcfValuationTool,
+  epvValuationTool,
+  assetValuationTool,
+
+  // Forensics
+  altmanZScoreTool,
+  piotroskiFScoreTool,
+  beneishMScoreTool,
+  earningsQualityTool,
+
+  // Comparables
+  peerComparablesTool,
+
+  // Special Situations
+  mergerArbSpreadTool,
+  corporateEventsTool,
+
+  // Credit
+  capitalStructureTool,
+
+  // Macro
+  treasuryYieldsTool,
+  creditSpreadsTool,
+  sectorRotationTool,
 } as const;
 
 /**
@@ -241,6 +316,7 @@ export const fmpToolCategories = {
     fmp10QFiling,
     fmp8KFiling,
     fmpCIKSearch,
+    filingDiffTool,
   },
   news: {
     fmpNews,
@@ -267,6 +343,8 @@ export const fmpToolCategories = {
     fmpInsiderRoster,
     fmpInstitutionalHolders,
     fmpMutualFundHolders,
+    insiderBuyingSignalTool,
+    institutionalOwnershipTool,
   },
   crypto: {
     fmpCryptoPrice,
@@ -285,4 +363,30 @@ export const fmpToolCategories = {
     fmpActive,
     fmpSectorPerformance,
   },
+  valuation: {
+    dcfValuationTool,
+    epvValuationTool,
+    assetValuationTool,
+  },
+  forensics: {
+    altmanZScoreTool,
+    piotroskiFScoreTool,
+    beneishMScoreTool,
+    earningsQualityTool,
+  },
+  comparables: {
+    peerComparablesTool,
+  },
+  specialSituations: {
+    mergerArbSpreadTool,
+    corporateEventsTool,
+  },
+  credit: {
+    capitalStructureTool,
+  },
+  macro: {
+    treasuryYieldsTool,
+    creditSpreadsTool,
+    sectorRotationTool,
+  },
 } as const;
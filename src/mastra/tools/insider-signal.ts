@@ -0,0 +1,256 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { fmpInsiderTrading, fmpInsiderRoster } from './fmp-insider';
+import { insiderSignalSchema, type InsiderPurchase, type InsiderSignal } from '@/src/types/insider-signal';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TransactionRow = Record<string, unknown>;
+
+/** Different insiders buying within the cluster window that make a cluster */
+const CLUSTER_MIN_INSIDERS = 3;
+
+/** A buy that grows the insider's stake by this fraction, or is worth this much, is unusual */
+const UNUSUAL_PCT_OF_HOLDINGS = 0.2;
+const UNUSUAL_VALUE = 1_000_000;
+
+const CEO_PATTERN = /chief executive|\bceo\b/i;
+const CFO_PATTERN = /chief financial|\bcfo\b/i;
+
+function num(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Form 4 transaction code: FMP returns "P-Purchase" in transactionType, or
+ * the bare code in transactionCode
+ */
+function transactionCode(row: TransactionRow): string {
+  return (str(row.transactionCode) || str(row.transactionType).split('-')[0]).toUpperCase();
+}
+
+/**
+ * Shares held per insider from the roster, keyed by upper-cased name
+ */
+function rosterHoldings(roster: TransactionRow[]): Map<string, number> {
+  const holdings = new Map<string, number>();
+  for (const row of roster) {
+    const name = str(row.owner) || str(row.name) || str(row.reportingName);
+    const shares = num(row.sharesOwned) ?? num(row.securitiesOwned) ?? num(row.totalShares);
+    if (name && shares !== null) holdings.set(name.toUpperCase(), shares);
+  }
+  return holdings;
+}
+
+/**
+ * Open-market purchases and total sale value within the lookback window
+ */
+function parseTransactions(rows: TransactionRow[], since: string, holdings: Map<string, number>) {
+  const purchases: InsiderPurchase[] = [];
+  let saleValue = 0;
+
+  for (const row of rows) {
+    const date = str(row.transactionDate).slice(0, 10);
+    if (!date || date < since) continue;
+
+    const code = transactionCode(row);
+    const shares = num(row.securitiesTransacted) ?? 0;
+    const price = num(row.price) ?? 0;
+    if (shares <= 0 || price <= 0) continue;
+
+    if (code === 'S') {
+      saleValue += shares * price;
+      continue;
+    }
+    // Only open-market purchases; option exercises (M) and grants (A) are compensation
+    if (code !== 'P') continue;
+
+    // The Form 4's post-trade holding is exact for this trade; the roster is
+    // today's holding, which later trades have moved
+    const name = str(row.reportingName) || 'Unknown insider';
+    const ownedAfter = num(row.securitiesOwned) ?? holdings.get(name.toUpperCase()) ?? null;
+    const ownedBefore = ownedAfter !== null ? ownedAfter - shares : null;
+
+    purchases.push({
+      name,
+      title: str(row.typeOfOwner),
+      date,
+      shares,
+      value: shares * price,
+      pctOfHoldings: ownedBefore !== null && ownedBefore > 0 ? Number((shares / ownedBefore).toFixed(4)) : null,
+    });
+  }
+
+  return { purchases: purchases.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0)), saleValue };
+}
+
+/**
+ * Window of `windowDays` with the most distinct buyers (ties go to the larger value)
+ */
+function findCluster(purchases: InsiderPurchase[], windowDays: number): InsiderSignal['cluster'] {
+  let best: InsiderSignal['cluster'] = null;
+
+  for (let i = 0; i < purchases.length; i++) {
+    const end = new Date(new Date(`${purchases[i].date}T00:00:00Z`).getTime() + windowDays * DAY_MS).toISOString().slice(0, 10);
+    const inWindow = purchases.slice(i).filter(p => p.date <= end);
+    const insiders = new Set(inWindow.map(p => p.name.toUpperCase())).size;
+    const value = inWindow.reduce((sum, p) => sum + p.value, 0);
+
+    if (insiders >= CLUSTER_MIN_INSIDERS && (!best || insiders > best.insiders || (insiders === best.insiders && value > best.value))) {
+      best = { start: inWindow[0].date, end: inWindow[inWindow.length - 1].date, insiders, value: Math.round(value) };
+    }
+  }
+
+  return best;
+}
+
+function formatUsd(value: number): string {
+  return value >= 1e6 ? `$${(value / 1e6).toFixed(1)}M` : `$${Math.round(value / 1e3)}K`;
+}
+
+/**
+ * Score out of 100: clusters and C-suite buying carry the most weight,
+ * outsized buys and total dollars add to it, and heavy net selling subtracts
+ */
+function scoreSignal(
+  purchases: InsiderPurchase[],
+  saleValue: number,
+  cluster: InsiderSignal['cluster'],
+  executiveBuys: InsiderPurchase[],
+  unusualBuys: InsiderPurchase[]
+) {
+  const reasons: string[] = [];
+  const buyers = new Set(purchases.map(p => p.name.toUpperCase())).size;
+  const purchaseValue = purchases.reduce((sum, p) => sum + p.value, 0);
+  let score = 0;
+
+  if (cluster) {
+    score += Math.min(50, 30 + (cluster.insiders - CLUSTER_MIN_INSIDERS) * 10);
+    reasons.push(`${cluster.insiders} insiders bought between ${cluster.start} and ${cluster.end} (${formatUsd(cluster.value)})`);
+  } else if (buyers > 0) {
+    score += buyers * 10;
+    reasons.push(`${buyers} insider${buyers > 1 ? 's' : ''} bought on the open market`);
+  }
+
+  const ceo = executiveBuys.some(p => CEO_PATTERN.test(p.title));
+  const cfo = executiveBuys.some(p => CFO_PATTERN.test(p.title));
+  if (ceo) score += 20;
+  if (cfo) score += 15;
+  if (ceo || cfo) reasons.push(`${[ceo && 'CEO', cfo && 'CFO'].filter(Boolean).join(' and ')} bought shares`);
+
+  if (unusualBuys.length > 0) {
+    score += Math.min(20, unusualBuys.length * 10);
+    const largest = unusualBuys.reduce((a, b) => ((b.pctOfHoldings ?? 0) > (a.pctOfHoldings ?? 0) ? b : a));
+    reasons.push(largest.pctOfHoldings !== null && largest.pctOfHoldings >= UNUSUAL_PCT_OF_HOLDINGS
+      ? `${largest.name} grew their stake by ${(largest.pctOfHoldings * 100).toFixed(0)}%`
+      : `${unusualBuys.length} purchase${unusualBuys.length > 1 ? 's' : ''} of ${formatUsd(UNUSUAL_VALUE)} or more`);
+  }
+
+  if (purchaseValue >= 5e6) score += 10;
+  else if (purchaseValue >= 1e6) score += 5;
+
+  if (saleValue > 2 * purchaseValue && saleValue > 0) {
+    score -= 15;
+    reasons.push(`Insiders sold ${formatUsd(saleValue)}, more than twice what they bought`);
+  }
+
+  score = Math.max(0, Math.min(100, score));
+  const strength: InsiderSignal['strength'] = score >= 60 ? 'strong' : score >= 35 ? 'moderate' : score >= 15 ? 'weak' : 'none';
+
+  return { score, strength, buyers, purchaseValue: Math.round(purchaseValue), reasons };
+}
+
+/**
+ * Insider buying signal for a ticker from Form 4 transactions and the roster
+ */
+export async function computeInsiderSignal(ticker: string, lookbackDays = 180, clusterWindowDays = 30): Promise<InsiderSignal> {
+  const runtimeContext = new RuntimeContext();
+  const [trading, roster] = await Promise.all([
+    fmpInsiderTrading.execute({ context: { ticker, limit: 200 }, runtimeContext }),
+    // The roster only fills in holdings for Form 4 rows that lack them
+    fmpInsiderRoster.execute({ context: { ticker }, runtimeContext }).catch(() => ({ data: [] as TransactionRow[] })),
+  ]);
+
+  const since = new Date(Date.now() - lookbackDays * DAY_MS).toISOString().slice(0, 10);
+  const { purchases, saleValue } = parseTransactions(
+    (trading.data as TransactionRow[]).filter(row => row && typeof row === 'object'),
+    since,
+    rosterHoldings((roster.data as TransactionRow[]).filter(row => row && typeof row === 'object'))
+  );
+
+  const cluster = findCluster(purchases, clusterWindowDays);
+  const executiveBuys = purchases.filter(p => CEO_PATTERN.test(p.title) || CFO_PATTERN.test(p.title));
+  const unusualBuys = purchases.filter(p =>
+    (p.pctOfHoldings !== null && p.pctOfHoldings >= UNUSUAL_PCT_OF_HOLDINGS) || p.value >= UNUSUAL_VALUE
+  );
+
+  return {
+    ticker,
+    ...scoreSignal(purchases, saleValue, cluster, executiveBuys, unusualBuys),
+    lookbackDays,
+    saleValue: Math.round(saleValue),
+    cluster,
+    executiveBuys,
+    unusualBuys,
+    asOf: new Date().toISOString().slice(0, 10),
+  };
+}
+
+// Insider Buying Signal Tool
+const insiderSignalOutputSchema = z.object({
+  signal: insiderSignalSchema,
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+export const insiderBuyingSignalTool = createTool({
+  id: 'insider-buying-signal',
+  description: `Score insider buying for a ticker from Form 4 filings.
+
+Looks at open-market purchases (transaction code P; option exercises and
+grants are ignored) over the lookback window and detects:
+- Clusters: three or more different insiders buying within the cluster window
+- CEO and CFO purchases
+- Unusual size: a buy that grows the insider's stake by 20%+ (holdings from
+  the Form 4, or the insider roster when the Form 4 lacks them), or is worth $1M+
+
+Returns a 0-100 score with a strength (none / weak / moderate / strong), the
+cluster, executive and unusual buys, and the reasons behind the score. Heavy
+net selling lowers the score.`,
+  inputSchema: z.object({
+    ticker: z.string().min(1).describe('Stock ticker symbol'),
+    lookbackDays: z.number().min(30).max(730).default(180).describe('How far back to look at transactions'),
+    clusterWindowDays: z.number().min(7).max(90).default(30).describe('Window in which purchases by different insiders count as a cluster'),
+  }),
+  outputSchema: insiderSignalOutputSchema,
+  execute: async ({ context }) => {
+    const { lookbackDays, clusterWindowDays } = context;
+
+    return {
+      signal: await computeInsiderSignal(context.ticker.toUpperCase(), lookbackDays, clusterWindowDays),
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+/**
+ * Signals from an agent run's insider signal tool calls, keyed by ticker
+ */
+export function collectInsiderSignals(toolResults: Array<{ payload: { result: unknown } }>): Map<string, InsiderSignal> {
+  const signals = new Map<string, InsiderSignal>();
+
+  for (const { payload } of toolResults) {
+    const parsed = insiderSignalOutputSchema.safeParse(payload.result);
+    if (parsed.success) signals.set(parsed.data.signal.ticker, parsed.data.signal);
+  }
+
+  return signals;
+}
@@ -1,17 +1,45 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 
+/**
+ * Document stored in the knowledge base
+ */
+export interface WisdomDocument {
+  /** Stable id; upserting the same id again replaces the stored chunk */
+  id: string;
+  content: string;
+  metadata: Record<string, unknown> & { category: string };
+}
+
+/**
+ * Scored search result from the knowledge base
+ */
+export interface WisdomSearchResult {
+  content: string;
+  score: number;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Minimal vector index contract used by the knowledge base tool
+ * Implemented by rag.ts (pgvector-backed or in-memory)
+ */
+export interface WisdomIndex {
+  query: (params: { query: string; topK: number; filter?: { category: string } }) => Promise<WisdomSearchResult[]>;
+  upsert: (documents: WisdomDocument[]) => Promise<void>;
+}
+
 /**
  * Vector index instance
  * Will be initialized by the RAG setup module
  */
-let vectorIndex: any = null;
+let vectorIndex: WisdomIndex | null = null;
 
 /**
  * Set the vector index for the knowledge base tool
  * Called during initialization from rag.ts
  */
-export function setVectorIndex(index: any): void {
+export function setVectorIndex(index: WisdomIndex): void {
   vectorIndex = index;
 }
 
@@ -84,9 +112,9 @@ Use this tool when you need to reference investment principles, historical examp
 
       return {
         query,
-        results: results.map((result: any) => ({
+        results: results.map((result) => ({
           content: result.content,
-          category: result.metadata?.category || 'unknown',
+          category: typeof result.metadata.category === 'string' ? result.metadata.category : 'unknown',
           score: result.score,
           metadata: result.metadata,
         })),
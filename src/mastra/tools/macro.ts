@@ -0,0 +1,306 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { fmpGet } from './fmp-client';
+import { fmpHistoricalPrices } from './fmp-prices';
+import {
+  creditSpreadsSchema,
+  sectorRotationSchema,
+  treasuryYieldsSchema,
+  type CreditProxy,
+  type CreditSpreads,
+  type CurveShape,
+  type SectorReturn,
+  type SectorRotation,
+  type TreasuryYields,
+} from '@/src/types/macro';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Row = Record<string, unknown>;
+
+/** Trading days in one and three months */
+const ONE_MONTH = 21;
+const THREE_MONTHS = 63;
+
+/**
+ * Credit ETFs measured against intermediate treasuries; the first pair sets
+ * the regime
+ */
+const CREDIT_PROXIES = [
+  { label: 'High yield', credit: 'HYG', treasury: 'IEF' },
+  { label: 'Investment grade', credit: 'LQD', treasury: 'IEF' },
+];
+
+/** FMP sector keys (before `ChangesPercentage`), display names and cycle group */
+const SECTORS: Array<{ key: string; name: string; group: SectorReturn['group'] }> = [
+  { key: 'basicMaterials', name: 'Basic Materials', group: 'cyclical' },
+  { key: 'consumerCyclical', name: 'Consumer Cyclical', group: 'cyclical' },
+  { key: 'energy', name: 'Energy', group: 'cyclical' },
+  { key: 'financialServices', name: 'Financial Services', group: 'cyclical' },
+  { key: 'industrials', name: 'Industrials', group: 'cyclical' },
+  { key: 'technology', name: 'Technology', group: 'cyclical' },
+  { key: 'consumerDefensive', name: 'Consumer Defensive', group: 'defensive' },
+  { key: 'healthcare', name: 'Healthcare', group: 'defensive' },
+  { key: 'utilities', name: 'Utilities', group: 'defensive' },
+  { key: 'communicationServices', name: 'Communication Services', group: 'neutral' },
+  { key: 'realEstate', name: 'Real Estate', group: 'neutral' },
+];
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function round(value: number, digits = 4): number {
+  return Number(value.toFixed(digits));
+}
+
+function isoDate(daysAgo: number): string {
+  return new Date(Date.now() - daysAgo * DAY_MS).toISOString().slice(0, 10);
+}
+
+function rows(data: unknown): Row[] {
+  return Array.isArray(data) ? data.filter((row): row is Row => !!row && typeof row === 'object') : [];
+}
+
+/**
+ * Newest first by `date`
+ */
+function byDateDesc(data: Row[]): Row[] {
+  return [...data].sort((a, b) => String(b.date).localeCompare(String(a.date)));
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+// Treasury Yields Tool
+const treasuryYieldsOutputSchema = z.object({
+  treasury: treasuryYieldsSchema,
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+function curveShape(spread10y2y: number): CurveShape {
+  if (spread10y2y < 0) return 'inverted';
+  if (spread10y2y < 50) return 'flat';
+  if (spread10y2y < 150) return 'normal';
+  return 'steep';
+}
+
+export const treasuryYieldsTool = createTool({
+  id: 'treasury-yields',
+  description: `Current US treasury yields and the shape of the yield curve.
+
+Returns the 3-month, 2, 5, 10 and 30-year yields, their change over about three
+months in basis points, the 10y-2y and 10y-3m spreads, the curve shape
+(inverted / flat / normal / steep) and whether it is steepening or flattening.
+
+An inverted curve has preceded most recessions; a curve re-steepening out of
+inversion because short rates fall often comes as the slowdown arrives.`,
+  inputSchema: z.object({}),
+  outputSchema: treasuryYieldsOutputSchema,
+  execute: async () => {
+    const history = byDateDesc(rows(await fmpGet<unknown>('/v4/treasury', { from: isoDate(120), to: isoDate(0) })));
+    const latest = history[0];
+    if (!latest) {
+      throw new Error('No treasury yield data available');
+    }
+
+    // Closest observation at least three months back
+    const target = new Date(new Date(`${String(latest.date)}T00:00:00Z`).getTime() - 91 * DAY_MS).toISOString().slice(0, 10);
+    const prior = history.find(row => String(row.date) <= target) ?? history[history.length - 1];
+
+    const bps = (a: number | null, b: number | null) => (a !== null && b !== null ? Math.round((a - b) * 100) : null);
+    const yieldOf = (row: Row, field: string) => num(row[field]);
+
+    const spread10y2y = bps(yieldOf(latest, 'year10'), yieldOf(latest, 'year2'));
+    const priorSpread = bps(yieldOf(prior, 'year10'), yieldOf(prior, 'year2'));
+    const spreadChange = spread10y2y !== null && priorSpread !== null && prior !== latest ? spread10y2y - priorSpread : null;
+    const trend: TreasuryYields['curve']['trend'] =
+      spreadChange === null ? 'stable' : spreadChange > 25 ? 'steepening' : spreadChange < -25 ? 'flattening' : 'stable';
+
+    return {
+      treasury: {
+        asOf: String(latest.date),
+        yields: {
+          month3: yieldOf(latest, 'month3'),
+          year2: yieldOf(latest, 'year2'),
+          year5: yieldOf(latest, 'year5'),
+          year10: yieldOf(latest, 'year10'),
+          year30: yieldOf(latest, 'year30'),
+        },
+        change3m: {
+          month3: bps(yieldOf(latest, 'month3'), yieldOf(prior, 'month3')),
+          year2: bps(yieldOf(latest, 'year2'), yieldOf(prior, 'year2')),
+          year10: bps(yieldOf(latest, 'year10'), yieldOf(prior, 'year10')),
+        },
+        curve: {
+          spread10y2y,
+          spread10y3m: bps(yieldOf(latest, 'year10'), yieldOf(latest, 'month3')),
+          shape: curveShape(spread10y2y ?? 0),
+          trend,
+        },
+      },
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+// Credit Spreads Tool
+const creditSpreadsOutputSchema = z.object({
+  credit: creditSpreadsSchema,
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+/**
+ * Dividend-adjusted closes, newest first
+ */
+async function adjustedCloses(ticker: string, runtimeContext: RuntimeContext): Promise<{ asOf: string; closes: number[] }> {
+  const prices = await fmpHistoricalPrices.execute({
+    context: { ticker, from: isoDate(120), to: isoDate(0), timeseries: THREE_MONTHS + 1 },
+    runtimeContext,
+  });
+  const sorted = byDateDesc(rows(prices.data));
+
+  return {
+    asOf: String(sorted[0]?.date ?? ''),
+    closes: sorted.map(row => num(row.adjClose) ?? num(row.close)).filter((close): close is number => close !== null && close > 0),
+  };
+}
+
+function periodReturn(closes: number[], days: number): number | null {
+  return closes.length > days ? closes[0] / closes[days] - 1 : null;
+}
+
+export const creditSpreadsTool = createTool({
+  id: 'credit-spreads',
+  description: `Credit spread direction from ETF proxies.
+
+FMP has no option-adjusted spread series, so this compares the total return of
+high yield (HYG) and investment grade (LQD) bond ETFs with intermediate
+treasuries (IEF) over one and three months. Credit lagging treasuries means
+spreads are widening; credit outperforming means they are tightening.
+
+Returns each proxy's relative return and a regime (tightening / stable /
+widening) read from high yield. Widening high yield spreads tend to lead
+equity drawdowns and mark the start of distressed cycles.`,
+  inputSchema: z.object({}),
+  outputSchema: creditSpreadsOutputSchema,
+  execute: async () => {
+    const runtimeContext = new RuntimeContext();
+    const tickers = [...new Set(CREDIT_PROXIES.flatMap(p => [p.credit, p.treasury]))];
+    const series = new Map(await Promise.all(
+      tickers.map(async ticker => [ticker, await adjustedCloses(ticker, runtimeContext)] as const)
+    ));
+
+    const relative = (credit: number[], treasury: number[], days: number) => {
+      const c = periodReturn(credit, days);
+      const t = periodReturn(treasury, days);
+      return c !== null && t !== null ? round(c - t) : null;
+    };
+
+    const proxies: CreditProxy[] = CREDIT_PROXIES.map(proxy => {
+      const credit = series.get(proxy.credit)?.closes ?? [];
+      const treasury = series.get(proxy.treasury)?.closes ?? [];
+      return {
+        label: proxy.label,
+        pair: `${proxy.credit} vs ${proxy.treasury}`,
+        relativeReturn1m: relative(credit, treasury, ONE_MONTH),
+        relativeReturn3m: relative(credit, treasury, THREE_MONTHS),
+      };
+    });
+
+    const highYield3m = proxies[0].relativeReturn3m;
+    const highYield1m = proxies[0].relativeReturn1m;
+    const regime: CreditSpreads['regime'] =
+      (highYield3m !== null && highYield3m <= -0.02) || (highYield1m !== null && highYield1m <= -0.015) ? 'widening'
+        : highYield3m !== null && highYield3m >= 0.02 ? 'tightening'
+          : 'stable';
+
+    return {
+      credit: {
+        asOf: series.get(CREDIT_PROXIES[0].credit)?.asOf ?? '',
+        proxies,
+        regime,
+      },
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+// Sector Rotation Tool
+const sectorRotationOutputSchema = z.object({
+  rotation: sectorRotationSchema,
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+/**
+ * Compounded return over the newest `days` daily percentage changes
+ */
+function compounded(history: Row[], field: string, days: number): number | null {
+  if (history.length < days) return null;
+
+  let growth = 1;
+  for (const row of history.slice(0, days)) {
+    const change = num(row[field]);
+    if (change === null) return null;
+    growth *= 1 + change / 100;
+  }
+  return round(growth - 1);
+}
+
+export const sectorRotationTool = createTool({
+  id: 'sector-rotation',
+  description: `One and three-month sector returns and the cyclical versus defensive spread.
+
+Compounds FMP's daily sector performance (the same sectors as
+fmp-sector-performance, which only shows today's move) and groups sectors
+into cyclical (materials, consumer cyclical, energy, financials, industrials,
+technology) and defensive (consumer defensive, healthcare, utilities).
+
+Returns sectors ranked by three-month return and a regime: risk_on when
+cyclicals lead defensives by 2%+ over three months, risk_off when they trail
+by 2%+, otherwise mixed. Defensive leadership is typical late in the cycle
+and in contractions.`,
+  inputSchema: z.object({}),
+  outputSchema: sectorRotationOutputSchema,
+  execute: async () => {
+    const history = byDateDesc(rows(await fmpGet<unknown>('/historical-sectors-performance', { limit: THREE_MONTHS })));
+    if (history.length === 0) {
+      throw new Error('No historical sector performance available');
+    }
+
+    const sectors: SectorReturn[] = SECTORS
+      .map(sector => ({
+        sector: sector.name,
+        group: sector.group,
+        return1m: compounded(history, `${sector.key}ChangesPercentage`, ONE_MONTH),
+        return3m: compounded(history, `${sector.key}ChangesPercentage`, THREE_MONTHS),
+      }))
+      .sort((a, b) => (b.return3m ?? -Infinity) - (a.return3m ?? -Infinity));
+
+    const groupAverage = (group: SectorReturn['group']) =>
+      average(sectors.filter(s => s.group === group && s.return3m !== null).map(s => s.return3m as number));
+    const cyclical = groupAverage('cyclical');
+    const defensive = groupAverage('defensive');
+    const spread = cyclical !== null && defensive !== null ? round(cyclical - defensive) : null;
+    const regime: SectorRotation['regime'] =
+      spread === null ? 'mixed' : spread >= 0.02 ? 'risk_on' : spread <= -0.02 ? 'risk_off' : 'mixed';
+
+    return {
+      rotation: {
+        asOf: String(history[0].date ?? ''),
+        sectors,
+        cyclicalMinusDefensive3m: spread,
+        regime,
+      },
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
@@ -1,8 +1,7 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import ky from 'ky';
 import yahooFinance from 'yahoo-finance2';
-import { config } from '../config';
+import { fmpGet } from './fmp-client';
 
 /**
  * Supported data types for market data
@@ -33,11 +32,6 @@ const outputSchema = z.object({
   timestamp: z.string(),
 });
 
-/**
- * FMP API base URL
- */
-const FMP_BASE_URL = 'https://financialmodelingprep.com/api/v3';
-
 /**
  * Fetch data from FMP API
  */
@@ -54,14 +48,7 @@ async function fetchFromFMP(ticker: string, dataType: string) {
     throw new Error(`Unknown data type: ${dataType}`);
   }
 
-  const response = await ky.get(`${FMP_BASE_URL}${endpoint}`, {
-    searchParams: {
-      apikey: config.fmpApiKey,
-    },
-    timeout: 10000, // 10 second timeout
-  }).json<any>();
-
-  return response;
+  return fmpGet(endpoint);
 }
 
 /**
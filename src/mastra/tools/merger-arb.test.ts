@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { stockConsideration } from './merger-arb';
+
+describe('stockConsideration', () => {
+  it('pays the exchange ratio at market without a collar', () => {
+    expect(stockConsideration(0.5, undefined, 40)).toBe(20);
+  });
+
+  describe('fixed ratio collar', () => {
+    const collar = { type: 'fixed_ratio' as const, lowerPrice: 30, upperPrice: 50 };
+
+    it('pays the ratio at market inside the band', () => {
+      expect(stockConsideration(0.5, collar, 40)).toBe(20);
+    });
+
+    it('pins the value to the nearest bound outside the band', () => {
+      expect(stockConsideration(0.5, collar, 60)).toBe(25);
+      expect(stockConsideration(0.5, collar, 20)).toBe(15);
+    });
+  });
+
+  describe('fixed value collar', () => {
+    const collar = { type: 'fixed_value' as const, stockValue: 20, lowerPrice: 30, upperPrice: 50 };
+
+    it('delivers the fixed value inside the band', () => {
+      expect(stockConsideration(0, collar, 30)).toBeCloseTo(20, 10);
+      expect(stockConsideration(0, collar, 45)).toBeCloseTo(20, 10);
+    });
+
+    it('fixes the share count at the nearest bound outside the band', () => {
+      // 0.4 shares above the band, 2/3 of a share below it
+      expect(stockConsideration(0, collar, 60)).toBeCloseTo(24, 10);
+      expect(stockConsideration(0, collar, 24)).toBeCloseTo(16, 10);
+    });
+  });
+});
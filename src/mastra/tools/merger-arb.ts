@@ -0,0 +1,213 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { fmpPriceSnapshot, fmpHistoricalPrices } from './fmp-prices';
+import { dealTermsSchema, type DealCollar, type DealTerms } from '@/src/types/merger-arb';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function round(value: number | null, digits = 4): number | null {
+  return value === null ? null : Number(value.toFixed(digits));
+}
+
+async function livePrice(ticker: string, runtimeContext: RuntimeContext): Promise<number> {
+  const snapshot = await fmpPriceSnapshot.execute({ context: { ticker }, runtimeContext });
+  const price = num(snapshot.data?.price);
+  if (price === null || price <= 0) {
+    throw new Error(`No live price available for ${ticker}`);
+  }
+  return price;
+}
+
+/**
+ * Last close before the announcement date
+ */
+async function unaffectedClose(ticker: string, announcementDate: string, runtimeContext: RuntimeContext): Promise<number | null> {
+  const announced = new Date(`${announcementDate}T00:00:00Z`).getTime();
+  const from = new Date(announced - 10 * DAY_MS).toISOString().slice(0, 10);
+  const to = new Date(announced - DAY_MS).toISOString().slice(0, 10);
+
+  const history = await fmpHistoricalPrices.execute({ context: { ticker, from, to, timeseries: 10 }, runtimeContext });
+  const closes = (history.data as Array<{ date?: string; close?: unknown }>)
+    .filter(d => typeof d.date === 'string' && d.date < announcementDate && num(d.close) !== null)
+    .sort((a, b) => (b.date! > a.date! ? 1 : -1));
+
+  return closes.length > 0 ? num(closes[0].close) : null;
+}
+
+/**
+ * Value of the stock consideration per target share at an acquirer price
+ */
+export function stockConsideration(stockRatio: number, collar: DealCollar | undefined, acquirerPrice: number): number {
+  if (!collar) return stockRatio * acquirerPrice;
+
+  const pinned = Math.min(collar.upperPrice, Math.max(collar.lowerPrice, acquirerPrice));
+  if (collar.type === 'fixed_ratio') {
+    return stockRatio * pinned;
+  }
+  // Fixed value: shares issued = stockValue / pinned price
+  return (collar.stockValue / pinned) * acquirerPrice;
+}
+
+async function computeSpread(terms: DealTerms) {
+  const runtimeContext = new RuntimeContext();
+  const warnings: string[] = [];
+  const hasStock = terms.stockRatio > 0 || terms.collar?.type === 'fixed_value';
+
+  if (hasStock && !terms.acquirerTicker) {
+    throw new Error('acquirerTicker is required when the deal includes stock consideration');
+  }
+  if (terms.collar && terms.collar.lowerPrice >= terms.collar.upperPrice) {
+    throw new Error('Collar lowerPrice must be below upperPrice');
+  }
+  if (terms.collar?.type === 'fixed_ratio' && terms.stockRatio <= 0) {
+    throw new Error('A fixed_ratio collar needs a stockRatio');
+  }
+
+  const [targetPrice, acquirerPrice] = await Promise.all([
+    livePrice(terms.targetTicker, runtimeContext),
+    hasStock ? livePrice(terms.acquirerTicker!, runtimeContext) : Promise.resolve(null),
+  ]);
+
+  const stockValue = acquirerPrice !== null ? stockConsideration(terms.stockRatio, terms.collar, acquirerPrice) : 0;
+  const dealValue = terms.cashPerShare + stockValue;
+  if (dealValue <= 0) {
+    throw new Error('Deal terms give no consideration; set cashPerShare and/or stockRatio');
+  }
+
+  const effectiveRatio = acquirerPrice !== null && acquirerPrice > 0 ? stockValue / acquirerPrice : 0;
+  if (terms.collar && acquirerPrice !== null
+    && (acquirerPrice < terms.collar.lowerPrice || acquirerPrice > terms.collar.upperPrice)) {
+    warnings.push(`Acquirer price $${acquirerPrice.toFixed(2)} is outside the collar; the stock value is no longer protected`);
+  }
+
+  const grossSpread = dealValue - targetPrice;
+  const grossSpreadPct = grossSpread / targetPrice;
+
+  const daysToClose = Math.ceil((new Date(`${terms.expectedCloseDate}T00:00:00Z`).getTime() - Date.now()) / DAY_MS);
+  let annualizedReturn: number | null = null;
+  if (daysToClose > 0) {
+    annualizedReturn = (1 + grossSpreadPct) ** (365 / daysToClose) - 1;
+    if (daysToClose < 14) warnings.push('Close is under two weeks away; the annualized return overstates the opportunity');
+  } else {
+    warnings.push('Expected close date has passed; annualized return not computed');
+  }
+
+  let unaffectedPrice = terms.unaffectedPrice ?? null;
+  let unaffectedSource: 'input' | 'historical' | null = unaffectedPrice !== null ? 'input' : null;
+  if (unaffectedPrice === null && terms.announcementDate) {
+    unaffectedPrice = await unaffectedClose(terms.targetTicker, terms.announcementDate, runtimeContext);
+    if (unaffectedPrice !== null) unaffectedSource = 'historical';
+  }
+
+  // Price = p * dealValue + (1 - p) * breakPrice, with the unaffected price as the break price
+  let impliedBreakProbability: number | null = null;
+  let downsideToUnaffected: number | null = null;
+  if (unaffectedPrice === null) {
+    warnings.push('No unaffected price (pass unaffectedPrice or announcementDate); break probability and downside not computed');
+  } else {
+    downsideToUnaffected = unaffectedPrice / targetPrice - 1;
+    if (dealValue > unaffectedPrice) {
+      const completion = (targetPrice - unaffectedPrice) / (dealValue - unaffectedPrice);
+      impliedBreakProbability = Math.min(1, Math.max(0, 1 - completion));
+    } else {
+      warnings.push('Deal value is at or below the unaffected price; break probability is not meaningful');
+    }
+    if (targetPrice > dealValue) {
+      warnings.push('Target trades above the deal value: the market expects a higher bid or better terms');
+    }
+  }
+
+  return {
+    terms,
+    targetPrice,
+    acquirerPrice,
+    dealValue: round(dealValue)!,
+    cashComponent: terms.cashPerShare,
+    stockComponent: round(stockValue)!,
+    effectiveStockRatio: round(effectiveRatio),
+    grossSpread: round(grossSpread)!,
+    grossSpreadPct: round(grossSpreadPct)!,
+    daysToClose,
+    annualizedReturn: round(annualizedReturn),
+    unaffectedPrice,
+    unaffectedPriceSource: unaffectedSource,
+    impliedBreakProbability: round(impliedBreakProbability),
+    downsideToUnaffected: round(downsideToUnaffected),
+    // Per target share: long 1 target, short the effective ratio of acquirer shares
+    hedge: hasStock && acquirerPrice !== null
+      ? `Short ${round(effectiveRatio, 4)} ${terms.acquirerTicker} shares per ${terms.targetTicker} share to lock in the stock component`
+      : null,
+    warnings,
+  };
+}
+
+// Merger Arbitrage Spread Tool
+const mergerArbOutputSchema = z.object({
+  terms: dealTermsSchema,
+  targetPrice: z.number(),
+  acquirerPrice: z.number().nullable(),
+  dealValue: z.number(),
+  cashComponent: z.number(),
+  stockComponent: z.number(),
+  effectiveStockRatio: z.number().nullable(),
+  grossSpread: z.number(),
+  grossSpreadPct: z.number(),
+  daysToClose: z.number(),
+  annualizedReturn: z.number().nullable(),
+  unaffectedPrice: z.number().nullable(),
+  unaffectedPriceSource: z.enum(['input', 'historical']).nullable(),
+  impliedBreakProbability: z.number().nullable(),
+  downsideToUnaffected: z.number().nullable(),
+  hedge: z.string().nullable(),
+  warnings: z.array(z.string()),
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+export const mergerArbSpreadTool = createTool({
+  id: 'merger-arb-spread',
+  description: `Compute the merger arbitrage spread for an announced deal from its terms and live prices.
+
+Takes cash per share, the stock exchange ratio, an optional collar
+(fixed_ratio or fixed_value, on the acquirer's price) and the expected close
+date, then prices the target and acquirer. Returns the deal value per share,
+gross spread ($ and %), days to close, annualized return, the break
+probability implied by the price (using the unaffected price as the break
+price), downside to the unaffected price and the hedge ratio for stock deals.
+Pass announcementDate to look up the unaffected price automatically.`,
+  inputSchema: dealTermsSchema,
+  outputSchema: mergerArbOutputSchema,
+  execute: async ({ context }) => {
+    const terms = {
+      ...context,
+      targetTicker: context.targetTicker.toUpperCase(),
+      acquirerTicker: context.acquirerTicker?.toUpperCase(),
+    };
+
+    return {
+      ...(await computeSpread(terms)),
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+/**
+ * Deal terms from an agent run's spread tool calls, keyed by target ticker;
+ * the last call per target wins
+ */
+export function collectDealTerms(toolResults: Array<{ payload: { result: unknown } }>): Map<string, DealTerms> {
+  const terms = new Map<string, DealTerms>();
+
+  for (const { payload } of toolResults) {
+    const parsed = mergerArbOutputSchema.safeParse(payload.result);
+    if (parsed.success) terms.set(parsed.data.terms.targetTicker, parsed.data.terms);
+  }
+
+  return terms;
+}
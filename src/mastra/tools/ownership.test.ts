@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { computeOwnershipDelta } from './ownership';
+import type { HolderPosition } from '@/src/types/ownership';
+
+function position(holder: string, shares: number, change = 0, overrides: Partial<HolderPosition> = {}): HolderPosition {
+  return { holder, holderType: 'institution', shares, change, dateReported: '2025-09-30', ...overrides };
+}
+
+describe('computeOwnershipDelta', () => {
+  it('derives prior positions from the reported change when no quarter is stored', () => {
+    const delta = computeOwnershipDelta('MOCK', [
+      position('Alpha Capital', 1000, 200),
+      position('Beta Partners', 500, 500, { dateReported: '2025-10-15' }),
+      position('Berkshire Hathaway Inc', 300, -100),
+      position('Gamma Index Fund', 100, 0, { holderType: 'mutual_fund' }),
+    ]);
+
+    expect(delta.basis).toBe('reported_change');
+    expect(delta.reportDate).toBe('2025-10-15');
+    expect(delta.priorReportDate).toBeNull();
+    expect(delta.counts).toEqual({ new: 1, exits: 0, adds: 1, trims: 1 });
+    expect(delta.warnings).toHaveLength(1);
+
+    // Totals use institutions only, so the mutual fund is left out
+    expect(delta.sharesPrior).toBe(1200);
+    expect(delta.sharesCurrent).toBe(1800);
+    expect(delta.netShareChange).toBe(600);
+    expect(delta.netChangePct).toBe(0.5);
+    expect(delta.trend).toBe('accumulating');
+
+    expect(delta.notableMoves.map(m => m.holder)).toEqual(['Berkshire Hathaway Inc']);
+    expect(delta.topBuyers.map(m => m.holder)).toEqual(['Beta Partners', 'Alpha Capital']);
+    expect(delta.topSellers.map(m => m.holder)).toEqual(['Berkshire Hathaway Inc']);
+  });
+
+  it('diffs against a stored quarter and counts missing holders as exits', () => {
+    const delta = computeOwnershipDelta(
+      'MOCK',
+      [position('Alpha Capital', 990), position('Delta Fund', 50)],
+      { reportDate: '2025-06-30', positions: [position('Alpha Capital', 1000), position('Charlie Group', 400)] }
+    );
+
+    expect(delta.basis).toBe('stored_history');
+    expect(delta.priorReportDate).toBe('2025-06-30');
+    expect(delta.counts).toEqual({ new: 1, exits: 1, adds: 0, trims: 1 });
+    expect(delta.sharesPrior).toBe(1400);
+    expect(delta.sharesCurrent).toBe(1040);
+    expect(delta.netChangePct).toBe(-0.2571);
+    expect(delta.trend).toBe('distributing');
+    expect(delta.topSellers.map(m => [m.holder, m.action])).toEqual([
+      ['Charlie Group', 'exit'],
+      ['Alpha Capital', 'trim'],
+    ]);
+    expect(delta.warnings).toEqual([]);
+  });
+
+  it('treats a small net change as neutral', () => {
+    const delta = computeOwnershipDelta('MOCK', [position('Alpha Capital', 1010, 10)]);
+
+    expect(delta.netChangePct).toBe(0.01);
+    expect(delta.trend).toBe('neutral');
+  });
+});
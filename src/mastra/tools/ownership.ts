@@ -0,0 +1,266 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { fmpInstitutionalHolders, fmpMutualFundHolders } from './fmp-insider';
+import {
+  ownershipDeltaSchema,
+  type HolderPosition,
+  type HolderType,
+  type OwnershipChange,
+  type OwnershipDelta,
+} from '@/src/types/ownership';
+
+type HolderRow = Record<string, unknown>;
+
+/**
+ * Concentrated value, activist and hedge fund managers whose moves are worth
+ * calling out; index and quant giants are left off because their buying
+ * follows flows, not conviction
+ */
+const NOTABLE_FUNDS: RegExp[] = [
+  /berkshire hathaway/i,
+  /baupost/i,
+  /pershing square/i,
+  /greenlight capital/i,
+  /appaloosa/i,
+  /third point/i,
+  /elliott (investment|management)/i,
+  /icahn/i,
+  /scion asset/i,
+  /fairholme/i,
+  /oaktree/i,
+  /starboard value/i,
+  /valueact/i,
+  /trian fund/i,
+  /jana partners/i,
+  /lone pine/i,
+  /viking global/i,
+  /tiger global/i,
+  /coatue/i,
+  /glenview/i,
+  /akre capital/i,
+  /markel/i,
+  /gotham asset/i,
+  /southeastern asset|longleaf/i,
+  /tweedy,? browne/i,
+  /first eagle/i,
+  /dodge & cox/i,
+  /davis selected/i,
+  /sequoia fund|ruane,? cunniff/i,
+  /abrams capital/i,
+];
+
+/** Net change in holder shares, as a fraction of prior shares, that sets the trend */
+const TREND_THRESHOLD = 0.02;
+
+const TOP_MOVERS = 5;
+
+function num(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function isNotableFund(holder: string): boolean {
+  return NOTABLE_FUNDS.some(pattern => pattern.test(holder));
+}
+
+function positionKey(position: { holder: string; holderType: HolderType }): string {
+  return `${position.holderType}|${position.holder.toUpperCase()}`;
+}
+
+/**
+ * One position per holder, keeping the most recent filing when FMP lists a
+ * holder more than once
+ */
+function toPositions(rows: HolderRow[], holderType: HolderType): HolderPosition[] {
+  const positions = new Map<string, HolderPosition>();
+
+  for (const row of rows) {
+    const holder = str(row.holder);
+    const shares = num(row.shares);
+    if (!holder || shares === null) continue;
+
+    const position: HolderPosition = {
+      holder,
+      holderType,
+      shares,
+      change: num(row.change) ?? 0,
+      dateReported: str(row.dateReported).slice(0, 10),
+    };
+    const existing = positions.get(positionKey(position));
+    if (!existing || position.dateReported > existing.dateReported) {
+      positions.set(positionKey(position), position);
+    }
+  }
+
+  return [...positions.values()];
+}
+
+/**
+ * Current institutional (13F) and mutual fund positions for a ticker
+ */
+export async function fetchHolderPositions(ticker: string, limit = 200): Promise<HolderPosition[]> {
+  const runtimeContext = new RuntimeContext();
+  const [institutions, funds] = await Promise.all([
+    fmpInstitutionalHolders.execute({ context: { ticker, limit }, runtimeContext }),
+    fmpMutualFundHolders.execute({ context: { ticker, limit }, runtimeContext }),
+  ]);
+  const rows = (data: unknown[]) => data.filter((row): row is HolderRow => !!row && typeof row === 'object');
+
+  return [
+    ...toPositions(rows(institutions.data), 'institution'),
+    ...toPositions(rows(funds.data), 'mutual_fund'),
+  ];
+}
+
+function toChange(
+  holder: string,
+  holderType: HolderType,
+  sharesPrior: number,
+  sharesCurrent: number
+): OwnershipChange {
+  const change = sharesCurrent - sharesPrior;
+  const action: OwnershipChange['action'] =
+    sharesPrior <= 0 && sharesCurrent > 0 ? 'new'
+      : sharesCurrent <= 0 && sharesPrior > 0 ? 'exit'
+        : change > 0 ? 'add'
+          : change < 0 ? 'trim'
+            : 'unchanged';
+
+  return {
+    holder,
+    holderType,
+    sharesPrior,
+    sharesCurrent,
+    change,
+    changePct: sharesPrior > 0 ? Number((change / sharesPrior).toFixed(4)) : null,
+    action,
+    notable: isNotableFund(holder),
+  };
+}
+
+/**
+ * Quarter-over-quarter ownership changes.
+ *
+ * With a stored prior quarter the positions are diffed against it, so holders
+ * that disappeared count as exits. Without one, each holder's prior position
+ * is its current shares less FMP's reported change, which cannot see exits.
+ * Share totals and the trend use 13F institutions when there are any, since
+ * mutual funds already sit inside their managers' 13Fs.
+ */
+export function computeOwnershipDelta(
+  ticker: string,
+  current: HolderPosition[],
+  prior: { reportDate: string; positions: HolderPosition[] } | null = null
+): OwnershipDelta {
+  const warnings: string[] = [];
+  const reportDate = current.reduce((latest, p) => (p.dateReported > latest ? p.dateReported : latest), '');
+  let changes: OwnershipChange[];
+
+  if (prior) {
+    const priorShares = new Map(prior.positions.map(p => [positionKey(p), p.shares]));
+    const currentKeys = new Set(current.map(positionKey));
+
+    changes = [
+      ...current.map(p => toChange(p.holder, p.holderType, priorShares.get(positionKey(p)) ?? 0, p.shares)),
+      ...prior.positions
+        .filter(p => !currentKeys.has(positionKey(p)))
+        .map(p => toChange(p.holder, p.holderType, p.shares, 0)),
+    ];
+
+    if (current.length < prior.positions.length * 0.8) {
+      warnings.push(`${prior.positions.length} holders were stored for ${prior.reportDate} against ${current.length} now; some exits may be holders that dropped off FMP's list`);
+    }
+  } else {
+    changes = current.map(p => toChange(p.holder, p.holderType, Math.max(0, p.shares - p.change), p.shares));
+    warnings.push('No stored prior quarter: changes come from FMP\'s reported change, so exits are not visible');
+  }
+
+  const institutional = changes.filter(c => c.holderType === 'institution');
+  const totalled = institutional.length > 0 ? institutional : changes;
+  const sharesPrior = totalled.reduce((sum, c) => sum + c.sharesPrior, 0);
+  const sharesCurrent = totalled.reduce((sum, c) => sum + c.sharesCurrent, 0);
+  const netShareChange = sharesCurrent - sharesPrior;
+  const netChangePct = sharesPrior > 0 ? Number((netShareChange / sharesPrior).toFixed(4)) : null;
+  const trend: OwnershipDelta['trend'] =
+    netChangePct === null ? (netShareChange > 0 ? 'accumulating' : 'neutral')
+      : netChangePct >= TREND_THRESHOLD ? 'accumulating'
+        : netChangePct <= -TREND_THRESHOLD ? 'distributing'
+          : 'neutral';
+
+  const count = (action: OwnershipChange['action']) => changes.filter(c => c.action === action).length;
+  const byChange = [...changes].sort((a, b) => b.change - a.change);
+
+  return {
+    ticker,
+    reportDate,
+    priorReportDate: prior?.reportDate ?? null,
+    basis: prior ? 'stored_history' : 'reported_change',
+    holders: current.length,
+    counts: { new: count('new'), exits: count('exit'), adds: count('add'), trims: count('trim') },
+    sharesPrior,
+    sharesCurrent,
+    netShareChange,
+    netChangePct,
+    trend,
+    notableMoves: changes.filter(c => c.notable && c.action !== 'unchanged'),
+    topBuyers: byChange.filter(c => c.change > 0).slice(0, TOP_MOVERS),
+    topSellers: byChange.filter(c => c.change < 0).reverse().slice(0, TOP_MOVERS),
+    warnings,
+  };
+}
+
+// Institutional Ownership Changes Tool
+const ownershipOutputSchema = z.object({
+  ownership: ownershipDeltaSchema,
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+export const institutionalOwnershipTool = createTool({
+  id: 'institutional-ownership-changes',
+  description: `Quarter-over-quarter institutional and mutual fund ownership changes for a ticker.
+
+Classifies every 13F institution and mutual fund holder as a new position,
+add, trim or unchanged (exits show up once a prior quarter has been stored),
+and returns:
+- Counts of new positions, exits, adds and trims
+- Net change in institutional shares and whether holders are accumulating or distributing
+- Moves by notable funds (Berkshire, Baupost, Pershing Square, activists and similar)
+- The largest buyers and sellers
+
+Use this to judge whether smart money is building or leaving the position.
+Index funds move with flows, so weight notable-fund moves over the totals.`,
+  inputSchema: z.object({
+    ticker: z.string().min(1).describe('Stock ticker symbol'),
+  }),
+  outputSchema: ownershipOutputSchema,
+  execute: async ({ context }) => {
+    const ticker = context.ticker.toUpperCase();
+
+    return {
+      ownership: computeOwnershipDelta(ticker, await fetchHolderPositions(ticker)),
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+/**
+ * Ownership changes from an agent run's ownership tool calls, one per ticker
+ */
+export function collectOwnershipDeltas(toolResults: Array<{ payload: { result: unknown } }>): OwnershipDelta[] {
+  const deltas = new Map<string, OwnershipDelta>();
+
+  for (const { payload } of toolResults) {
+    const parsed = ownershipOutputSchema.safeParse(payload.result);
+    if (parsed.success) deltas.set(parsed.data.ownership.ticker, parsed.data.ownership);
+  }
+
+  return [...deltas.values()];
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { computeDcf, computeEpv, type Financials } from './valuation';
+
+function financials(overrides: Partial<Financials> = {}): Financials {
+  const years = ['2024', '2023', '2022'];
+  return {
+    ticker: 'MOCK',
+    income: years.map(calendarYear => ({
+      calendarYear,
+      revenue: 1000,
+      operatingIncome: 200,
+      incomeBeforeTax: 200,
+      incomeTaxExpense: 50,
+      weightedAverageShsOutDil: 10,
+    })),
+    balance: years.map(() => ({
+      totalDebt: 50,
+      cashAndShortTermInvestments: 20,
+      propertyPlantEquipmentNet: 500,
+    })),
+    cashFlow: years.map(() => ({
+      freeCashFlow: 100,
+      depreciationAndAmortization: 50,
+      capitalExpenditure: -50,
+    })),
+    price: 50,
+    ...overrides,
+  };
+}
+
+function line(estimate: ReturnType<typeof computeDcf>, label: string): number | undefined {
+  return estimate.breakdown.find(l => l.label === label)?.value;
+}
+
+describe('computeDcf', () => {
+  it('values flat cash flows as a perpetuity', () => {
+    const estimate = computeDcf(financials(), { discountRate: 0.1, stage1Growth: 0, terminalGrowth: 0 });
+
+    expect(line(estimate, 'Enterprise value')).toBeCloseTo(1000, 6);
+    expect(estimate.equityValue).toBeCloseTo(970, 6);
+    expect(estimate.valuePerShare).toBeCloseTo(97, 6);
+    expect(estimate.price).toBe(50);
+    expect(estimate.marginOfSafety).toBeCloseTo(1 - 50 / 97, 6);
+    expect(estimate.fiscalYear).toBe('2024');
+  });
+
+  it('fades stage 1 growth to terminal growth', () => {
+    const estimate = computeDcf(financials(), {
+      discountRate: 0.1,
+      stage1Growth: 0.05,
+      stage1Years: 1,
+      stage2Years: 1,
+      terminalGrowth: 0.02,
+    });
+
+    // Year 1 grows 5%; year 2 has faded all the way to the 2% terminal rate
+    const year1 = 100 * 1.05;
+    const year2 = year1 * 1.02;
+    expect(line(estimate, 'PV of stage 1 cash flows (years 1-1)')).toBeCloseTo(year1 / 1.1, 6);
+    expect(line(estimate, 'PV of stage 2 cash flows (years 2-2)')).toBeCloseTo(year2 / 1.1 ** 2, 6);
+    expect(line(estimate, 'PV of terminal value')).toBeCloseTo((year2 * 1.02) / 0.08 / 1.1 ** 2, 6);
+    expect(estimate.warnings).toHaveLength(1);
+  });
+
+  it('labels defaults and caller inputs', () => {
+    const estimate = computeDcf(financials(), { discountRate: 0.09 });
+    const basis = Object.fromEntries(estimate.assumptions.map(a => [a.label, a.basis]));
+
+    expect(basis['Discount rate']).toBe('input');
+    expect(basis['Stage 1 growth']).toBe('historical');
+    expect(basis['Terminal growth']).toBe('default');
+  });
+
+  it('rejects a discount rate at or below terminal growth', () => {
+    expect(() => computeDcf(financials(), { discountRate: 0.02, terminalGrowth: 0.02 })).toThrow(
+      'Discount rate must exceed terminal growth'
+    );
+  });
+
+  it('returns no value for negative free cash flow', () => {
+    const estimate = computeDcf(financials(), { baseFreeCashFlow: -10 });
+
+    expect(estimate.valuePerShare).toBeNull();
+    expect(estimate.marginOfSafety).toBeNull();
+    expect(estimate.warnings).toHaveLength(1);
+  });
+});
+
+describe('computeEpv', () => {
+  it('capitalizes normalized after-tax earnings with no growth', () => {
+    const estimate = computeEpv(financials());
+
+    // 20% margin on 1000 revenue, D&A equal to maintenance capex, taxed at 25%, at 10%
+    expect(line(estimate, 'Earnings power (NOPAT)')).toBeCloseTo(150, 6);
+    expect(line(estimate, 'Enterprise EPV (NOPAT / cost of capital)')).toBeCloseTo(1500, 6);
+    expect(estimate.equityValue).toBeCloseTo(1470, 6);
+    expect(estimate.valuePerShare).toBeCloseTo(147, 6);
+    expect(estimate.warnings).toEqual([]);
+  });
+
+  it('excludes growth capex from maintenance capex', () => {
+    const fin = financials();
+    fin.income = fin.income.map((row, i) => ({ ...row, revenue: 1200 - 100 * i, operatingIncome: 240 - 20 * i }));
+    fin.cashFlow = fin.cashFlow.map(row => ({ ...row, capitalExpenditure: -100 }));
+    const estimate = computeEpv(fin, { taxRate: 0.2, costOfCapital: 0.08 });
+
+    // PP&E/sales averages ~0.457 and revenue grows 100 a year, so ~46 of the 100 capex funds growth
+    const ppeToSales = (500 / 1200 + 500 / 1100 + 500 / 1000) / 3;
+    expect(line(estimate, 'Less: maintenance capex')).toBeCloseTo(-(100 - ppeToSales * 100), 6);
+    expect(line(estimate, 'Normalized EBIT (average margin x current revenue)')).toBeCloseTo(240, 6);
+  });
+
+  it('returns no value when there is no earnings power', () => {
+    const fin = financials();
+    fin.income = fin.income.map(row => ({ ...row, operatingIncome: -100 }));
+    const estimate = computeEpv(fin);
+
+    expect(estimate.valuePerShare).toBeNull();
+    expect(estimate.warnings).toHaveLength(1);
+  });
+
+  it('warns when margins cover fewer than three years', () => {
+    const estimate = computeEpv(financials(), { normalizationYears: 2 });
+
+    expect(estimate.warnings).toEqual(['Margins normalized over only 2 year(s); cyclical earnings may be mis-stated']);
+  });
+});
@@ -0,0 +1,528 @@
+import { createTool } from '@mastra/core/tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { z } from 'zod';
+import { fmpAllFinancials } from './fmp-fundamentals';
+import { fmpPriceSnapshot } from './fmp-prices';
+import {
+  intrinsicValueEstimateSchema,
+  type AssumptionBasis,
+  type IntrinsicValueEstimate,
+  type ValuationAssumption,
+  type ValuationLine,
+  type ValuationMethod,
+} from '@/src/types/valuation';
+
+/**
+ * Annual statements (newest first) plus the current quoted price
+ */
+type StatementRow = Record<string, unknown>;
+
+export interface Financials {
+  ticker: string;
+  income: StatementRow[];
+  balance: StatementRow[];
+  cashFlow: StatementRow[];
+  price: number | null;
+}
+
+async function loadFinancials(ticker: string, years: number): Promise<Financials> {
+  const [statements, quote] = await Promise.all([
+    fmpAllFinancials.execute({ context: { ticker, period: 'annual', limit: years }, runtimeContext: new RuntimeContext() }),
+    fmpPriceSnapshot.execute({ context: { ticker }, runtimeContext: new RuntimeContext() }),
+  ]);
+
+  const income = statements.incomeStatement.filter(Boolean);
+  if (income.length === 0) {
+    throw new Error(`No annual financial statements available for ${ticker}`);
+  }
+
+  return {
+    ticker: ticker.toUpperCase(),
+    income,
+    balance: statements.balanceSheet.filter(Boolean),
+    cashFlow: statements.cashFlow.filter(Boolean),
+    price: num(quote.data?.price) > 0 ? num(quote.data.price) : null,
+  };
+}
+
+function num(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function usd(value: number): string {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1e9) return `${sign}$${(abs / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(1)}M`;
+  return `${sign}$${abs.toFixed(0)}`;
+}
+
+/**
+ * Resolve an assumption: the caller's value if given, else a derived or default one
+ */
+function assume(
+  assumptions: ValuationAssumption[],
+  label: string,
+  input: number | undefined,
+  fallback: { value: number; basis: AssumptionBasis },
+  format: (value: number) => string
+): number {
+  const value = input ?? fallback.value;
+  assumptions.push({ label, value: format(value), basis: input !== undefined ? 'input' : fallback.basis });
+  return value;
+}
+
+function dilutedShares(fin: Financials): number {
+  const latest = fin.income[0];
+  return num(latest.weightedAverageShsOutDil) || num(latest.weightedAverageShsOut);
+}
+
+/**
+ * Debt, cash and minority interest that sit between enterprise and equity value
+ */
+function capitalClaims(fin: Financials): { debt: number; cash: number; minorityInterest: number } {
+  const latest = fin.balance[0] ?? {};
+  return {
+    debt: num(latest.totalDebt),
+    cash: num(latest.cashAndShortTermInvestments) || num(latest.cashAndCashEquivalents),
+    minorityInterest: num(latest.minorityInterest),
+  };
+}
+
+/**
+ * Per-share value, price and margin of safety for an equity value
+ */
+function buildEstimate(
+  fin: Financials,
+  method: ValuationMethod,
+  equityValue: number | null,
+  assumptions: ValuationAssumption[],
+  breakdown: ValuationLine[],
+  warnings: string[]
+): IntrinsicValueEstimate {
+  const shares = dilutedShares(fin);
+  const price = fin.price;
+  const valuePerShare = equityValue !== null && shares > 0 ? equityValue / shares : null;
+
+  if (shares <= 0) warnings.push('Diluted share count unavailable; per-share value not computed');
+
+  return {
+    ticker: fin.ticker,
+    method,
+    valuePerShare,
+    equityValue,
+    price,
+    marginOfSafety: valuePerShare !== null && valuePerShare > 0 && price !== null ? 1 - price / valuePerShare : null,
+    assumptions,
+    breakdown,
+    warnings,
+    fiscalYear: String(fin.income[0].calendarYear ?? fin.income[0].date ?? '') || null,
+  };
+}
+
+function freeCashFlow(row: StatementRow): number {
+  return num(row.freeCashFlow) || num(row.operatingCashFlow) + num(row.capitalExpenditure);
+}
+
+function revenueCagr(fin: Financials): number | null {
+  const latest = num(fin.income[0]?.revenue);
+  const oldest = num(fin.income[fin.income.length - 1]?.revenue);
+  const years = fin.income.length - 1;
+  return years > 0 && latest > 0 && oldest > 0 ? (latest / oldest) ** (1 / years) - 1 : null;
+}
+
+interface DcfInput {
+  discountRate?: number;
+  baseFreeCashFlow?: number;
+  stage1Growth?: number;
+  stage1Years?: number;
+  stage2Years?: number;
+  terminalGrowth?: number;
+}
+
+/**
+ * Multi-stage DCF: constant growth in stage 1, a linear fade to terminal
+ * growth in stage 2, then a Gordon growth terminal value
+ */
+export function computeDcf(fin: Financials, input: DcfInput = {}): IntrinsicValueEstimate {
+  const assumptions: ValuationAssumption[] = [];
+  const warnings: string[] = [];
+
+  const recent = fin.cashFlow.slice(0, 3).map(freeCashFlow);
+  const growth = revenueCagr(fin);
+
+  const baseFcf = assume(assumptions, `Base free cash flow (${recent.length}-year average)`, input.baseFreeCashFlow,
+    { value: average(recent), basis: 'historical' }, usd);
+  const discountRate = assume(assumptions, 'Discount rate', input.discountRate,
+    { value: 0.1, basis: 'default' }, pct);
+  const stage1Growth = assume(assumptions, 'Stage 1 growth', input.stage1Growth,
+    growth !== null ? { value: clamp(growth, -0.05, 0.15), basis: 'historical' } : { value: 0.03, basis: 'default' }, pct);
+  const stage1Years = assume(assumptions, 'Stage 1 years', input.stage1Years,
+    { value: 5, basis: 'default' }, String);
+  const stage2Years = assume(assumptions, 'Stage 2 years (fade to terminal)', input.stage2Years,
+    { value: 5, basis: 'default' }, String);
+  const terminalGrowth = assume(assumptions, 'Terminal growth', input.terminalGrowth,
+    { value: 0.025, basis: 'default' }, pct);
+
+  if (discountRate <= terminalGrowth) {
+    throw new Error('Discount rate must exceed terminal growth');
+  }
+
+  if (baseFcf <= 0) {
+    warnings.push('Normalized free cash flow is not positive; a DCF is not meaningful for this company');
+    return buildEstimate(fin, 'dcf', null, assumptions, [], warnings);
+  }
+
+  let fcf = baseFcf;
+  let pvStage1 = 0;
+  let pvStage2 = 0;
+  const totalYears = stage1Years + stage2Years;
+
+  for (let year = 1; year <= totalYears; year++) {
+    const g = year <= stage1Years
+      ? stage1Growth
+      : stage1Growth + (terminalGrowth - stage1Growth) * (year - stage1Years) / stage2Years;
+    fcf *= 1 + g;
+    const pv = fcf / (1 + discountRate) ** year;
+    if (year <= stage1Years) pvStage1 += pv;
+    else pvStage2 += pv;
+  }
+
+  const terminalValue = fcf * (1 + terminalGrowth) / (discountRate - terminalGrowth);
+  const pvTerminal = terminalValue / (1 + discountRate) ** totalYears;
+  const enterpriseValue = pvStage1 + pvStage2 + pvTerminal;
+
+  const { debt, cash, minorityInterest } = capitalClaims(fin);
+  const equityValue = enterpriseValue - debt + cash - minorityInterest;
+
+  if (pvTerminal / enterpriseValue > 0.75) {
+    warnings.push(`Terminal value is ${pct(pvTerminal / enterpriseValue)} of enterprise value; the estimate is sensitive to terminal assumptions`);
+  }
+
+  return buildEstimate(fin, 'dcf', equityValue, assumptions, [
+    { label: `PV of stage 1 cash flows (years 1-${stage1Years})`, value: pvStage1 },
+    { label: `PV of stage 2 cash flows (years ${stage1Years + 1}-${totalYears})`, value: pvStage2 },
+    { label: 'PV of terminal value', value: pvTerminal },
+    { label: 'Enterprise value', value: enterpriseValue },
+    { label: 'Less: debt', value: -debt },
+    { label: 'Plus: cash and investments', value: cash },
+    { label: 'Less: minority interest', value: -minorityInterest },
+    { label: 'Equity value', value: equityValue },
+  ], warnings);
+}
+
+interface EpvInput {
+  costOfCapital?: number;
+  taxRate?: number;
+  normalizationYears?: number;
+}
+
+/**
+ * Greenwald Earnings Power Value: normalized operating earnings, adjusted
+ * for D&A in excess of maintenance capex, taxed and capitalized with no growth
+ */
+export function computeEpv(fin: Financials, input: EpvInput = {}): IntrinsicValueEstimate {
+  const assumptions: ValuationAssumption[] = [];
+  const warnings: string[] = [];
+
+  const years = assume(assumptions, 'Normalization period (years)', input.normalizationYears,
+    { value: Math.min(5, fin.income.length), basis: 'default' }, String);
+  const income = fin.income.slice(0, years);
+  const cashFlow = fin.cashFlow.slice(0, years);
+  const balance = fin.balance.slice(0, years);
+
+  const margins = income.filter(r => num(r.revenue) > 0).map(r => num(r.operatingIncome) / num(r.revenue));
+  const operatingMargin = average(margins);
+  assumptions.push({ label: 'Average operating margin', value: pct(operatingMargin), basis: 'historical' });
+
+  const revenue = num(income[0].revenue);
+  const normalizedEbit = operatingMargin * revenue;
+
+  // Maintenance capex = total capex less the capex needed to fund revenue growth
+  const depreciation = average(cashFlow.map(r => num(r.depreciationAndAmortization)));
+  const capex = average(cashFlow.map(r => Math.abs(num(r.capitalExpenditure))));
+  const ppeToSales = average(
+    income.map((r, i) => (num(r.revenue) > 0 ? num(balance[i]?.propertyPlantEquipmentNet) / num(r.revenue) : 0))
+  );
+  const revenueGrowth = income.length > 1
+    ? Math.max(0, (num(income[0].revenue) - num(income[income.length - 1].revenue)) / (income.length - 1))
+    : 0;
+  const maintenanceCapex = Math.max(0, capex - ppeToSales * revenueGrowth);
+  assumptions.push({ label: 'Maintenance capex (capex less growth capex)', value: usd(maintenanceCapex), basis: 'historical' });
+
+  const effectiveTax = average(
+    income.filter(r => num(r.incomeBeforeTax) > 0).map(r => num(r.incomeTaxExpense) / num(r.incomeBeforeTax))
+  );
+  const taxRate = assume(assumptions, 'Tax rate', input.taxRate,
+    effectiveTax > 0 ? { value: clamp(effectiveTax, 0.1, 0.35), basis: 'historical' } : { value: 0.25, basis: 'default' }, pct);
+  const costOfCapital = assume(assumptions, 'Cost of capital', input.costOfCapital,
+    { value: 0.1, basis: 'default' }, pct);
+
+  const adjustedEbit = normalizedEbit + depreciation - maintenanceCapex;
+  const nopat = adjustedEbit * (1 - taxRate);
+
+  if (nopat <= 0) {
+    warnings.push('Normalized after-tax earnings are not positive; the business has no earnings power at current margins');
+    return buildEstimate(fin, 'epv', null, assumptions, [], warnings);
+  }
+
+  const epv = nopat / costOfCapital;
+  const { debt, cash, minorityInterest } = capitalClaims(fin);
+  const equityValue = epv - debt + cash - minorityInterest;
+
+  if (margins.length < 3) {
+    warnings.push(`Margins normalized over only ${margins.length} year(s); cyclical earnings may be mis-stated`);
+  }
+
+  return buildEstimate(fin, 'epv', equityValue, assumptions, [
+    { label: 'Normalized EBIT (average margin x current revenue)', value: normalizedEbit },
+    { label: 'Plus: depreciation and amortization', value: depreciation },
+    { label: 'Less: maintenance capex', value: -maintenanceCapex },
+    { label: 'Adjusted EBIT', value: adjustedEbit },
+    { label: 'Less: taxes', value: -adjustedEbit * taxRate },
+    { label: 'Earnings power (NOPAT)', value: nopat },
+    { label: 'Enterprise EPV (NOPAT / cost of capital)', value: epv },
+    { label: 'Less: debt', value: -debt },
+    { label: 'Plus: cash and investments', value: cash },
+    { label: 'Less: minority interest', value: -minorityInterest },
+    { label: 'Equity value', value: equityValue },
+  ], warnings);
+}
+
+interface AssetValueInput {
+  receivablesRecovery?: number;
+  inventoryRecovery?: number;
+  ppeRecovery?: number;
+  otherAssetsRecovery?: number;
+  rdYearsCapitalized?: number;
+  sgaYearsCapitalized?: number;
+}
+
+/**
+ * Net asset value (liquidation haircuts, no intangibles) and Greenwald
+ * reproduction value (book assets at cost plus rebuilt R&D and customer
+ * relationships), each less all liabilities
+ */
+function computeAssetValues(fin: Financials, input: AssetValueInput = {}): IntrinsicValueEstimate[] {
+  const latest = fin.balance[0];
+  if (!latest) {
+    throw new Error(`No balance sheet available for ${fin.ticker}`);
+  }
+
+  const cash = num(latest.cashAndShortTermInvestments) || num(latest.cashAndCashEquivalents);
+  const receivables = num(latest.netReceivables);
+  const inventory = num(latest.inventory);
+  const otherCurrent = Math.max(0, num(latest.totalCurrentAssets) - cash - receivables - inventory);
+  const ppe = num(latest.propertyPlantEquipmentNet);
+  const goodwill = num(latest.goodwill);
+  const intangibles = num(latest.intangibleAssets);
+  const nonCurrent = num(latest.totalNonCurrentAssets) || num(latest.totalAssets) - num(latest.totalCurrentAssets);
+  const otherNonCurrent = Math.max(0, nonCurrent - ppe - goodwill - intangibles);
+  const liabilities = num(latest.totalLiabilities) + num(latest.minorityInterest);
+
+  // Net asset value
+  const navAssumptions: ValuationAssumption[] = [
+    { label: 'Cash recovery', value: pct(1), basis: 'default' },
+  ];
+  const receivablesRate = assume(navAssumptions, 'Receivables recovery', input.receivablesRecovery, { value: 0.85, basis: 'default' }, pct);
+  const inventoryRate = assume(navAssumptions, 'Inventory recovery', input.inventoryRecovery, { value: 0.6, basis: 'default' }, pct);
+  const ppeRate = assume(navAssumptions, 'PP&E recovery', input.ppeRecovery, { value: 0.5, basis: 'default' }, pct);
+  const otherRate = assume(navAssumptions, 'Other asset recovery', input.otherAssetsRecovery, { value: 0.25, basis: 'default' }, pct);
+  navAssumptions.push({ label: 'Goodwill and intangibles recovery', value: pct(0), basis: 'default' });
+
+  const navLines: ValuationLine[] = [
+    { label: 'Cash and investments', value: cash },
+    { label: 'Receivables', value: receivables * receivablesRate },
+    { label: 'Inventory', value: inventory * inventoryRate },
+    { label: 'Other current assets', value: otherCurrent * otherRate },
+    { label: 'PP&E', value: ppe * ppeRate },
+    { label: 'Other non-current assets', value: otherNonCurrent * otherRate },
+  ];
+  const navAssets = navLines.reduce((sum, line) => sum + line.value, 0);
+  const nav = navAssets - liabilities;
+
+  // Reproduction value
+  const reproductionAssumptions: ValuationAssumption[] = [
+    { label: 'Current assets, PP&E and other assets', value: 'Book value', basis: 'default' },
+    { label: 'Goodwill', value: pct(0), basis: 'default' },
+  ];
+  const rdYears = assume(reproductionAssumptions, 'Years of R&D to rebuild products', input.rdYearsCapitalized, { value: 3, basis: 'default' }, String);
+  const sgaYears = assume(reproductionAssumptions, 'Years of SG&A to rebuild customer relationships', input.sgaYearsCapitalized, { value: 1, basis: 'default' }, String);
+
+  const rebuiltProducts = fin.income.slice(0, rdYears).reduce((sum, r) => sum + num(r.researchAndDevelopmentExpenses), 0);
+  const rebuiltCustomers = num(fin.income[0].sellingGeneralAndAdministrativeExpenses) * sgaYears;
+  const reproductionLines: ValuationLine[] = [
+    { label: 'Cash and investments', value: cash },
+    { label: 'Receivables', value: receivables },
+    { label: 'Inventory', value: inventory },
+    { label: 'Other current assets', value: otherCurrent },
+    { label: 'PP&E', value: ppe },
+    { label: 'Other non-current assets', value: otherNonCurrent },
+    { label: 'Product portfolio (capitalized R&D)', value: rebuiltProducts },
+    { label: 'Customer relationships (capitalized SG&A)', value: rebuiltCustomers },
+  ];
+  const reproductionAssets = reproductionLines.reduce((sum, line) => sum + line.value, 0);
+  const reproduction = reproductionAssets - liabilities;
+
+  const reproductionWarnings = ['PP&E is carried at depreciated book value, which understates the cost to rebuild older assets'];
+  if (fin.income.length < rdYears) {
+    reproductionWarnings.push(`Only ${fin.income.length} year(s) of R&D available to capitalize`);
+  }
+
+  return [
+    buildEstimate(fin, 'net_asset_value', nav, navAssumptions, [
+      ...navLines,
+      { label: 'Adjusted assets', value: navAssets },
+      { label: 'Less: total liabilities and minority interest', value: -liabilities },
+      { label: 'Net asset value', value: nav },
+    ], []),
+    buildEstimate(fin, 'reproduction_value', reproduction, reproductionAssumptions, [
+      ...reproductionLines,
+      { label: 'Reproduction cost of assets', value: reproductionAssets },
+      { label: 'Less: total liabilities and minority interest', value: -liabilities },
+      { label: 'Reproduction value of equity', value: reproduction },
+    ], reproductionWarnings),
+  ];
+}
+
+const valuationOutputSchema = z.object({
+  ticker: z.string(),
+  estimates: z.array(intrinsicValueEstimateSchema),
+  source: z.literal('fmp'),
+  timestamp: z.string(),
+});
+
+const rate = (description: string) => z.number().min(-1).max(1).optional().describe(description);
+
+// DCF Tool
+const dcfInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol (e.g., AAPL, GOOGL)'),
+  discountRate: z.number().gt(0).max(1).optional().describe('Discount rate as a decimal (default 0.10)'),
+  baseFreeCashFlow: z.number().optional().describe('Starting free cash flow in USD (default: 3-year average)'),
+  stage1Growth: rate('Annual FCF growth in stage 1 as a decimal (default: revenue CAGR, capped at 15%)'),
+  stage1Years: z.number().int().min(1).max(20).optional().describe('Years of stage 1 growth (default 5)'),
+  stage2Years: z.number().int().min(1).max(20).optional().describe('Years fading to terminal growth (default 5)'),
+  terminalGrowth: rate('Perpetual growth after stage 2 as a decimal (default 0.025)'),
+});
+
+export const dcfValuationTool = createTool({
+  id: 'dcf-valuation',
+  description: `Compute a multi-stage discounted cash flow valuation for a ticker.
+
+Starts from normalized free cash flow, grows it in stage 1, fades growth to
+the terminal rate in stage 2, and adds a Gordon growth terminal value.
+Returns equity value, value per share, current price, margin of safety, the
+PV build-up, and every assumption with its basis (input, historical, default).
+Override any assumption to test sensitivity.`,
+  inputSchema: dcfInputSchema,
+  outputSchema: valuationOutputSchema,
+  execute: async ({ context }) => {
+    const { ticker, ...input } = context;
+    const fin = await loadFinancials(ticker, 5);
+
+    return {
+      ticker: fin.ticker,
+      estimates: [computeDcf(fin, input)],
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+// EPV Tool
+const epvInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol (e.g., AAPL, GOOGL)'),
+  costOfCapital: z.number().gt(0).max(1).optional().describe('Cost of capital as a decimal (default 0.10)'),
+  taxRate: z.number().min(0).max(1).optional().describe('Tax rate as a decimal (default: average effective rate)'),
+  normalizationYears: z.number().int().min(1).max(10).optional().describe('Years to average margins over (default 5)'),
+});
+
+export const epvValuationTool = createTool({
+  id: 'epv-valuation',
+  description: `Compute Bruce Greenwald's Earnings Power Value for a ticker.
+
+Normalizes operating margin over several years, adds back depreciation in
+excess of maintenance capex, taxes the result and capitalizes it at the cost
+of capital, assuming no growth. Returns equity value, value per share, price,
+margin of safety, the earnings build-up, and every assumption with its basis.
+Compare with reproduction value: EPV above it indicates a franchise.`,
+  inputSchema: epvInputSchema,
+  outputSchema: valuationOutputSchema,
+  execute: async ({ context }) => {
+    const { ticker, ...input } = context;
+    const fin = await loadFinancials(ticker, Math.max(5, input.normalizationYears ?? 5));
+
+    return {
+      ticker: fin.ticker,
+      estimates: [computeEpv(fin, input)],
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+// Asset Value Tool
+const assetValueInputSchema = z.object({
+  ticker: z.string().min(1).describe('Stock ticker symbol (e.g., AAPL, GOOGL)'),
+  receivablesRecovery: z.number().min(0).max(1).optional().describe('Share of receivables recovered in liquidation (default 0.85)'),
+  inventoryRecovery: z.number().min(0).max(1).optional().describe('Share of inventory recovered in liquidation (default 0.60)'),
+  ppeRecovery: z.number().min(0).max(1).optional().describe('Share of PP&E recovered in liquidation (default 0.50)'),
+  otherAssetsRecovery: z.number().min(0).max(1).optional().describe('Share of other assets recovered in liquidation (default 0.25)'),
+  rdYearsCapitalized: z.number().int().min(0).max(10).optional().describe('Years of R&D needed to rebuild the product portfolio (default 3)'),
+  sgaYearsCapitalized: z.number().min(0).max(5).optional().describe('Years of SG&A needed to rebuild customer relationships (default 1)'),
+});
+
+export const assetValuationTool = createTool({
+  id: 'asset-valuation',
+  description: `Compute net asset value and Greenwald reproduction value for a ticker.
+
+Net asset value applies liquidation haircuts to each asset class and writes
+off goodwill and intangibles. Reproduction value estimates what a competitor
+would spend to rebuild the business: book assets plus capitalized R&D and
+SG&A. Both subtract all liabilities. Returns two estimates with value per
+share, price, margin of safety, the asset build-up and every assumption.`,
+  inputSchema: assetValueInputSchema,
+  outputSchema: valuationOutputSchema,
+  execute: async ({ context }) => {
+    const { ticker, ...input } = context;
+    const fin = await loadFinancials(ticker, Math.max(3, input.rdYearsCapitalized ?? 3));
+
+    return {
+      ticker: fin.ticker,
+      estimates: computeAssetValues(fin, input),
+      source: 'fmp' as const,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
+
+/**
+ * Valuation estimates from an agent run's tool results; the last estimate
+ * per ticker and method wins when a tool was re-run with new assumptions
+ */
+export function collectValuations(toolResults: Array<{ payload: { result: unknown } }>): IntrinsicValueEstimate[] {
+  const latest = new Map<string, IntrinsicValueEstimate>();
+
+  for (const { payload } of toolResults) {
+    const parsed = valuationOutputSchema.safeParse(payload.result);
+    if (!parsed.success) continue;
+
+    for (const estimate of parsed.data.estimates) {
+      latest.set(`${estimate.ticker}|${estimate.method}`, estimate);
+    }
+  }
+
+  return [...latest.values()];
+}
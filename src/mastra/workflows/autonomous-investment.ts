@@ -5,15 +5,20 @@
  * 1. Discovers opportunities using screener agents
  * 2. Researches each opportunity using Gemini
  * 3. Gets strategy agent analysis
- * 4. Runs critiques (Skeptic + Risk Officer)
+ * 4. Runs critiques (Skeptic + Risk Officer + Bull Advocate)
  * 5. Produces final verdict (if enabled)
  *
- * This is the complete autonomous investment analysis pipeline.
+ * This is the complete autonomous investment analysis pipeline. It stops
+ * early, keeping what it has analyzed, once the user's spend limit is reached.
  */
 
 import { runOpportunityDiscovery, type Opportunity } from './opportunity-discovery';
 import { runResearchAndCritique, runResearchAndCritiqueBatch, type ResearchCritiqueOutput } from './research-critique';
-import { verdictAgent } from '../agents/verdict-agent';
+import { generateStructuredVerdict, type InvestmentVerdict, type VerdictResult } from '../agents/verdict-agent';
+import { generateMacroContext } from '../agents/macro-agent';
+import { diffFmpMetrics, getFmpMetrics, type FmpRunMetrics } from '../tools/fmp-client';
+import { checkBudget } from '@/src/services/llm-usage';
+import type { CorporateEvent } from '@/src/types/corporate-events';
 
 export interface AutonomousInvestmentInput {
   discoveryTypes: ('value' | 'special-sits' | 'distressed' | 'market-movers')[];
@@ -22,10 +27,12 @@ export interface AutonomousInvestmentInput {
   includeCritiques?: boolean;
   includeVerdict?: boolean;
   concurrency?: number;
+  corporateEvents?: CorporateEvent[]; // Recently stored events for the special situations screener
 }
 
 export interface AnalyzedOpportunity extends ResearchCritiqueOutput {
   verdict?: string;
+  structuredVerdict?: InvestmentVerdict;
   finalScore?: number;
 }
 
@@ -41,35 +48,52 @@ export interface AutonomousInvestmentOutput {
     topOpportunities: string[];
   };
   duration: number;
+  fmpMetrics: FmpRunMetrics;
+  corporateEvents: CorporateEvent[]; // Events found in filings during discovery
+  macroContext?: string; // Market cycle context shared by every analysis in the run
+  budgetExceeded?: string; // Why the run stopped early, if a spend limit was reached
 }
 
 /**
- * Parse verdict from verdict agent response
+ * Score a structured verdict: INVEST = +conviction, PASS = -conviction, WATCH = 0
  */
-function parseVerdict(verdictText: string): { decision: string; confidence: number; score: number } {
-  // Extract decision: INVEST / PASS / WATCH
-  const decisionMatch = verdictText.match(/## Decision\s*\n\s*🎯\s*\*\*([A-Z]+)\*\*/);
-  const decision = decisionMatch ? decisionMatch[1] : 'WATCH';
-
-  // Extract confidence percentage
-  const confidenceMatch = verdictText.match(/with\s*\*\*(\d+)%\*\*\s*conviction/);
-  const confidence = confidenceMatch ? parseInt(confidenceMatch[1], 10) : 50;
-
-  // Calculate score: INVEST = +confidence, PASS = -confidence, WATCH = 0
-  let score = 0;
-  if (decision === 'INVEST') {
-    score = confidence;
-  } else if (decision === 'PASS') {
-    score = -confidence;
+function scoreVerdict(verdict: InvestmentVerdict): number {
+  if (verdict.decision === 'INVEST') {
+    return verdict.conviction;
+  } else if (verdict.decision === 'PASS') {
+    return -verdict.conviction;
   }
+  return 0;
+}
+
+/**
+ * Attach a generated verdict and its score to an analyzed opportunity
+ */
+function withVerdict(analyzed: ResearchCritiqueOutput, result: VerdictResult | undefined): AnalyzedOpportunity {
+  return {
+    ...analyzed,
+    verdict: result?.markdown,
+    structuredVerdict: result?.verdict,
+    finalScore: result ? scoreVerdict(result.verdict) : undefined,
+  };
+}
 
-  return { decision, confidence, score };
+/**
+ * Market cycle context from the macro agent; analysis goes ahead without it
+ */
+async function loadMacroContext(): Promise<string | undefined> {
+  try {
+    return (await generateMacroContext()) || undefined;
+  } catch (error) {
+    console.error('Macro context failed:', error);
+    return undefined;
+  }
 }
 
 /**
  * Generate final verdict for an analyzed opportunity
  */
-async function generateVerdict(analyzed: ResearchCritiqueOutput): Promise<string | undefined> {
+async function generateVerdict(analyzed: ResearchCritiqueOutput, macroContext?: string): Promise<VerdictResult | undefined> {
   if (!analyzed.researchReport) {
     return undefined;
   }
@@ -85,15 +109,15 @@ ${analyzed.opportunity.thesis}
 
 ## Research Report
 ${analyzed.researchReport}
+${macroContext ? `\n\n## Market Cycle Context\n${macroContext}` : ''}
 ${analyzed.strategyAnalysis ? `\n\n## Strategy Agent Analysis\n${analyzed.strategyAnalysis}` : ''}
-${analyzed.critiques ? `\n\n## Skeptic's Critique\n${analyzed.critiques.skeptic?.content ?? 'N/A'}\n\n## Risk Officer's Assessment\n${analyzed.critiques.risk_officer?.content ?? 'N/A'}` : ''}
+${analyzed.critiques ? `\n\n## Skeptic's Critique\n${analyzed.critiques.skeptic?.content ?? 'N/A'}\n\n## Risk Officer's Assessment\n${analyzed.critiques.risk_officer?.content ?? 'N/A'}${analyzed.critiques.bull_advocate ? `\n\n## Bull Advocate's Case\n${analyzed.critiques.bull_advocate.content}` : ''}` : ''}
 
 ---
 
 Please provide your final investment verdict following your required format.`;
 
-    const result = await verdictAgent.generate(verdictContext);
-    return result.text;
+    return await generateStructuredVerdict(verdictContext);
   } catch (error) {
     console.error(`Verdict generation failed for ${analyzed.opportunity.ticker}:`, error);
     return undefined;
@@ -104,9 +128,15 @@ Please provide your final investment verdict following your required format.`;
  * Main autonomous investment workflow
  */
 export async function runAutonomousInvestmentWorkflow(
-  input: AutonomousInvestmentInput
+  input: AutonomousInvestmentInput,
+  onProgress?: (message: string) => void
 ): Promise<AutonomousInvestmentOutput> {
   const startTime = Date.now();
+  const fmpBefore = getFmpMetrics();
+  const progress = (message: string) => {
+    console.log(message);
+    onProgress?.(message);
+  };
 
   const {
     discoveryTypes,
@@ -115,49 +145,48 @@ export async function runAutonomousInvestmentWorkflow(
     includeCritiques = true,
     includeVerdict = true,
     concurrency = 3,
+    corporateEvents,
   } = input;
 
   // Phase 1: Discover opportunities
-  console.log('Phase 1: Discovering opportunities...');
+  progress('Phase 1: Discovering opportunities...');
   const discoveryResult = await runOpportunityDiscovery({
     discoveryTypes,
     maxResults: maxOpportunities,
     enrichWithMetrics: true,
+    corporateEvents,
   });
 
-  console.log(`Discovered ${discoveryResult.opportunities.length} opportunities`);
+  progress(`Discovered ${discoveryResult.opportunities.length} opportunities`);
 
   // Phase 2: Research and critique top opportunities
-  console.log(`Phase 2: Researching top ${maxResearchDepth} opportunities...`);
-  const topOpportunities = discoveryResult.opportunities.slice(0, maxResearchDepth);
-
-  const analyzed = await runResearchAndCritiqueBatch(topOpportunities, {
-    includeSkeptic: includeCritiques,
-    includeRiskOfficer: includeCritiques,
-    includeStrategyAgent: true,
-    concurrency,
-  });
+  let budgetExceeded = await checkBudget();
+  let analyzed: ResearchCritiqueOutput[] = [];
+  let macroContext: string | undefined;
+
+  if (!budgetExceeded) {
+    progress('Reading the market cycle...');
+    macroContext = await loadMacroContext();
+
+    progress(`Phase 2: Researching top ${maxResearchDepth} opportunities...`);
+    const topOpportunities = discoveryResult.opportunities.slice(0, maxResearchDepth);
+
+    analyzed = await runResearchAndCritiqueBatch(topOpportunities, {
+      includeSkeptic: includeCritiques,
+      includeRiskOfficer: includeCritiques,
+      includeStrategyAgent: true,
+      concurrency,
+      macroContext,
+    });
+    budgetExceeded = await checkBudget();
+  }
 
   // Phase 3: Generate verdicts (if enabled)
   let analyzedWithVerdict: AnalyzedOpportunity[] = analyzed;
-  if (includeVerdict) {
-    console.log('Phase 3: Generating final verdicts...');
+  if (includeVerdict && !budgetExceeded) {
+    progress('Phase 3: Generating final verdicts...');
     analyzedWithVerdict = await Promise.all(
-      analyzed.map(async (a) => {
-        const verdict = await generateVerdict(a);
-
-        let finalScore: number | undefined;
-        if (verdict) {
-          const parsed = parseVerdict(verdict);
-          finalScore = parsed.score;
-        }
-
-        return {
-          ...a,
-          verdict,
-          finalScore,
-        };
-      })
+      analyzed.map(async (a) => withVerdict(a, await generateVerdict(a, macroContext)))
     );
   }
 
@@ -175,8 +204,8 @@ export async function runAutonomousInvestmentWorkflow(
   const topOpportunityNames: string[] = [];
 
   for (const a of sorted) {
-    if (a.verdict) {
-      const { decision } = parseVerdict(a.verdict);
+    if (a.structuredVerdict) {
+      const { decision } = a.structuredVerdict;
       if (decision === 'INVEST') {
         investCount++;
         if (topOpportunityNames.length < 3) {
@@ -200,18 +229,28 @@ export async function runAutonomousInvestmentWorkflow(
   };
 
   const duration = Date.now() - startTime;
+  const fmpMetrics = diffFmpMetrics(fmpBefore);
+
+  if (budgetExceeded) {
+    progress(`Stopped early: ${budgetExceeded.message}`);
+  }
 
   console.log('\n=== Workflow Complete ===');
   console.log(`Discovered: ${summary.totalDiscovered} opportunities`);
   console.log(`Analyzed: ${summary.totalAnalyzed} opportunities`);
   console.log(`Verdicts: ${summary.investCount} INVEST, ${summary.passCount} PASS, ${summary.watchCount} WATCH`);
   console.log(`Duration: ${(duration / 1000).toFixed(1)}s`);
+  console.log(`FMP: ${fmpMetrics.requests} requests, ${fmpMetrics.cacheHits} cache hits (${(fmpMetrics.cacheHitRate * 100).toFixed(0)}%)`);
 
   return {
     discovered: discoveryResult.opportunities,
     analyzed: sorted,
     summary,
     duration,
+    fmpMetrics,
+    corporateEvents: discoveryResult.corporateEvents,
+    macroContext,
+    budgetExceeded: budgetExceeded?.message,
   };
 }
 
@@ -245,28 +284,19 @@ export async function analyzeSingleOpportunity(
     discoveredBy: 'manual',
   };
 
+  const macroContext = await loadMacroContext();
   const analyzed = await runResearchAndCritique({
     opportunity,
     includeSkeptic: includeCritiques,
     includeRiskOfficer: includeCritiques,
     includeStrategyAgent: true,
+    macroContext,
   });
 
   let result: AnalyzedOpportunity = analyzed;
 
   if (includeVerdict) {
-    const verdict = await generateVerdict(analyzed);
-    let finalScore: number | undefined;
-    if (verdict) {
-      const parsed = parseVerdict(verdict);
-      finalScore = parsed.score;
-    }
-
-    result = {
-      ...analyzed,
-      verdict,
-      finalScore,
-    };
+    result = withVerdict(analyzed, await generateVerdict(analyzed, macroContext));
   }
 
   return result;
@@ -2,12 +2,13 @@
  * Council Critique Workflow
  * 
  * Orchestrates the "Investment Council" where multiple AI agents
- * (The Skeptic and The Risk Officer) provide independent critiques
- * of a research report.
+ * (The Skeptic, The Risk Officer and The Bull Advocate) provide
+ * independent critiques of a research report.
  */
 
-import { skepticAgent } from '../agents/skeptic-agent';
-import { riskOfficerAgent } from '../agents/risk-officer-agent';
+import { skepticAgent, SKEPTIC_MAX_STEPS } from '../agents/skeptic-agent';
+import { riskOfficerAgent, RISK_OFFICER_MAX_STEPS } from '../agents/risk-officer-agent';
+import { bullAdvocateAgent } from '../agents/bull-advocate-agent';
 import type { DealCritiques } from '@/types/deals';
 
 interface CouncilInput {
@@ -39,10 +40,10 @@ ${input.researchReport}
 Please provide your critique of this investment research report.`;
 
   try {
-    // Run both critiques in parallel for speed
-    const [skepticResult, riskOfficerResult] = await Promise.all([
+    // Run all critiques in parallel for speed
+    const [skepticResult, riskOfficerResult, bullAdvocateResult] = await Promise.all([
       // The Skeptic (ChatGPT)
-      skepticAgent.generate(context).catch(error => {
+      skepticAgent.generate(context, { maxSteps: SKEPTIC_MAX_STEPS }).catch(error => {
         console.error('Skeptic agent error:', error);
         return {
           text: `# Error Generating Critique\n\nThe Skeptic agent encountered an error: ${error.message}\n\nPlease try again or check your OpenAI API configuration.`,
@@ -50,12 +51,20 @@ Please provide your critique of this investment research report.`;
       }),
       
       // The Risk Officer (Claude)
-      riskOfficerAgent.generate(context).catch(error => {
+      riskOfficerAgent.generate(context, { maxSteps: RISK_OFFICER_MAX_STEPS }).catch(error => {
         console.error('Risk Officer agent error:', error);
         return {
           text: `# Error Generating Assessment\n\nThe Risk Officer agent encountered an error: ${error.message}\n\nPlease try again or check your Anthropic API configuration.`,
         };
       }),
+
+      // The Bull Advocate
+      bullAdvocateAgent.generate(context).catch(error => {
+        console.error('Bull Advocate agent error:', error);
+        return {
+          text: `# Error Generating Bull Case\n\nThe Bull Advocate agent encountered an error: ${error.message}\n\nPlease try again or check your model configuration.`,
+        };
+      }),
     ]);
 
     const critiques: DealCritiques = {
@@ -67,6 +76,10 @@ Please provide your critique of this investment research report.`;
         content: riskOfficerResult.text || 'No assessment generated',
         timestamp: new Date().toISOString(),
       },
+      bull_advocate: {
+        content: bullAdvocateResult.text || 'No bull case generated',
+        timestamp: new Date().toISOString(),
+      },
     };
 
     const duration = Date.now() - startTime;
@@ -79,7 +92,8 @@ Please provide your critique of this investment research report.`;
 }
 
 /**
- * Sequential version (if you want Risk Officer to see Skeptic's critique)
+ * Sequential version (if you want Risk Officer to see Skeptic's critique,
+ * and the Bull Advocate to answer both)
  */
 export async function runCouncilCritiqueSequential(input: CouncilInput): Promise<CouncilOutput> {
   const startTime = Date.now();
@@ -95,14 +109,23 @@ ${input.researchReport}`;
   try {
     // Step 1: The Skeptic provides initial critique
     const skepticResult = await skepticAgent.generate(
-      `${baseContext}\n\n---\n\nProvide your skeptical critique of this investment research report.`
+      `${baseContext}\n\n---\n\nProvide your skeptical critique of this investment research report.`,
+      { maxSteps: SKEPTIC_MAX_STEPS }
     );
 
     const skepticCritique = skepticResult.text || 'No critique generated';
 
     // Step 2: The Risk Officer sees both report AND Skeptic's critique
     const riskOfficerResult = await riskOfficerAgent.generate(
-      `${baseContext}\n\n## The Skeptic's Critique\n${skepticCritique}\n\n---\n\nNow provide your risk assessment, taking into account both the original report and The Skeptic's concerns.`
+      `${baseContext}\n\n## The Skeptic's Critique\n${skepticCritique}\n\n---\n\nNow provide your risk assessment, taking into account both the original report and The Skeptic's concerns.`,
+      { maxSteps: RISK_OFFICER_MAX_STEPS }
+    );
+
+    const riskAssessment = riskOfficerResult.text || 'No assessment generated';
+
+    // Step 3: The Bull Advocate answers both bear cases
+    const bullAdvocateResult = await bullAdvocateAgent.generate(
+      `${baseContext}\n\n## The Skeptic's Critique\n${skepticCritique}\n\n## The Risk Officer's Assessment\n${riskAssessment}\n\n---\n\nNow make the bull case, answering the strongest points from The Skeptic and The Risk Officer.`
     );
 
     const critiques: DealCritiques = {
@@ -111,7 +134,11 @@ ${input.researchReport}`;
         timestamp: new Date().toISOString(),
       },
       risk_officer: {
-        content: riskOfficerResult.text || 'No assessment generated',
+        content: riskAssessment,
+        timestamp: new Date().toISOString(),
+      },
+      bull_advocate: {
+        content: bullAdvocateResult.text || 'No bull case generated',
         timestamp: new Date().toISOString(),
       },
     };
@@ -9,8 +9,17 @@ import { valueScreenerAgent } from '../agents/value-screener-agent';
 import { specialSitsScreenerAgent } from '../agents/special-sits-screener-agent';
 import { distressedScreenerAgent } from '../agents/distressed-screener-agent';
 import { marketMoversAgent } from '../agents/market-movers-agent';
-import { fmpKeyMetrics, fmpPriceSnapshot } from '../tools';
+import { fmpKeyMetrics, fmpPriceSnapshot, fmpGainers, fmpLosers } from '../tools';
+import { diffFmpMetrics, getFmpMetrics, type FmpRunMetrics } from '../tools/fmp-client';
+import { collectDealTerms } from '../tools/merger-arb';
+import { collectCorporateEvents, dedupeCorporateEvents, scanCorporateEvents } from '../tools/corporate-events';
+import { collectInsiderSignals, computeInsiderSignal } from '../tools/insider-signal';
+import type { DealTerms } from '@/src/types/merger-arb';
+import type { CorporateEvent } from '@/src/types/corporate-events';
+import type { InsiderSignal } from '@/src/types/insider-signal';
+import { formatEventsForPrompt } from '@/src/services/corporate-events';
 import { Agent } from '@mastra/core/agent';
+import { RuntimeContext } from '@mastra/core/runtime-context';
 
 export interface DiscoveryType {
   type: 'value' | 'special-sits' | 'distressed' | 'market-movers';
@@ -28,6 +37,10 @@ export interface Opportunity {
   riskLevel: 'low' | 'medium' | 'high';
   discoveredBy: string;
   score?: number;
+  /** Announced merger terms, when the screener priced the spread */
+  dealTerms?: DealTerms;
+  /** Insider buying signal from the screener or enrichment */
+  insiderSignal?: InsiderSignal;
 }
 
 export interface DiscoveryInput {
@@ -35,6 +48,8 @@ export interface DiscoveryInput {
   marketCap?: 'micro' | 'small' | 'mid' | 'large' | 'all';
   maxResults?: number;
   enrichWithMetrics?: boolean;
+  /** Recently stored corporate events, offered to the special situations screener as candidates */
+  corporateEvents?: CorporateEvent[];
 }
 
 export interface DiscoveryOutput {
@@ -42,6 +57,9 @@ export interface DiscoveryOutput {
   totalDiscovered: number;
   byType: Record<string, number>;
   duration: number;
+  fmpMetrics: FmpRunMetrics;
+  /** Corporate events found in filings during this run */
+  corporateEvents: CorporateEvent[];
 }
 
 const DISCOVERY_AGENTS: Record<string, DiscoveryType> = {
@@ -151,12 +169,39 @@ function deduplicateOpportunities(opportunities: Opportunity[]): Opportunity[] {
         existing.type = `${existing.type} + ${opp.type}`;
         existing.score = Math.max(existing.score || 0, opp.score || 0);
       }
+      if (existing && !existing.dealTerms && opp.dealTerms) {
+        existing.dealTerms = opp.dealTerms;
+      }
+      if (existing && !existing.insiderSignal && opp.insiderSignal) {
+        existing.insiderSignal = opp.insiderSignal;
+      }
     }
   }
 
   return unique;
 }
 
+/**
+ * Corporate events filed in the last 30 days by today's biggest movers
+ */
+async function scanMoverEvents(): Promise<CorporateEvent[]> {
+  try {
+    const [gainers, losers] = await Promise.all([
+      fmpGainers.execute({ context: { limit: 10 }, runtimeContext: new RuntimeContext() }),
+      fmpLosers.execute({ context: { limit: 10 }, runtimeContext: new RuntimeContext() }),
+    ]);
+
+    const tickers = [...gainers.data, ...losers.data]
+      .map((mover: { symbol?: unknown }) => mover.symbol)
+      .filter((symbol): symbol is string => typeof symbol === 'string');
+
+    return (await scanCorporateEvents(tickers)).events;
+  } catch (error) {
+    console.warn('Failed to scan movers for corporate events:', error);
+    return [];
+  }
+}
+
 /**
  * Enrich opportunities with detailed metrics
  */
@@ -164,9 +209,15 @@ async function enrichOpportunities(opportunities: Opportunity[]): Promise<Opport
   const enriched = await Promise.all(
     opportunities.slice(0, 10).map(async (opp) => {
       try {
-        const [price, metrics] = await Promise.all([
+        const [price, metrics, insiderSignal] = await Promise.all([
           fmpPriceSnapshot.execute({ context: { ticker: opp.ticker }, runtimeContext: {} as any }),
           fmpKeyMetrics.execute({ context: { ticker: opp.ticker, period: 'annual', limit: 1 }, runtimeContext: {} as any }),
+          opp.insiderSignal
+            ? Promise.resolve(opp.insiderSignal)
+            : computeInsiderSignal(opp.ticker).catch((error) => {
+              console.warn(`Failed to compute insider signal for ${opp.ticker}:`, error);
+              return undefined;
+            }),
         ]);
 
         const priceData = price.data;
@@ -174,6 +225,7 @@ async function enrichOpportunities(opportunities: Opportunity[]): Promise<Opport
 
         return {
           ...opp,
+          insiderSignal,
           keyMetrics: {
             ...opp.keyMetrics,
             price: priceData?.price,
@@ -219,6 +271,7 @@ function rankOpportunities(opportunities: Opportunity[]): Opportunity[] {
  */
 export async function runOpportunityDiscovery(input: DiscoveryInput): Promise<DiscoveryOutput> {
   const startTime = Date.now();
+  const fmpBefore = getFmpMetrics();
   const {
     discoveryTypes,
     maxResults = 20,
@@ -227,6 +280,15 @@ export async function runOpportunityDiscovery(input: DiscoveryInput): Promise<Di
 
   let allOpportunities: Opportunity[] = [];
   const byType: Record<string, number> = {};
+  const foundEvents: CorporateEvent[] = [];
+
+  // Step 0: Gather candidate events for the special situations screener
+  let candidateEvents: CorporateEvent[] = [];
+  if (discoveryTypes.includes('special-sits')) {
+    const moverEvents = await scanMoverEvents();
+    foundEvents.push(...moverEvents);
+    candidateEvents = dedupeCorporateEvents([...moverEvents, ...(input.corporateEvents ?? [])]).slice(0, 30);
+  }
 
   // Step 1: Run selected screeners in parallel
   const screenerPromises = discoveryTypes.map(async (type) => {
@@ -237,10 +299,21 @@ export async function runOpportunityDiscovery(input: DiscoveryInput): Promise<Di
         return [];
       }
 
-      const prompt = `Find opportunities for ${agentConfig.label}. Screen for current opportunities and present your findings.`;
+      let prompt = `Find opportunities for ${agentConfig.label}. Screen for current opportunities and present your findings.`;
+      if (type === 'special-sits' && candidateEvents.length > 0) {
+        prompt += `\n\nRecent corporate events (candidates):\n${formatEventsForPrompt(candidateEvents)}`;
+      }
       const result = await agentConfig.agent.generate(prompt);
 
-      const opportunities = parseOpportunities(result.text, type);
+      const toolResults = result.steps.flatMap(step => step.toolResults);
+      foundEvents.push(...collectCorporateEvents(toolResults));
+      const dealTerms = collectDealTerms(toolResults);
+      const insiderSignals = collectInsiderSignals(toolResults);
+      const opportunities = parseOpportunities(result.text, type).map(opp => ({
+        ...opp,
+        ...(dealTerms.has(opp.ticker) && { dealTerms: dealTerms.get(opp.ticker) }),
+        ...(insiderSignals.has(opp.ticker) && { insiderSignal: insiderSignals.get(opp.ticker) }),
+      }));
       byType[type] = opportunities.length;
 
       return opportunities;
@@ -275,6 +348,8 @@ export async function runOpportunityDiscovery(input: DiscoveryInput): Promise<Di
     totalDiscovered: allOpportunities.length,
     byType,
     duration,
+    fmpMetrics: diffFmpMetrics(fmpBefore),
+    corporateEvents: dedupeCorporateEvents(foundEvents),
   };
 }
 
@@ -4,17 +4,19 @@
  * Orchestrates the complete research and critique process:
  * 1. Run Gemini deep research
  * 2. Get strategy agent analysis (value/special-sits/distressed)
- * 3. Run critiques (Skeptic + Risk Officer)
+ * 3. Run critiques (Skeptic + Risk Officer + Bull Advocate)
  * 4. Return complete analysis package
  */
 
 import { geminiResearch } from '@/src/services/gemini-research';
+import { checkBudget } from '@/src/services/llm-usage';
 import { runCouncilCritique } from './council-critique';
 import { valueAgent } from '../agents/value-agent';
 import { specialSitsAgent } from '../agents/special-sits-agent';
 import { distressedAgent } from '../agents/distressed-agent';
 import type { ContextFile } from '@/src/types/deals';
 import type { DealCritiques } from '@/src/types/deals';
+import type { DealTerms } from '@/src/types/merger-arb';
 
 export interface Opportunity {
   ticker: string;
@@ -22,6 +24,7 @@ export interface Opportunity {
   type: string;
   thesis: string;
   keyMetrics?: Record<string, number>;
+  dealTerms?: DealTerms;
 }
 
 export interface ResearchCritiqueInput {
@@ -30,6 +33,7 @@ export interface ResearchCritiqueInput {
   includeRiskOfficer?: boolean;
   includeStrategyAgent?: boolean;
   contextFiles?: ContextFile[];
+  macroContext?: string; // Market cycle context from the macro agent
 }
 
 export interface ResearchCritiqueOutput {
@@ -54,6 +58,7 @@ export async function runResearchAndCritique(input: ResearchCritiqueInput): Prom
     includeRiskOfficer = true,
     includeStrategyAgent = true,
     contextFiles = [],
+    macroContext,
   } = input;
 
   // Phase 1: Run Gemini deep research
@@ -91,10 +96,10 @@ ${opportunity.companyName} (${opportunity.ticker})
 
 ## Opportunity Thesis
 ${opportunity.thesis}
-
+${opportunity.dealTerms ? `\n## Announced Deal Terms\n${JSON.stringify(opportunity.dealTerms, null, 2)}\n` : ''}
 ## Research Report
 ${researchReport}
-
+${macroContext ? `\n## Market Cycle Context\n${macroContext}\n` : ''}
 ---
 
 Please analyze this opportunity from your ${strategyAgent.name} perspective. Provide your investment thesis, key points, and preliminary verdict.`;
@@ -141,7 +146,8 @@ Please analyze this opportunity from your ${strategyAgent.name} perspective. Pro
 }
 
 /**
- * Run research and critique for multiple opportunities in parallel
+ * Run research and critique for multiple opportunities in parallel.
+ * Stops starting new batches once a spend limit is reached.
  */
 export async function runResearchAndCritiqueBatch(
   opportunities: Opportunity[],
@@ -150,6 +156,7 @@ export async function runResearchAndCritiqueBatch(
     includeRiskOfficer?: boolean;
     includeStrategyAgent?: boolean;
     concurrency?: number;
+    macroContext?: string;
   } = {}
 ): Promise<ResearchCritiqueOutput[]> {
   const {
@@ -157,12 +164,15 @@ export async function runResearchAndCritiqueBatch(
     includeRiskOfficer = true,
     includeStrategyAgent = true,
     concurrency = 3, // Process 3 at a time to be nice to APIs
+    macroContext,
   } = options;
 
   const results: ResearchCritiqueOutput[] = [];
 
   // Process in batches to limit concurrency
   for (let i = 0; i < opportunities.length; i += concurrency) {
+    if (await checkBudget()) break;
+
     const batch = opportunities.slice(i, i + concurrency);
     const batchResults = await Promise.all(
       batch.map(async (opportunity) => {
@@ -172,6 +182,7 @@ export async function runResearchAndCritiqueBatch(
             includeSkeptic,
             includeRiskOfficer,
             includeStrategyAgent,
+            macroContext,
           });
         } catch (error) {
           return {
@@ -8,6 +8,7 @@
  */
 
 import { geminiResearch } from '@/src/services/gemini-research';
+import type { ResearchSource } from '@/src/types/research-sources';
 
 export interface ResearchInput {
   thesis: string;
@@ -18,6 +19,7 @@ export interface ResearchOutput {
   thesis: string;
   strategy: string;
   report: string;
+  sources: ResearchSource[];
   duration: number;
   error?: string;
 }
@@ -35,11 +37,13 @@ export async function runResearch(
   onProgress?.('Starting Gemini deep research...');
 
   let report = '';
+  let sources: ResearchSource[] = [];
   let error: string | undefined;
 
   for await (const step of geminiResearch.startResearch({ thesis, strategy })) {
     if (step.type === 'complete') {
       report = step.report;
+      sources = step.sources;
       onProgress?.('Research complete!');
       break;
     } else if (step.type === 'progress') {
@@ -56,6 +60,7 @@ export async function runResearch(
     thesis,
     strategy,
     report,
+    sources,
     duration: Date.now() - startTime,
     error,
   };
@@ -0,0 +1,89 @@
+/**
+ * Corporate Events Service
+ *
+ * Stores special-situation events (spinoffs, mergers, tender offers, rights
+ * offerings, bankruptcies, activist 13Ds) parsed from SEC filings by the
+ * corporate events tool, and reads back recent ones so the special
+ * situations screener starts from known events instead of rediscovering them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CORPORATE_EVENT_LABELS, type CorporateEvent, type CorporateEventType } from '@/src/types/corporate-events';
+
+interface CorporateEventRow {
+  ticker: string;
+  type: CorporateEventType;
+  form_type: string;
+  filed_at: string;
+  reason: string;
+  url: string;
+}
+
+function fromRow(row: CorporateEventRow): CorporateEvent {
+  return {
+    ticker: row.ticker,
+    type: row.type,
+    formType: row.form_type,
+    filedAt: row.filed_at,
+    reason: row.reason,
+    url: row.url,
+  };
+}
+
+/**
+ * Store events; filings already recorded for the same type are skipped
+ */
+export async function saveCorporateEvents(supabase: SupabaseClient, events: CorporateEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  const rows: CorporateEventRow[] = events.map(event => ({
+    ticker: event.ticker,
+    type: event.type,
+    form_type: event.formType,
+    filed_at: event.filedAt,
+    reason: event.reason,
+    url: event.url,
+  }));
+
+  const { error } = await supabase
+    .from('corporate_events')
+    .upsert(rows, { onConflict: 'url,type', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+/**
+ * Events filed in the last `days` days, newest first
+ */
+export async function getRecentCorporateEvents(
+  supabase: SupabaseClient,
+  options: { days?: number; types?: CorporateEventType[]; limit?: number } = {}
+): Promise<CorporateEvent[]> {
+  const { days = 30, types, limit = 50 } = options;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  let query = supabase
+    .from('corporate_events')
+    .select('ticker, type, form_type, filed_at, reason, url')
+    .gte('filed_at', since)
+    .order('filed_at', { ascending: false })
+    .limit(limit);
+
+  if (types && types.length > 0) {
+    query = query.in('type', types);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return ((data || []) as CorporateEventRow[]).map(fromRow);
+}
+
+/**
+ * Events as a markdown list for agent prompts
+ */
+export function formatEventsForPrompt(events: CorporateEvent[]): string {
+  return events
+    .map(event => `- ${event.ticker}: ${CORPORATE_EVENT_LABELS[event.type]} (${event.formType}, filed ${event.filedAt}) - ${event.reason} - ${event.url}`)
+    .join('\n');
+}
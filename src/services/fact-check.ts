@@ -0,0 +1,254 @@
+/**
+ * Fact Check Service
+ *
+ * Post-research pass over a report: extracts its quantitative claims (P/E,
+ * revenue growth, debt levels, ...), checks each against FMP data and marks
+ * the report after every claim it could place. The markers are rendered by
+ * components/research/formatted-markdown.tsx.
+ */
+
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { extractClaims } from '@/src/mastra/agents/claim-extractor-agent';
+import { fmpIncomeStatement, fmpBalanceSheet, fmpCashFlow } from '@/src/mastra/tools/fmp-fundamentals';
+import { fmpKeyMetricsTTM, fmpFinancialRatios } from '@/src/mastra/tools/fmp-metrics';
+import {
+  FACT_CHECK_MARKER,
+  type CheckedClaim,
+  type ClaimMetric,
+  type ClaimStatus,
+  type ExtractedClaim,
+  type FactCheck,
+} from '@/src/types/fact-check';
+
+type DataRow = Record<string, unknown>;
+
+type MetricUnit = 'multiple' | 'usd' | 'percent';
+
+interface CompanyData {
+  ttm: DataRow;
+  ratios: DataRow[];
+  income: DataRow[];
+  balance: DataRow[];
+  cashFlow: DataRow[];
+}
+
+/**
+ * Where each metric comes from. `ttm` figures are current market values;
+ * the rest come from annual statements and can be matched to a fiscal year.
+ * FMP gives percent metrics as fractions.
+ */
+const METRIC_SOURCES: Record<ClaimMetric, { source: keyof CompanyData; field: string; unit: MetricUnit; label: string }> = {
+  pe: { source: 'ttm', field: 'peRatioTTM', unit: 'multiple', label: 'P/E' },
+  ev_to_ebitda: { source: 'ttm', field: 'enterpriseValueOverEBITDATTM', unit: 'multiple', label: 'EV/EBITDA' },
+  price_to_sales: { source: 'ttm', field: 'priceToSalesRatioTTM', unit: 'multiple', label: 'P/S' },
+  price_to_book: { source: 'ttm', field: 'pbRatioTTM', unit: 'multiple', label: 'P/B' },
+  market_cap: { source: 'ttm', field: 'marketCapTTM', unit: 'usd', label: 'market cap' },
+  dividend_yield: { source: 'ttm', field: 'dividendYieldTTM', unit: 'percent', label: 'dividend yield' },
+  fcf_yield: { source: 'ttm', field: 'freeCashFlowYieldTTM', unit: 'percent', label: 'FCF yield' },
+  roe: { source: 'ttm', field: 'roeTTM', unit: 'percent', label: 'ROE' },
+  debt_to_equity: { source: 'ttm', field: 'debtToEquityTTM', unit: 'multiple', label: 'debt/equity' },
+  gross_margin: { source: 'ratios', field: 'grossProfitMargin', unit: 'percent', label: 'gross margin' },
+  operating_margin: { source: 'ratios', field: 'operatingProfitMargin', unit: 'percent', label: 'operating margin' },
+  net_margin: { source: 'ratios', field: 'netProfitMargin', unit: 'percent', label: 'net margin' },
+  revenue: { source: 'income', field: 'revenue', unit: 'usd', label: 'revenue' },
+  revenue_growth: { source: 'income', field: 'revenue', unit: 'percent', label: 'revenue growth' },
+  net_income: { source: 'income', field: 'netIncome', unit: 'usd', label: 'net income' },
+  eps: { source: 'income', field: 'epsdiluted', unit: 'usd', label: 'diluted EPS' },
+  free_cash_flow: { source: 'cashFlow', field: 'freeCashFlow', unit: 'usd', label: 'free cash flow' },
+  total_debt: { source: 'balance', field: 'totalDebt', unit: 'usd', label: 'total debt' },
+  net_debt: { source: 'balance', field: 'netDebt', unit: 'usd', label: 'net debt' },
+  cash: { source: 'balance', field: 'cashAndCashEquivalents', unit: 'usd', label: 'cash' },
+};
+
+/** Relative gap still counted as confirmed; reports round and data vendors differ */
+const RELATIVE_TOLERANCE = 0.1;
+
+/** Absolute gap for percent metrics, in percentage points */
+const PERCENT_POINT_TOLERANCE = 1.5;
+
+/** Annual periods loaded, enough to check growth claims a few years back */
+const ANNUAL_PERIODS = 5;
+
+function num(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function fiscalYearOf(row: DataRow): number | null {
+  const year = Number(row.calendarYear ?? row.fiscalYear ?? String(row.date ?? '').slice(0, 4));
+  return Number.isInteger(year) && year > 0 ? year : null;
+}
+
+function formatValue(value: number, unit: MetricUnit): string {
+  if (unit === 'percent') return `${value.toFixed(1)}%`;
+  if (unit === 'multiple') return `${value.toFixed(1)}x`;
+
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1e9) return `${sign}$${(abs / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(1)}M`;
+  return `${sign}$${abs.toFixed(2)}`;
+}
+
+async function loadCompanyData(ticker: string): Promise<CompanyData> {
+  const runtimeContext = new RuntimeContext();
+  const annual = { ticker, period: 'annual' as const, limit: ANNUAL_PERIODS };
+  const [ttm, ratios, income, balance, cashFlow] = await Promise.all([
+    fmpKeyMetricsTTM.execute({ context: { ticker }, runtimeContext }),
+    fmpFinancialRatios.execute({ context: annual, runtimeContext }),
+    fmpIncomeStatement.execute({ context: annual, runtimeContext }),
+    fmpBalanceSheet.execute({ context: annual, runtimeContext }),
+    fmpCashFlow.execute({ context: annual, runtimeContext }),
+  ]);
+  const rows = (data: unknown[]) => data.filter((row): row is DataRow => !!row && typeof row === 'object');
+
+  return {
+    ttm: (ttm.data as DataRow | undefined) ?? {},
+    ratios: rows(ratios.data),
+    income: rows(income.data),
+    balance: rows(balance.data),
+    cashFlow: rows(cashFlow.data),
+  };
+}
+
+/**
+ * FMP value for a claim in the claim's unit, or why there isn't one
+ */
+function lookupActual(claim: ExtractedClaim, data: CompanyData): { actual: number; period: string } | string {
+  const { source, field, unit, label } = METRIC_SOURCES[claim.metric];
+  const scale = unit === 'percent' ? 100 : 1;
+
+  if (source === 'ttm') {
+    if (claim.fiscalYear !== null && claim.fiscalYear < new Date().getFullYear() - 1) {
+      return `FMP only has the current ${label}, not FY${claim.fiscalYear}`;
+    }
+    const value = num(data.ttm[field]);
+    return value === null ? `No ${label} in FMP data` : { actual: value * scale, period: 'TTM' };
+  }
+
+  // Statements are newest first
+  const rows = data[source];
+  const index = claim.fiscalYear === null ? 0 : rows.findIndex(row => fiscalYearOf(row) === claim.fiscalYear);
+  const row = rows[index];
+  if (!row) {
+    return claim.fiscalYear === null ? `No ${label} in FMP data` : `FMP has no FY${claim.fiscalYear} ${label}`;
+  }
+  const period = `FY${fiscalYearOf(row) ?? '?'}`;
+
+  if (claim.metric === 'revenue_growth') {
+    const current = num(row.revenue);
+    const prior = num(rows[index + 1]?.revenue);
+    if (current === null || prior === null || prior <= 0) {
+      return `Not enough revenue history in FMP data for ${period} growth`;
+    }
+    return { actual: (current / prior - 1) * 100, period };
+  }
+
+  const value = num(row[field]);
+  return value === null ? `No ${period} ${label} in FMP data` : { actual: value * scale, period };
+}
+
+function isConsistent(claimed: number, actual: number, unit: MetricUnit): boolean {
+  const gap = Math.abs(claimed - actual);
+  if (unit === 'percent' && gap <= PERCENT_POINT_TOLERANCE) return true;
+  return gap <= Math.abs(actual) * RELATIVE_TOLERANCE;
+}
+
+function checkClaim(claim: ExtractedClaim, data: CompanyData | null): CheckedClaim {
+  const unverifiable = (note: string): CheckedClaim => ({ ...claim, status: 'unverifiable', actual: null, period: null, note });
+
+  if (!data) return unverifiable(`No FMP data for ${claim.ticker}`);
+
+  const found = lookupActual(claim, data);
+  if (typeof found === 'string') return unverifiable(found);
+
+  const { unit } = METRIC_SOURCES[claim.metric];
+  const status: ClaimStatus = isConsistent(claim.value, found.actual, unit) ? 'confirmed' : 'contradicted';
+  const fmp = `FMP: ${formatValue(found.actual, unit)} (${found.period})`;
+
+  return {
+    ...claim,
+    status,
+    actual: Number(found.actual.toFixed(4)),
+    period: found.period,
+    note: status === 'confirmed' ? fmp : `${fmp}, report says ${formatValue(claim.value, unit)}`,
+  };
+}
+
+/**
+ * Remove markers from an earlier pass so a re-run doesn't stack them
+ */
+export function stripFactCheckMarkers(report: string): string {
+  return report.replace(new RegExp(` ?${FACT_CHECK_MARKER.source}`, 'g'), '');
+}
+
+/** Markdown link, whose text and URL can't take a marker without breaking it */
+const MARKDOWN_LINK = /\[[^\]]*\]\([^)]*\)/g;
+
+/**
+ * Insert a marker after the first occurrence of each claim's quote outside
+ * link text. Offsets are found in the unmarked report and markers inserted
+ * from the end, so a quote can't match inside an earlier marker. Claims
+ * whose quote can't be found stay in the list but aren't marked.
+ */
+export function annotateReport(report: string, claims: CheckedClaim[]): string {
+  const links = [...report.matchAll(MARKDOWN_LINK)].map(match => ({ start: match.index, end: match.index + match[0].length }));
+  const inLink = (start: number, end: number) => links.some(link => start < link.end && end > link.start);
+
+  const markers: Array<{ at: number; marker: string }> = [];
+  const marked = new Set<string>();
+
+  for (const claim of claims) {
+    if (!claim.quote || marked.has(claim.quote)) continue;
+
+    let at = report.indexOf(claim.quote);
+    while (at !== -1 && inLink(at, at + claim.quote.length)) {
+      at = report.indexOf(claim.quote, at + 1);
+    }
+    if (at === -1) continue;
+
+    markers.push({
+      at: at + claim.quote.length,
+      marker: ` [fact-check: ${claim.status}; ${claim.note.replace(/[[\]]/g, '')}]`,
+    });
+    marked.add(claim.quote);
+  }
+
+  // Later offsets first; at a shared offset the later claim goes in first, keeping claim order
+  return markers
+    .map((marker, index) => ({ ...marker, index }))
+    .sort((a, b) => b.at - a.at || b.index - a.index)
+    .reduce((annotated, { at, marker }) => annotated.slice(0, at) + marker + annotated.slice(at), report);
+}
+
+/**
+ * Extract, check and mark the claims in a research report
+ */
+export async function runFactCheck(report: string): Promise<{ report: string; factCheck: FactCheck }> {
+  const source = stripFactCheckMarkers(report);
+  const extracted = await extractClaims(source);
+
+  const tickers = [...new Set(extracted.map(claim => claim.ticker.toUpperCase()))];
+  const companies = new Map(await Promise.all(tickers.map(async ticker => [
+    ticker,
+    await loadCompanyData(ticker).catch(error => {
+      console.warn(`Fact check: no FMP data for ${ticker}:`, error);
+      return null;
+    }),
+  ] as const)));
+
+  const claims = extracted.map(claim => checkClaim(claim, companies.get(claim.ticker.toUpperCase()) ?? null));
+  const count = (status: ClaimStatus) => claims.filter(claim => claim.status === status).length;
+
+  return {
+    report: annotateReport(source, claims),
+    factCheck: {
+      checkedAt: new Date().toISOString(),
+      claims,
+      counts: {
+        confirmed: count('confirmed'),
+        contradicted: count('contradicted'),
+        unverifiable: count('unverifiable'),
+      },
+    },
+  };
+}
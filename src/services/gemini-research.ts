@@ -1,10 +1,15 @@
 /**
  * Gemini Deep Research Service
  * 
- * Uses Google's Gemini to do investment research
+ * Uses Google's Gemini to do investment research. The deep research agent
+ * and the standard fallback model come from the model registry
+ * ('deep-research' and 'researcher' roles); the fallback may use any provider.
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { getModel, isMockMode } from '@/src/mastra/models';
+import { completeText, getGoogleClient } from '@/src/services/llm';
+import { assertWithinBudget, BudgetExceededError, recordUsage } from '@/src/services/llm-usage';
+import { sourceHostname, type ResearchSource } from '@/src/types/research-sources';
 
 interface ResearchOptions {
   thesis: string;
@@ -17,6 +22,114 @@ interface ResearchStep {
   timestamp: string;
 }
 
+interface ResearchComplete {
+  type: 'complete';
+  report: string;
+  sources: ResearchSource[];
+}
+
+/** Citation from the deep research agent; indexes are in bytes of the UTF-8 text */
+interface TextAnnotation {
+  start_index?: number;
+  end_index?: number;
+  source?: string;
+}
+
+interface SearchResult {
+  url?: string;
+  title?: string;
+  rendered_content?: string;
+}
+
+/** Longest supported text or snippet kept per source */
+const EXCERPT_LIMIT = 240;
+
+const MARKDOWN_LINK = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+/** A sources list line ("Sources: ...") or the heading of a sources section */
+const SOURCES_LINE = /^\s*(?:(#{1,6})\s*(?:\d+\.\s*)?(?:sources?|references?)\s*$|\**(?:sources?|references?)(?::\**|\**:))/i;
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_LIMIT ? `${flat.slice(0, EXCERPT_LIMIT - 1)}…` : flat;
+}
+
+/**
+ * Add a source, or the support to an existing one with the same URL. Ids
+ * follow first use.
+ */
+function addSource(
+  sources: Map<string, ResearchSource>,
+  url: string,
+  title: string,
+  snippet: string | null,
+  support?: { line: number; text: string }
+): void {
+  let source = sources.get(url);
+  if (!source) {
+    source = { id: sources.size + 1, url, title: title || sourceHostname(url), snippet, supports: [] };
+    sources.set(url, source);
+  }
+  if (support?.text && !source.supports.some(s => s.line === support.line)) {
+    source.supports.push(support);
+  }
+}
+
+/**
+ * Sources from the deep research agent's citations. `source` may be a URL or
+ * the title of a search result.
+ */
+function addAnnotatedSources(
+  sources: Map<string, ResearchSource>,
+  report: string,
+  annotations: TextAnnotation[],
+  searchResults: SearchResult[]
+): void {
+  const bytes = Buffer.from(report, 'utf8');
+
+  for (const annotation of annotations) {
+    if (!annotation.source || annotation.end_index === undefined) continue;
+
+    const result = searchResults.find(r => r.url === annotation.source || r.title === annotation.source);
+    const url = result?.url ?? (/^https?:\/\//.test(annotation.source) ? annotation.source : null);
+    if (!url) continue;
+
+    const before = bytes.subarray(0, annotation.end_index).toString('utf8').trimEnd();
+    const text = bytes.subarray(annotation.start_index ?? 0, annotation.end_index).toString('utf8');
+    const snippet = result?.rendered_content
+      ? excerpt(result.rendered_content.replace(/<(style|script)[\s\S]*?<\/\1>/gi, '').replace(/<[^>]+>/g, ' '))
+      : '';
+
+    addSource(sources, url, result?.title ?? '', snippet || null, {
+      line: before.split('\n').length - 1,
+      text: excerpt(text),
+    });
+  }
+}
+
+/**
+ * Sources from markdown links in the report. Links in a sources list are
+ * kept without a supported paragraph.
+ */
+function addLinkedSources(sources: Map<string, ResearchSource>, report: string): void {
+  let inSourcesSection = false;
+
+  report.split('\n').forEach((line, index) => {
+    const sourcesLine = line.match(SOURCES_LINE);
+    if (sourcesLine) {
+      inSourcesSection = !!sourcesLine[1];
+    } else if (/^\s*#/.test(line)) {
+      inSourcesSection = false;
+    }
+    const isSourcesList = inSourcesSection || !!sourcesLine;
+
+    const text = excerpt(line.replace(MARKDOWN_LINK, '$1').replace(/^\s*(?:[-*+]|\d+\.)\s+/, ''));
+    for (const [, title, url] of line.matchAll(MARKDOWN_LINK)) {
+      addSource(sources, url, title, null, isSourcesList ? undefined : { line: index, text });
+    }
+  });
+}
+
 // Strategy-specific research prompts
 const STRATEGY_PROMPTS: Record<string, string> = {
   value: `You are a value investing analyst following Benjamin Graham and Warren Buffett principles.
@@ -84,20 +197,7 @@ INVESTMENT CRITERIA:
 };
 
 export class GeminiResearchService {
-  private client: GoogleGenAI | null = null;
-
-  private getClient(): GoogleGenAI {
-    if (!this.client) {
-      const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
-      if (!apiKey) {
-        throw new Error('GOOGLE_GEMINI_API_KEY not found');
-      }
-      this.client = new GoogleGenAI({ apiKey });
-    }
-    return this.client;
-  }
-
-  async *startResearch(options: ResearchOptions): AsyncGenerator<ResearchStep | { type: 'complete'; report: string }> {
+  async *startResearch(options: ResearchOptions): AsyncGenerator<ResearchStep | ResearchComplete> {
     const { thesis, strategy = 'general' } = options;
     const strategyPrompt = STRATEGY_PROMPTS[strategy] || STRATEGY_PROMPTS.general;
 
@@ -166,17 +266,30 @@ Provide a comprehensive but focused analysis. Quality over quantity.`;
       timestamp: new Date().toISOString(),
     };
 
+    // The mock provider has no deep research agent
+    if (isMockMode()) {
+      yield* this.runStandardResearch(prompt);
+      return;
+    }
+
     // Try deep research first, fall back to standard
     try {
       yield* this.runDeepResearch(prompt);
     } catch (error) {
+      if (error instanceof BudgetExceededError) throw error;
       console.warn('Deep Research unavailable, using standard Gemini:', error);
       yield* this.runStandardResearch(prompt);
     }
   }
 
-  private async *runDeepResearch(prompt: string): AsyncGenerator<ResearchStep | { type: 'complete'; report: string }> {
-    const client = this.getClient();
+  private async *runDeepResearch(prompt: string): AsyncGenerator<ResearchStep | ResearchComplete> {
+    const deepResearch = getModel('deep-research');
+    if (deepResearch.provider !== 'google') {
+      throw new Error('Deep research requires a Google agent');
+    }
+
+    const client = getGoogleClient();
+    await assertWithinBudget();
 
     yield {
       type: 'progress',
@@ -186,7 +299,7 @@ Provide a comprehensive but focused analysis. Quality over quantity.`;
 
     const interaction = await client.interactions.create({
       input: prompt,
-      agent: 'deep-research-pro-preview-12-2025',
+      agent: deepResearch.model,
       background: true,
     });
 
@@ -213,11 +326,25 @@ Provide a comprehensive but focused analysis. Quality over quantity.`;
           timestamp: new Date().toISOString(),
         };
 
+        await recordUsage({
+          role: 'deep-research',
+          ...deepResearch,
+          inputTokens: result.usage?.total_input_tokens ?? 0,
+          outputTokens: (result.usage?.total_output_tokens ?? 0) + (result.usage?.total_reasoning_tokens ?? 0),
+        });
+
         const outputs = result.outputs ?? [];
         const finalOutput = outputs[outputs.length - 1];
         const report = (finalOutput as any)?.text || 'No report generated';
 
-        yield { type: 'complete', report };
+        const sources = new Map<string, ResearchSource>();
+        if (finalOutput?.type === 'text') {
+          const searchResults = outputs.flatMap(output => (output.type === 'google_search_result' ? output.result ?? [] : []));
+          addAnnotatedSources(sources, report, finalOutput.annotations ?? [], searchResults);
+        }
+        addLinkedSources(sources, report);
+
+        yield { type: 'complete', report, sources: [...sources.values()] };
         return;
       } else if (result.status === 'failed') {
         throw new Error((result as any).error || 'Deep research failed');
@@ -236,23 +363,22 @@ Provide a comprehensive but focused analysis. Quality over quantity.`;
     throw new Error('Research timed out');
   }
 
-  private async *runStandardResearch(prompt: string): AsyncGenerator<ResearchStep | { type: 'complete'; report: string }> {
+  private async *runStandardResearch(prompt: string): AsyncGenerator<ResearchStep | ResearchComplete> {
+    const researcher = getModel('researcher');
+
     yield {
       type: 'progress',
-      content: 'Running analysis with Gemini...',
+      content: `Running analysis with ${researcher.model}...`,
       timestamp: new Date().toISOString(),
     };
 
-    const client = this.getClient();
-
-    const response = await client.models.generateContent({
-      model: 'gemini-2.0-flash',
-      contents: prompt,
-    });
+    const report = await completeText(researcher, { prompt, maxTokens: 8192, role: 'researcher' }) || 'No report generated';
 
-    const report = response.text || 'No report generated';
+    // Plain completions carry no grounding metadata; the report's own links are the citations
+    const sources = new Map<string, ResearchSource>();
+    addLinkedSources(sources, report);
 
-    yield { type: 'complete', report };
+    yield { type: 'complete', report, sources: [...sources.values()] };
   }
 }
 
@@ -0,0 +1,196 @@
+/**
+ * LLM Usage Accounting
+ *
+ * Records model, tokens and estimated cost of every model call into the
+ * llm_usage table, using the service role. Routes and the research worker scope their work with
+ * withUsageContext(); calls made anywhere inside it (Mastra agents, the
+ * council, Gemini research) are attributed to that session or deal without
+ * passing ids through every workflow.
+ *
+ * The same context enforces the user's spend limits (user_settings): every
+ * call first runs assertWithinBudget(), which throws BudgetExceededError once
+ * this month's spend or the session's spend reaches its limit.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { ModelProvider, ModelRole } from '@/src/types/models';
+
+export interface UsageContext {
+  supabase: SupabaseClient;
+  userId: string;
+  sessionId?: string | null;
+  dealId?: string | null;
+  jobId?: string | null;
+}
+
+export interface LlmUsage {
+  role?: ModelRole;
+  provider: ModelProvider | 'mock';
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * List prices in USD per million tokens, matched against the model name in order
+ * (local and mock models are free)
+ */
+const MODEL_PRICING: Array<{ pattern: RegExp; input: number; output: number }> = [
+  { pattern: /^gpt-4o-mini/, input: 0.15, output: 0.6 },
+  { pattern: /^gpt-4o/, input: 2.5, output: 10 },
+  { pattern: /^gpt-4\.1-nano/, input: 0.1, output: 0.4 },
+  { pattern: /^gpt-4\.1-mini/, input: 0.4, output: 1.6 },
+  { pattern: /^gpt-4\.1/, input: 2, output: 8 },
+  { pattern: /^text-embedding-3-small/, input: 0.02, output: 0 },
+  { pattern: /^text-embedding-3-large/, input: 0.13, output: 0 },
+  { pattern: /^claude-.*haiku/, input: 0.8, output: 4 },
+  { pattern: /^claude-.*opus/, input: 15, output: 75 },
+  { pattern: /^claude-/, input: 3, output: 15 },
+  { pattern: /^gemini-.*flash-lite/, input: 0.075, output: 0.3 },
+  { pattern: /^gemini-2\.0-flash/, input: 0.1, output: 0.4 },
+  { pattern: /^gemini-.*flash/, input: 0.3, output: 2.5 },
+  { pattern: /^gemini-.*pro/, input: 1.25, output: 10 },
+  // Deep research is billed as the underlying Gemini Pro model
+  { pattern: /^deep-research/, input: 1.25, output: 10 },
+];
+
+export type BudgetScope = 'monthly' | 'session';
+
+/**
+ * Thrown before a model call once a spend limit is reached
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly scope: BudgetScope,
+    readonly limitUsd: number,
+    readonly spentUsd: number
+  ) {
+    super(`${scope === 'monthly' ? 'Monthly' : 'Session'} LLM budget of $${limitUsd.toFixed(2)} reached ($${spentUsd.toFixed(2)} spent)`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+let usageWriter: SupabaseClient | undefined;
+
+/**
+ * Usage rows are written with the service role; users can read theirs but
+ * not insert them, so a client can't offset recorded spend
+ */
+function getUsageWriter(): SupabaseClient {
+  usageWriter ??= createAdminClient();
+  return usageWriter;
+}
+
+/**
+ * Run `fn` with model calls attributed to the given user, session or deal.
+ * Works for sync functions too, e.g. constructing a ReadableStream whose
+ * start() keeps running after the route returns.
+ */
+export function withUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return usageContext.run(context, fn);
+}
+
+/**
+ * Estimated cost in USD for a call
+ */
+export function estimateCost(usage: Pick<LlmUsage, 'provider' | 'model' | 'inputTokens' | 'outputTokens'>): number {
+  if (usage.provider === 'local' || usage.provider === 'mock') return 0;
+
+  const price = MODEL_PRICING.find(p => p.pattern.test(usage.model));
+  if (!price) return 0;
+
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Persist one call's usage; a no-op outside a usage context.
+ * Failures are logged, never thrown, so accounting cannot break a pipeline.
+ */
+export async function recordUsage(usage: LlmUsage): Promise<void> {
+  const context = usageContext.getStore();
+  if (!context) return;
+
+  let supabase: SupabaseClient;
+  try {
+    supabase = getUsageWriter();
+  } catch (error) {
+    console.error(`Failed to record LLM usage for ${usage.provider}/${usage.model}:`, error);
+    return;
+  }
+
+  const { error } = await supabase.from('llm_usage').insert({
+    user_id: context.userId,
+    session_id: context.sessionId ?? null,
+    deal_id: context.dealId ?? null,
+    job_id: context.jobId ?? null,
+    role: usage.role ?? null,
+    provider: usage.provider,
+    model: usage.model,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    cost_usd: estimateCost(usage),
+  });
+
+  if (error) {
+    console.error(`Failed to record LLM usage for ${usage.provider}/${usage.model}:`, error);
+  }
+}
+
+/**
+ * The spend limit the context's user or session has reached, if any; null
+ * outside a usage context or without limits. Usage is recorded after each
+ * call, so calls already in flight can overshoot a limit slightly.
+ */
+export async function checkBudget(): Promise<BudgetExceededError | null> {
+  const context = usageContext.getStore();
+  if (!context) return null;
+
+  const { data: settings, error: settingsError } = await context.supabase
+    .from('user_settings')
+    .select('monthly_budget_usd, session_budget_usd')
+    .eq('user_id', context.userId)
+    .maybeSingle();
+
+  if (settingsError) {
+    console.error('Failed to load LLM budget:', settingsError);
+    return null;
+  }
+
+  // NUMERIC columns come back as strings; null means unlimited
+  const monthlyLimit = settings?.monthly_budget_usd != null ? Number(settings.monthly_budget_usd) : null;
+  const sessionLimit = context.sessionId && settings?.session_budget_usd != null ? Number(settings.session_budget_usd) : null;
+  if (monthlyLimit === null && sessionLimit === null) return null;
+
+  const { data: spend, error: spendError } = await context.supabase.rpc('get_llm_spend', {
+    p_user_id: context.userId,
+    p_session_id: context.sessionId ?? null,
+  });
+
+  if (spendError) {
+    console.error('Failed to load LLM spend:', spendError);
+    return null;
+  }
+
+  const monthlySpent = Number(spend?.[0]?.monthly_spend_usd ?? 0);
+  const sessionSpent = Number(spend?.[0]?.session_spend_usd ?? 0);
+
+  if (monthlyLimit !== null && monthlySpent >= monthlyLimit) {
+    return new BudgetExceededError('monthly', monthlyLimit, monthlySpent);
+  }
+  if (sessionLimit !== null && sessionSpent >= sessionLimit) {
+    return new BudgetExceededError('session', sessionLimit, sessionSpent);
+  }
+  return null;
+}
+
+/**
+ * Throw BudgetExceededError if a spend limit has been reached; runs before every model call
+ */
+export async function assertWithinBudget(): Promise<void> {
+  const exceeded = await checkBudget();
+  if (exceeded) throw exceeded;
+}
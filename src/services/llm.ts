@@ -0,0 +1,221 @@
+/**
+ * LLM Service
+ *
+ * Plain text completions against whichever provider the model registry
+ * (src/mastra/models.ts) picks, for services and routes that call models
+ * directly rather than through Mastra agents. Clients are created lazily
+ * so a missing key only fails the calls that need it. In mock mode every
+ * call is answered by the mock provider's script for `role`. Each call is
+ * checked against the user's spend limits and its token usage is recorded
+ * to llm_usage.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { GoogleGenAI } from '@google/genai';
+import OpenAI from 'openai';
+import { getLocalEndpoint, getProviderApiKey, isMockMode, type ModelRole, type ModelSpec } from '@/src/mastra/models';
+import { estimateTokens, getMockResponse, mockTextStream } from '@/src/mastra/mock-model';
+import { assertWithinBudget, recordUsage } from './llm-usage';
+
+export interface CompletionOptions {
+  system?: string;
+  prompt: string;
+  maxTokens: number;
+  /** Role the call plays, used to pick the mock response */
+  role?: ModelRole;
+}
+
+const clients: {
+  openai?: OpenAI;
+  local?: OpenAI;
+  anthropic?: Anthropic;
+  google?: GoogleGenAI;
+} = {};
+
+function requireKey(provider: 'openai' | 'anthropic' | 'google'): string {
+  const apiKey = getProviderApiKey(provider);
+  if (!apiKey) {
+    throw new Error(`No API key configured for ${provider}`);
+  }
+  return apiKey;
+}
+
+/**
+ * OpenAI SDK client for OpenAI itself or the local OpenAI-compatible endpoint
+ */
+function getOpenAIClient(provider: 'openai' | 'local'): OpenAI {
+  if (provider === 'local') {
+    const { url, apiKey } = getLocalEndpoint();
+    return (clients.local ??= new OpenAI({ baseURL: url, apiKey }));
+  }
+  return (clients.openai ??= new OpenAI({ apiKey: requireKey('openai') }));
+}
+
+function getAnthropicClient(): Anthropic {
+  return (clients.anthropic ??= new Anthropic({ apiKey: requireKey('anthropic') }));
+}
+
+export function getGoogleClient(): GoogleGenAI {
+  return (clients.google ??= new GoogleGenAI({ apiKey: requireKey('google') }));
+}
+
+/**
+ * Generate a complete response
+ */
+export async function completeText(spec: ModelSpec, options: CompletionOptions): Promise<string> {
+  const { system, prompt, maxTokens, role } = options;
+
+  await assertWithinBudget();
+
+  if (isMockMode()) {
+    const text = getMockResponse(role);
+    await recordUsage({
+      role,
+      provider: 'mock',
+      model: role ?? 'generic',
+      inputTokens: estimateTokens(`${system ?? ''}${prompt}`),
+      outputTokens: estimateTokens(text),
+    });
+    return text;
+  }
+
+  switch (spec.provider) {
+    case 'openai':
+    case 'local': {
+      const response = await getOpenAIClient(spec.provider).chat.completions.create({
+        model: spec.model,
+        messages: [
+          ...(system ? [{ role: 'system' as const, content: system }] : []),
+          { role: 'user', content: prompt },
+        ],
+        max_tokens: maxTokens,
+      });
+      await recordUsage({
+        role,
+        ...spec,
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      });
+      return response.choices[0]?.message?.content || '';
+    }
+
+    case 'anthropic': {
+      const response = await getAnthropicClient().messages.create({
+        model: spec.model,
+        max_tokens: maxTokens,
+        ...(system ? { system } : {}),
+        messages: [{ role: 'user', content: prompt }],
+      });
+      await recordUsage({
+        role,
+        ...spec,
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      });
+      return response.content[0]?.type === 'text' ? response.content[0].text : '';
+    }
+
+    case 'google': {
+      const response = await getGoogleClient().models.generateContent({
+        model: spec.model,
+        contents: prompt,
+        config: { systemInstruction: system, maxOutputTokens: maxTokens },
+      });
+      await recordUsage({
+        role,
+        ...spec,
+        inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      });
+      return response.text || '';
+    }
+  }
+}
+
+/**
+ * Stream a response as text deltas
+ */
+export async function* streamText(spec: ModelSpec, options: CompletionOptions): AsyncGenerator<string> {
+  const { system, prompt, maxTokens, role } = options;
+
+  await assertWithinBudget();
+
+  if (isMockMode()) {
+    yield* mockTextStream(role);
+    await recordUsage({
+      role,
+      provider: 'mock',
+      model: role ?? 'generic',
+      inputTokens: estimateTokens(`${system ?? ''}${prompt}`),
+      outputTokens: estimateTokens(getMockResponse(role)),
+    });
+    return;
+  }
+
+  switch (spec.provider) {
+    case 'openai':
+    case 'local': {
+      const stream = await getOpenAIClient(spec.provider).chat.completions.create({
+        model: spec.model,
+        messages: [
+          ...(system ? [{ role: 'system' as const, content: system }] : []),
+          { role: 'user', content: prompt },
+        ],
+        stream: true,
+        stream_options: { include_usage: true },
+        max_tokens: maxTokens,
+      });
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield content;
+        // Usage arrives on the final chunk, which has no choices
+        if (chunk.usage) {
+          await recordUsage({
+            role,
+            ...spec,
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+          });
+        }
+      }
+      return;
+    }
+
+    case 'anthropic': {
+      const stream = getAnthropicClient().messages.stream({
+        model: spec.model,
+        max_tokens: maxTokens,
+        ...(system ? { system } : {}),
+        messages: [{ role: 'user', content: prompt }],
+      });
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text;
+        }
+      }
+      const { usage } = await stream.finalMessage();
+      await recordUsage({ role, ...spec, inputTokens: usage.input_tokens, outputTokens: usage.output_tokens });
+      return;
+    }
+
+    case 'google': {
+      const stream = await getGoogleClient().models.generateContentStream({
+        model: spec.model,
+        contents: prompt,
+        config: { systemInstruction: system, maxOutputTokens: maxTokens },
+      });
+      let usage: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined;
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+        usage = chunk.usageMetadata ?? usage;
+      }
+      await recordUsage({
+        role,
+        ...spec,
+        inputTokens: usage?.promptTokenCount ?? 0,
+        outputTokens: usage?.candidatesTokenCount ?? 0,
+      });
+      return;
+    }
+  }
+}
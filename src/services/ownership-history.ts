@@ -0,0 +1,136 @@
+/**
+ * Ownership History Service
+ *
+ * Stores each quarter's institutional and mutual fund positions per ticker in
+ * institutional_ownership_history, and diffs the current positions against
+ * the last stored quarter so exits show up alongside new positions, adds and
+ * trims.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { computeOwnershipDelta, fetchHolderPositions } from '@/src/mastra/tools/ownership';
+import type { HolderPosition, HolderType, OwnershipChange, OwnershipDelta } from '@/src/types/ownership';
+
+interface OwnershipHistoryRow {
+  ticker: string;
+  holder: string;
+  holder_type: HolderType;
+  report_date: string;
+  shares: number;
+  change: number;
+}
+
+/**
+ * Positions from the latest stored quarter before `reportDate`
+ */
+async function getPriorSnapshot(
+  supabase: SupabaseClient,
+  ticker: string,
+  reportDate: string
+): Promise<{ reportDate: string; positions: HolderPosition[] } | null> {
+  const { data: latest, error: latestError } = await supabase
+    .from('institutional_ownership_history')
+    .select('report_date')
+    .eq('ticker', ticker)
+    .lt('report_date', reportDate)
+    .order('report_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw latestError;
+  if (!latest) return null;
+
+  const { data, error } = await supabase
+    .from('institutional_ownership_history')
+    .select('ticker, holder, holder_type, report_date, shares, change')
+    .eq('ticker', ticker)
+    .eq('report_date', latest.report_date);
+
+  if (error) throw error;
+  return {
+    reportDate: latest.report_date,
+    positions: ((data || []) as OwnershipHistoryRow[]).map(row => ({
+      holder: row.holder,
+      holderType: row.holder_type,
+      shares: row.shares,
+      change: row.change,
+      dateReported: row.report_date,
+    })),
+  };
+}
+
+/**
+ * Store positions under the snapshot's report date; re-running a quarter
+ * replaces its rows
+ */
+async function saveSnapshot(
+  supabase: SupabaseClient,
+  ticker: string,
+  reportDate: string,
+  positions: HolderPosition[]
+): Promise<void> {
+  if (positions.length === 0 || !reportDate) return;
+
+  const rows: OwnershipHistoryRow[] = positions.map(position => ({
+    ticker,
+    holder: position.holder,
+    holder_type: position.holderType,
+    report_date: reportDate,
+    shares: position.shares,
+    change: position.change,
+  }));
+
+  const { error } = await supabase
+    .from('institutional_ownership_history')
+    .upsert(rows, { onConflict: 'ticker,holder,holder_type,report_date' });
+
+  if (error) throw error;
+}
+
+/**
+ * Ownership changes for a ticker against the stored history, recording the
+ * current quarter for next time
+ */
+export async function trackOwnership(supabase: SupabaseClient, ticker: string): Promise<OwnershipDelta> {
+  const positions = await fetchHolderPositions(ticker);
+  const reportDate = positions.reduce((latest, p) => (p.dateReported > latest ? p.dateReported : latest), '');
+  const prior = reportDate ? await getPriorSnapshot(supabase, ticker, reportDate) : null;
+
+  await saveSnapshot(supabase, ticker, reportDate, positions);
+  return computeOwnershipDelta(ticker, positions, prior);
+}
+
+function formatShares(shares: number): string {
+  const abs = Math.abs(shares);
+  const sign = shares < 0 ? '-' : '+';
+  if (abs >= 1e6) return `${sign}${(abs / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${sign}${Math.round(abs / 1e3)}K`;
+  return `${sign}${abs}`;
+}
+
+function formatMove(change: OwnershipChange): string {
+  const pct = change.changePct !== null && change.action !== 'exit' ? ` (${(change.changePct * 100).toFixed(0)}%)` : '';
+  return `${change.holder} ${change.action} ${formatShares(change.change)} shares${pct}`;
+}
+
+/**
+ * Ownership changes as markdown for agent prompts
+ */
+export function formatOwnershipForPrompt(deltas: OwnershipDelta[]): string {
+  return deltas
+    .map(delta => {
+      const since = delta.priorReportDate ? `since ${delta.priorReportDate}` : 'over the last reported quarter';
+      const net = delta.netChangePct !== null ? ` (${(delta.netChangePct * 100).toFixed(1)}%)` : '';
+      const lines = [
+        `### ${delta.ticker} (13F as of ${delta.reportDate})`,
+        `- Trend: ${delta.trend}, net ${formatShares(delta.netShareChange)} institutional shares${net} ${since}`,
+        `- ${delta.counts.new} new positions, ${delta.counts.exits} exits, ${delta.counts.adds} adds, ${delta.counts.trims} trims across ${delta.holders} holders`,
+      ];
+      if (delta.notableMoves.length > 0) lines.push(`- Notable funds: ${delta.notableMoves.map(formatMove).join('; ')}`);
+      if (delta.topBuyers.length > 0) lines.push(`- Top buyers: ${delta.topBuyers.map(formatMove).join('; ')}`);
+      if (delta.topSellers.length > 0) lines.push(`- Top sellers: ${delta.topSellers.map(formatMove).join('; ')}`);
+      for (const warning of delta.warnings) lines.push(`- Note: ${warning}`);
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
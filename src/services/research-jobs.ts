@@ -0,0 +1,550 @@
+/**
+ * Research Jobs Service
+ *
+ * Runs the research pipelines out of band. API routes enqueue a job and
+ * return its id; the research worker (src/workers/research-worker.ts) claims
+ * and executes it, persisting every event to research_job_events so clients
+ * can replay the stream or reattach to it after a disconnect.
+ *
+ * A job that reaches the user's spend limit emits a `budget_exceeded` event
+ * and completes without error instead of failing.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { runResearch } from '@/src/mastra/workflows/thesis-based-investment';
+import { runAutonomousInvestmentWorkflow, type AutonomousInvestmentInput } from '@/src/mastra/workflows/autonomous-investment';
+import {
+  runSpecializedResearch,
+  invalidateCheckpoints,
+  type CheckpointPhase,
+  type PipelineCheckpoints,
+  type SpecializedResearchOutput,
+} from './specialized-research';
+import { councilService } from './council-service';
+import { BudgetExceededError, withUsageContext } from './llm-usage';
+import { getRecentCorporateEvents, saveCorporateEvents } from './corporate-events';
+import { saveDiscoveredOpportunities } from './research-opportunities';
+import { formatOwnershipForPrompt, trackOwnership } from './ownership-history';
+import { runFactCheck } from './fact-check';
+import type { ResearchSession } from '@/src/lib/actions/research';
+import type { ResearchStrategy } from '@/src/types/research';
+import { getModel } from '@/src/mastra/models';
+import { buildDefaultCouncilConfig, councilConfigSchema, type CouncilConfig } from '@/src/types/council';
+
+export type ResearchJobKind = 'thesis_research' | 'specialized_research' | 'council' | 'autonomous_investment';
+
+export type ResearchJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Input stored with each job kind
+ */
+export interface ResearchJobInputs {
+  thesis_research: Record<string, never>;
+  specialized_research: { strategy: ResearchStrategy; resume?: boolean; retryPhase?: CheckpointPhase };
+  council: Record<string, never>;
+  autonomous_investment: AutonomousInvestmentInput;
+}
+
+export interface ResearchJob<K extends ResearchJobKind = ResearchJobKind> {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  kind: K;
+  input: ResearchJobInputs[K];
+  status: ResearchJobStatus;
+  result: unknown;
+  error: string | null;
+  attempts: number;
+  worker_id: string | null;
+  started_at: string | null;
+  heartbeat_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A persisted job event. `data` is the SSE payload sent to the client.
+ */
+export interface ResearchJobEvent {
+  seq: number;
+  type: string;
+  data: { type: string; [key: string]: unknown };
+}
+
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+export function isJobFinished(status: ResearchJobStatus): boolean {
+  return status === 'completed' || status === 'failed';
+}
+
+/**
+ * Enqueue a job, or return the session's job of the same kind that is still queued or running
+ */
+export async function enqueueResearchJob<K extends ResearchJobKind>(
+  supabase: SupabaseClient,
+  options: { userId: string; sessionId?: string; kind: K; input: ResearchJobInputs[K] }
+): Promise<ResearchJob<K>> {
+  const { userId, sessionId, kind, input } = options;
+
+  if (sessionId) {
+    const active = await getActiveResearchJob(supabase, sessionId, kind);
+    if (active) return active as ResearchJob<K>;
+  }
+
+  const { data, error } = await supabase
+    .from('research_jobs')
+    .insert({
+      user_id: userId,
+      session_id: sessionId ?? null,
+      kind,
+      input,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getResearchJob(supabase: SupabaseClient, jobId: string): Promise<ResearchJob | null> {
+  const { data, error } = await supabase
+    .from('research_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (error) return null;
+  return data;
+}
+
+/**
+ * Latest queued or running job for a session, so the UI can reattach after a reload
+ */
+export async function getActiveResearchJob(
+  supabase: SupabaseClient,
+  sessionId: string,
+  kind?: ResearchJobKind
+): Promise<ResearchJob | null> {
+  let query = supabase
+    .from('research_jobs')
+    .select('*')
+    .eq('session_id', sessionId)
+    .in('status', ['queued', 'running']);
+
+  if (kind) {
+    query = query.eq('kind', kind);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getResearchJobEvents(
+  supabase: SupabaseClient,
+  jobId: string,
+  afterSeq = 0
+): Promise<ResearchJobEvent[]> {
+  const { data, error } = await supabase
+    .from('research_job_events')
+    .select('seq, type, data')
+    .eq('job_id', jobId)
+    .gt('seq', afterSeq)
+    .order('seq', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Claim the next runnable job for this worker (service-role client only)
+ */
+export async function claimResearchJob(supabase: SupabaseClient, workerId: string): Promise<ResearchJob | null> {
+  const { data, error } = await supabase.rpc('claim_research_job', { p_worker_id: workerId });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+/**
+ * Execution context handed to each job runner
+ */
+interface JobContext<K extends ResearchJobKind> {
+  supabase: SupabaseClient;
+  job: ResearchJob<K>;
+  emit: (data: ResearchJobEvent['data']) => Promise<void>;
+}
+
+type JobRunner<K extends ResearchJobKind> = (ctx: JobContext<K>) => Promise<unknown>;
+
+/**
+ * The job's session. The worker bypasses RLS, so the session must belong to the job's user.
+ */
+async function loadSession(supabase: SupabaseClient, job: ResearchJob): Promise<ResearchSession> {
+  if (!job.session_id) throw new Error('Job has no research session');
+
+  const { data, error } = await supabase
+    .from('research_sessions')
+    .select('*')
+    .eq('id', job.session_id)
+    .eq('user_id', job.user_id)
+    .single();
+
+  if (error || !data) throw new Error('Session not found');
+  return data;
+}
+
+const runThesisResearch: JobRunner<'thesis_research'> = async ({ supabase, job, emit }) => {
+  const session = await loadSession(supabase, job);
+
+  await supabase
+    .from('research_sessions')
+    .update({ status: 'researching', research_started_at: new Date().toISOString() })
+    .eq('id', session.id);
+
+  await emit({ type: 'status', message: 'Starting research...' });
+
+  const result = await runResearch(
+    { thesis: session.thesis, strategy: session.strategy },
+    (message) => { emit({ type: 'progress', message }); }
+  );
+
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  await emit({ type: 'progress', message: 'Checking the report\'s figures against FMP data...' });
+
+  // The report is already paid for, so keep it unchecked rather than fail the job
+  const checked = await runFactCheck(result.report).catch((error) => {
+    console.error(`Fact check failed for session ${session.id}:`, error);
+    return null;
+  });
+
+  await supabase
+    .from('research_sessions')
+    .update({
+      research_report: checked?.report ?? result.report,
+      fact_check: checked?.factCheck ?? null,
+      research_sources: result.sources,
+      research_completed_at: new Date().toISOString(),
+      status: 'deliberation',
+    })
+    .eq('id', session.id);
+
+  await emit({ type: 'complete', duration: result.duration });
+  return { duration: result.duration };
+};
+
+const runSpecializedResearchJob: JobRunner<'specialized_research'> = async ({ supabase, job, emit }) => {
+  const session = await loadSession(supabase, job);
+  const { strategy, resume, retryPhase } = job.input;
+
+  // A fresh run starts over; a resume keeps completed phases (minus any being retried)
+  let checkpoints: PipelineCheckpoints = resume ? { ...session.pipeline_checkpoints } : {};
+  if (retryPhase) {
+    checkpoints = invalidateCheckpoints(checkpoints, retryPhase);
+  }
+  delete checkpoints.failure;
+
+  const saveCheckpoints = async (extra: Record<string, unknown> = {}) => {
+    await supabase
+      .from('research_sessions')
+      .update({ pipeline_checkpoints: checkpoints, ...extra })
+      .eq('id', session.id);
+  };
+
+  await saveCheckpoints({ status: 'researching', research_started_at: new Date().toISOString() });
+
+  let results: SpecializedResearchOutput | undefined;
+
+  const phases = runSpecializedResearch({
+    sessionId: session.id,
+    thesis: session.thesis,
+    strategy,
+    checkpoints,
+    onCheckpoint: async (phase, checkpoint) => {
+      checkpoints = { ...checkpoints, [phase]: checkpoint };
+      // Surface the report as soon as research finishes, even if a later phase fails
+      const report = 'researchReport' in checkpoint ? { research_report: checkpoint.researchReport } : {};
+      await saveCheckpoints('sources' in checkpoint ? { ...report, research_sources: checkpoint.sources ?? [] } : report);
+    },
+  });
+
+  for await (const phase of phases) {
+    await emit({
+      type: phase.phase,
+      agent: phase.agent,
+      content: phase.content,
+      failedPhase: phase.failedPhase,
+      timestamp: phase.timestamp,
+    });
+
+    if (phase.phase === 'error' || phase.phase === 'budget_exceeded') {
+      checkpoints = {
+        ...checkpoints,
+        failure: {
+          phase: phase.failedPhase ?? 'research',
+          error: phase.content || 'Research failed',
+          failedAt: phase.timestamp,
+        },
+      };
+      await saveCheckpoints({ status: 'pending' });
+
+      // Completed phases stay checkpointed, so raising the limit and resuming picks up here
+      if (phase.phase === 'budget_exceeded') {
+        return { budgetExceeded: phase.content };
+      }
+      throw new Error(phase.content || 'Research failed');
+    }
+
+    if (phase.phase === 'complete' && phase.content) {
+      results = JSON.parse(phase.content);
+    }
+  }
+
+  if (!results) {
+    throw new Error('Research finished without results');
+  }
+
+  // Diff against the stored quarter so exits show up, and record this one for next time
+  const ownership = await Promise.all((results.ownership ?? []).map(delta =>
+    trackOwnership(supabase, delta.ticker).catch(error => {
+      console.error(`Ownership history error for ${delta.ticker}:`, error);
+      return delta;
+    })
+  ));
+
+  const timestamp = new Date().toISOString();
+  await supabase
+    .from('research_sessions')
+    .update({
+      research_report: results.researchReport,
+      research_completed_at: timestamp,
+      status: 'council_gather',
+      council_analyses: [
+        { agent: 'macro', role: 'Market Cycle', analysis: results.macroContext, timestamp },
+        { agent: results.agentUsed, role: strategy, analysis: results.strategyAnalysis, timestamp },
+        { agent: 'skeptic', role: 'Skeptic', analysis: results.skepticCritique, timestamp },
+        { agent: 'risk-officer', role: 'Risk Officer', analysis: results.riskAssessment, timestamp },
+      ].filter(a => a.analysis),
+      valuations: results.valuations ?? [],
+      comparables: results.comparables ?? [],
+      ownership_changes: ownership,
+      capital_structures: results.capitalStructures ?? [],
+      fact_check: results.factCheck ?? null,
+      research_sources: results.sources ?? [],
+      verdict: results.structuredVerdict?.decision.toLowerCase() ?? null,
+      final_verdict: results.structuredVerdict ? {
+        ...results.structuredVerdict,
+        markdown: results.verdict,
+        timestamp,
+      } : null,
+    })
+    .eq('id', session.id);
+
+  return { agentUsed: results.agentUsed, decision: results.structuredVerdict?.decision ?? null };
+};
+
+/**
+ * Council configuration for a session: its own, else the user's default, else the built-in default
+ */
+async function resolveCouncilConfig(supabase: SupabaseClient, session: ResearchSession): Promise<CouncilConfig> {
+  let stored: unknown = session.council_config;
+
+  if (!stored) {
+    const { data } = await supabase
+      .from('user_settings')
+      .select('council_config')
+      .eq('user_id', session.user_id)
+      .maybeSingle();
+    stored = data?.council_config;
+  }
+
+  const parsed = councilConfigSchema.safeParse(stored);
+  return parsed.success ? parsed.data : buildDefaultCouncilConfig(getModel);
+}
+
+const runCouncilJob: JobRunner<'council'> = async ({ supabase, job, emit }) => {
+  const session = await loadSession(supabase, job);
+
+  if (!session.research_report) {
+    throw new Error('Research report not found');
+  }
+
+  const config = await resolveCouncilConfig(supabase, session);
+  await emit({ type: 'progress', content: `Convening investment council (${config.personas.length} members)...` });
+
+  const { analyses, debate } = await councilService.runCouncilAnalysis({
+    researchReport: session.ownership_changes?.length
+      ? `${session.research_report}\n\n## Institutional Ownership Changes\n${formatOwnershipForPrompt(session.ownership_changes)}`
+      : session.research_report,
+    thesis: session.thesis,
+    config,
+  });
+
+  const councilAnalyses = [...(session.council_analyses || [])];
+  for (const analysis of analyses) {
+    await emit({
+      type: 'analysis',
+      agent: analysis.agent,
+      role: analysis.role,
+      persona: analysis.persona,
+      model: analysis.model,
+      content: analysis.analysis,
+    });
+
+    councilAnalyses.push({ agent: analysis.role, analysis: analysis.analysis, timestamp: new Date().toISOString() });
+    await supabase
+      .from('research_sessions')
+      .update({
+        council_analyses: councilAnalyses,
+        council_started_at: session.council_started_at || new Date().toISOString(),
+      })
+      .eq('id', session.id);
+  }
+
+  for (const round of debate) {
+    await emit({ type: 'debate_round', round: round.round, kind: round.type, converged: round.converged, messages: round.messages });
+  }
+
+  await supabase
+    .from('research_sessions')
+    .update({
+      council_debate: debate,
+      council_completed_at: new Date().toISOString(),
+      status: 'deliberation',
+    })
+    .eq('id', session.id);
+
+  await emit({ type: 'complete' });
+  return { analyses: analyses.length, rounds: debate.length, config };
+};
+
+const runAutonomousInvestmentJob: JobRunner<'autonomous_investment'> = async ({ supabase, job, emit }) => {
+  const knownEvents = job.input.discoveryTypes.includes('special-sits')
+    ? await getRecentCorporateEvents(supabase).catch((error) => {
+      console.warn('Failed to load corporate events:', error);
+      return [];
+    })
+    : [];
+
+  const result = await runAutonomousInvestmentWorkflow(
+    { ...job.input, corporateEvents: job.input.corporateEvents ?? knownEvents },
+    (message) => { emit({ type: 'progress', message }); }
+  );
+
+  try {
+    await saveCorporateEvents(supabase, result.corporateEvents);
+  } catch (error) {
+    console.error(`Failed to save corporate events for job ${job.id}:`, error);
+  }
+
+  // Runs started from a research session show their opportunities there
+  if (job.session_id) {
+    const session = await loadSession(supabase, job);
+    await saveDiscoveredOpportunities(supabase, session.id, result);
+  }
+
+  if (result.budgetExceeded) {
+    await emit({ type: 'budget_exceeded', message: result.budgetExceeded, summary: result.summary });
+  } else {
+    await emit({ type: 'complete', summary: result.summary, duration: result.duration });
+  }
+  return result;
+};
+
+const JOB_RUNNERS: { [K in ResearchJobKind]: JobRunner<K> } = {
+  thesis_research: runThesisResearch,
+  specialized_research: runSpecializedResearchJob,
+  council: runCouncilJob,
+  autonomous_investment: runAutonomousInvestmentJob,
+};
+
+/**
+ * Run a claimed job to completion, persisting its events and final status
+ */
+export async function executeResearchJob(supabase: SupabaseClient, job: ResearchJob): Promise<void> {
+  // Continue numbering after events from an earlier, abandoned attempt
+  const previous = await getResearchJobEvents(supabase, job.id);
+  let seq = previous.at(-1)?.seq ?? 0;
+  let finished = false;
+
+  // Events are written in order even when emitted from synchronous callbacks
+  let pending = Promise.resolve();
+  const emit = (data: ResearchJobEvent['data']): Promise<void> => {
+    pending = pending.then(async () => {
+      seq++;
+      if (data.type === 'complete' || data.type === 'error' || data.type === 'budget_exceeded') finished = true;
+
+      const { error } = await supabase
+        .from('research_job_events')
+        .insert({ job_id: job.id, seq, type: data.type, data });
+
+      if (error) console.error(`Failed to persist event ${seq} for job ${job.id}:`, error);
+    });
+    return pending;
+  };
+
+  const heartbeat = setInterval(() => {
+    supabase
+      .from('research_jobs')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .then(({ error }) => {
+        if (error) console.error(`Heartbeat failed for job ${job.id}:`, error);
+      });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const runner = JOB_RUNNERS[job.kind] as JobRunner<ResearchJobKind>;
+    const result = await withUsageContext(
+      { supabase, userId: job.user_id, sessionId: job.session_id, jobId: job.id },
+      () => runner({ supabase, job, emit })
+    );
+    await pending;
+
+    if (!finished) {
+      await emit({ type: 'complete' });
+    }
+
+    await supabase
+      .from('research_jobs')
+      .update({ status: 'completed', result, completed_at: new Date().toISOString() })
+      .eq('id', job.id);
+  } catch (error) {
+    await pending;
+
+    if (error instanceof BudgetExceededError) {
+      const { scope, limitUsd, spentUsd, message } = error;
+      if (!finished) {
+        await emit({ type: 'budget_exceeded', message, scope, limitUsd, spentUsd });
+      }
+
+      await supabase
+        .from('research_jobs')
+        .update({ status: 'completed', result: { budgetExceeded: message }, completed_at: new Date().toISOString() })
+        .eq('id', job.id);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : 'Job failed';
+    console.error(`Research job ${job.id} (${job.kind}) failed:`, error);
+
+    if (!finished) {
+      await emit({ type: 'error', message });
+    }
+
+    await supabase
+      .from('research_jobs')
+      .update({ status: 'failed', error: message, completed_at: new Date().toISOString() })
+      .eq('id', job.id);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Research Opportunities Service
+ *
+ * Stores the results of an autonomous investment run on the research session
+ * that started it: the discovered opportunities for the session view, and one
+ * research_opportunities row per opportunity with its deal terms, insider
+ * signal and, for the ones researched, the analysis and verdict.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AutonomousInvestmentOutput, AnalyzedOpportunity } from '@/src/mastra/workflows/autonomous-investment';
+import type { Opportunity } from '@/src/mastra/workflows/opportunity-discovery';
+
+function toRow(sessionId: string, opportunity: Opportunity, analyzed: AnalyzedOpportunity | undefined) {
+  const row = {
+    session_id: sessionId,
+    ticker: opportunity.ticker,
+    company_name: opportunity.companyName,
+    thesis: opportunity.thesis,
+    type: opportunity.type,
+    key_metrics: opportunity.keyMetrics,
+    deal_terms: opportunity.dealTerms ?? null,
+    insider_signal: opportunity.insiderSignal ?? null,
+    risk_level: opportunity.riskLevel,
+    score: opportunity.score !== undefined ? Math.round(opportunity.score) : null,
+    status: 'pending' as const,
+  };
+  if (!analyzed) return row;
+
+  return {
+    ...row,
+    research_report: analyzed.researchReport ?? null,
+    strategy_analysis: analyzed.strategyAnalysis ?? null,
+    critiques: analyzed.critiques ?? {},
+    verdict: analyzed.structuredVerdict
+      ? { ...analyzed.structuredVerdict, markdown: analyzed.verdict ?? '', timestamp: new Date().toISOString() }
+      : null,
+    final_score: analyzed.finalScore ?? null,
+    status: analyzed.researchReport ? 'completed' as const : 'failed' as const,
+    errors: analyzed.errors ?? [],
+  };
+}
+
+/**
+ * Store a run's discovered opportunities on the session, replacing any from
+ * an earlier run
+ */
+export async function saveDiscoveredOpportunities(
+  supabase: SupabaseClient,
+  sessionId: string,
+  result: Pick<AutonomousInvestmentOutput, 'discovered' | 'analyzed'>
+): Promise<void> {
+  const opportunities = result.discovered;
+  const analyzed = new Map(result.analyzed.map(a => [a.opportunity.ticker, a]));
+
+  const { error: sessionError } = await supabase
+    .from('research_sessions')
+    .update({ discovered_opportunities: opportunities })
+    .eq('id', sessionId);
+
+  if (sessionError) throw sessionError;
+
+  const { error: deleteError } = await supabase
+    .from('research_opportunities')
+    .delete()
+    .eq('session_id', sessionId);
+
+  if (deleteError) throw deleteError;
+  if (opportunities.length === 0) return;
+
+  const { error } = await supabase
+    .from('research_opportunities')
+    .insert(opportunities.map(opp => toRow(sessionId, opp, analyzed.get(opp.ticker))));
+
+  if (error) throw error;
+}
@@ -6,11 +6,53 @@
  */
 
 import { geminiResearch } from './gemini-research';
+import { BudgetExceededError } from './llm-usage';
 import { valueAgent, specialSitsAgent, distressedAgent } from '@/src/mastra';
-import { skepticAgent } from '@/src/mastra/agents/skeptic-agent';
-import { riskOfficerAgent } from '@/src/mastra/agents/risk-officer-agent';
-import { verdictAgent } from '@/src/mastra/agents/verdict-agent';
+import { skepticAgent, SKEPTIC_MAX_STEPS } from '@/src/mastra/agents/skeptic-agent';
+import { riskOfficerAgent, RISK_OFFICER_MAX_STEPS } from '@/src/mastra/agents/risk-officer-agent';
+import { generateStructuredVerdict, type InvestmentVerdict } from '@/src/mastra/agents/verdict-agent';
+import { generateMacroContext } from '@/src/mastra/agents/macro-agent';
+import { collectValuations } from '@/src/mastra/tools/valuation';
+import { collectComparables } from '@/src/mastra/tools/comparables';
+import { collectOwnershipDeltas } from '@/src/mastra/tools/ownership';
+import { collectCapitalStructures } from '@/src/mastra/tools/capital-structure';
+import { formatOwnershipForPrompt } from './ownership-history';
+import { runFactCheck } from './fact-check';
 import type { ResearchStrategy } from '@/src/types/research';
+import type { IntrinsicValueEstimate } from '@/src/types/valuation';
+import type { ComparablesTable } from '@/src/types/comparables';
+import type { OwnershipDelta } from '@/src/types/ownership';
+import type { CapitalStructure } from '@/src/types/capital-structure';
+import type { FactCheck } from '@/src/types/fact-check';
+import type { ResearchSource } from '@/src/types/research-sources';
+
+/**
+ * Pipeline phases whose output is checkpointed per session
+ */
+export type CheckpointPhase = 'research' | 'fact_check' | 'strategy_analysis' | 'critique' | 'verdict';
+
+export const CHECKPOINT_PHASES: CheckpointPhase[] = ['research', 'fact_check', 'strategy_analysis', 'critique', 'verdict'];
+
+/**
+ * Saved phase outputs, stored in research_sessions.pipeline_checkpoints
+ */
+export interface PipelineCheckpoints {
+  research?: { researchReport: string; sources?: ResearchSource[]; completedAt: string };
+  /** researchReport is the annotated report; factCheck is null when the check failed */
+  fact_check?: { researchReport: string; factCheck: FactCheck | null; completedAt: string };
+  strategy_analysis?: {
+    strategyAnalysis: string;
+    macroContext?: string;
+    valuations?: IntrinsicValueEstimate[];
+    comparables?: ComparablesTable[];
+    ownership?: OwnershipDelta[];
+    capitalStructures?: CapitalStructure[];
+    completedAt: string;
+  };
+  critique?: { skepticCritique: string; riskAssessment: string; completedAt: string };
+  verdict?: { verdict: string; structuredVerdict: InvestmentVerdict; completedAt: string };
+  failure?: { phase: CheckpointPhase; error: string; failedAt: string };
+}
 
 export interface SpecializedResearchInput {
   sessionId: string;
@@ -18,21 +60,32 @@ export interface SpecializedResearchInput {
   strategy: ResearchStrategy;
   companyName?: string;
   ticker?: string;
+  checkpoints?: PipelineCheckpoints;
+  onCheckpoint?: <P extends CheckpointPhase>(phase: P, checkpoint: NonNullable<PipelineCheckpoints[P]>) => Promise<void>;
 }
 
 export interface ResearchPhase {
-  phase: 'starting' | 'researching' | 'strategy_analysis' | 'critique' | 'verdict' | 'complete' | 'error';
+  phase: 'starting' | 'researching' | 'fact_check' | 'strategy_analysis' | 'critique' | 'verdict' | 'complete' | 'error' | 'budget_exceeded';
   agent?: string;
   content?: string;
+  failedPhase?: CheckpointPhase;
   timestamp: string;
 }
 
 export interface SpecializedResearchOutput {
   researchReport: string;
+  sources?: ResearchSource[];
+  factCheck?: FactCheck;
   strategyAnalysis?: string;
+  macroContext?: string;
+  valuations?: IntrinsicValueEstimate[];
+  comparables?: ComparablesTable[];
+  ownership?: OwnershipDelta[];
+  capitalStructures?: CapitalStructure[];
   skepticCritique?: string;
   riskAssessment?: string;
   verdict?: string;
+  structuredVerdict?: InvestmentVerdict;
   strategy: ResearchStrategy;
   agentUsed: string;
 }
@@ -60,6 +113,7 @@ function buildStrategyPrompt(
   thesis: string,
   researchReport: string,
   strategy: ResearchStrategy,
+  macroContext: string,
   companyName?: string,
   ticker?: string
 ): string {
@@ -73,13 +127,13 @@ ${thesis}
 
 ## Gemini Deep Research Report
 ${researchReport}
-
+${macroContext ? `\n## Market Cycle Context\n${macroContext}\n` : ''}
 ---
 
 ## Your Task
 Based on the research above, provide your specialized analysis from your unique investment perspective.
 Focus on:
-1. How this opportunity aligns (or doesn't) with your investment philosophy
+1. How this opportunity aligns (or doesn't) with your investment philosophy and the current market cycle
 2. Key factors you find most compelling or concerning
 3. Your specific valuation approach and target price
 4. Recommended position sizing and risk management
@@ -89,160 +143,354 @@ Focus on:
   return baseContext;
 }
 
+/**
+ * Build the context the Skeptic and Risk Officer critique
+ */
+function buildCritiqueContext(
+  thesis: string,
+  researchReport: string,
+  strategy: ResearchStrategy,
+  strategyAnalysis: string,
+  ownership: OwnershipDelta[],
+  companyName?: string,
+  ticker?: string
+): string {
+  return `
+# Investment Analysis for Review
+
+${companyName ? `## Company: ${companyName}${ticker ? ` (${ticker})` : ''}` : ''}
+
+## Original Thesis
+${thesis}
+
+## Research Report
+${researchReport}
+
+${strategyAnalysis ? `## ${strategy.charAt(0).toUpperCase() + strategy.slice(1)} Strategy Analysis\n${strategyAnalysis}` : ''}
+
+${ownership.length > 0 ? `## Institutional Ownership Changes\n${formatOwnershipForPrompt(ownership)}` : ''}
+
+---
+
+Please provide your critique.
+`;
+}
+
+/**
+ * Build the context the verdict agent synthesizes
+ */
+function buildVerdictContext(
+  thesis: string,
+  researchReport: string,
+  strategy: ResearchStrategy,
+  strategyAnalysis: string,
+  macroContext: string,
+  skepticCritique: string,
+  riskAssessment: string
+): string {
+  return `
+# Complete Investment Analysis Package
+
+## Original Thesis
+${thesis}
+
+## Gemini Research Report
+${researchReport}
+
+${macroContext ? `## Market Cycle Context\n${macroContext}` : ''}
+
+${strategyAnalysis ? `## Strategy Agent Analysis (${strategy})
+${strategyAnalysis}` : ''}
+
+## The Skeptic's Critique
+${skepticCritique || 'Not available'}
+
+## Risk Officer's Assessment
+${riskAssessment || 'Not available'}
+
+---
+
+Synthesize all of the above and provide your final investment verdict.
+`;
+}
+
+/**
+ * Drop a phase's checkpoint and every later one, so they re-run on resume
+ */
+export function invalidateCheckpoints(
+  checkpoints: PipelineCheckpoints,
+  fromPhase: CheckpointPhase
+): PipelineCheckpoints {
+  const kept: PipelineCheckpoints = { ...checkpoints };
+  for (const phase of CHECKPOINT_PHASES.slice(CHECKPOINT_PHASES.indexOf(fromPhase))) {
+    delete kept[phase];
+  }
+  return kept;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Market cycle context, or '' when the macro agent fails; only a spend limit
+ * stops the run
+ */
+async function loadMacroContext(): Promise<string> {
+  try {
+    return await generateMacroContext();
+  } catch (error) {
+    if (error instanceof BudgetExceededError) throw error;
+    console.error('Macro agent error:', error);
+    return '';
+  }
+}
+
 /**
  * Run specialized research with strategy agent
+ *
+ * Each phase's output is reported through `onCheckpoint`. Phases already in
+ * `input.checkpoints` are skipped, so a failed run can resume where it stopped
+ * instead of re-paying for deep research. Reaching a spend limit ends the run
+ * with a `budget_exceeded` phase, which resumes the same way.
  */
 export async function* runSpecializedResearch(
   input: SpecializedResearchInput
 ): AsyncGenerator<ResearchPhase> {
-  const { sessionId, thesis, strategy, companyName, ticker } = input;
+  const { thesis, strategy, companyName, ticker, checkpoints = {}, onCheckpoint } = input;
+
+  const fail = (failedPhase: CheckpointPhase, agent: string, content: string, error?: unknown): ResearchPhase => ({
+    phase: error instanceof BudgetExceededError ? 'budget_exceeded' : 'error',
+    agent,
+    content: error instanceof BudgetExceededError ? error.message : content,
+    failedPhase,
+    timestamp: new Date().toISOString(),
+  });
 
   // Phase 1: Start notification
   yield {
     phase: 'starting',
-    content: `Initializing ${strategy} research strategy...`,
+    content: checkpoints.research
+      ? `Resuming ${strategy} research from saved checkpoints...`
+      : `Initializing ${strategy} research strategy...`,
     timestamp: new Date().toISOString(),
   };
 
   // Phase 2: Run Gemini deep research
-  let researchReport = '';
-  try {
+  let researchReport = checkpoints.research?.researchReport ?? '';
+  let sources = checkpoints.research?.sources;
+  if (checkpoints.research) {
     yield {
       phase: 'researching',
       agent: 'gemini-deep-research',
-      content: 'Running deep research with Gemini...',
+      content: 'Using saved deep research report',
       timestamp: new Date().toISOString(),
     };
+  } else {
+    try {
+      yield {
+        phase: 'researching',
+        agent: 'gemini-deep-research',
+        content: 'Running deep research with Gemini...',
+        timestamp: new Date().toISOString(),
+      };
 
-    for await (const step of geminiResearch.startResearch({
-      thesis,
-    })) {
-      if (step.type === 'complete') {
-        researchReport = step.report;
-        break;
-      } else if (step.type === 'error') {
-        yield {
-          phase: 'error',
-          agent: 'gemini-deep-research',
-          content: step.content,
-          timestamp: new Date().toISOString(),
-        };
-        return;
+      for await (const step of geminiResearch.startResearch({
+        thesis,
+      })) {
+        if (step.type === 'complete') {
+          researchReport = step.report;
+          sources = step.sources;
+          break;
+        } else if (step.type === 'error') {
+          yield fail('research', 'gemini-deep-research', step.content);
+          return;
+        }
       }
+    } catch (error) {
+      yield fail('research', 'gemini-deep-research', errorMessage(error, 'Research failed'), error);
+      return;
     }
-  } catch (error) {
+
+    if (!researchReport) {
+      yield fail('research', 'gemini-deep-research', 'Deep research returned no report');
+      return;
+    }
+
+    await onCheckpoint?.('research', { researchReport, sources, completedAt: new Date().toISOString() });
+  }
+
+  // Phase 2b: Fact-check the report's numbers against FMP
+  let factCheck = checkpoints.fact_check?.factCheck ?? undefined;
+  if (checkpoints.fact_check) {
+    researchReport = checkpoints.fact_check.researchReport;
     yield {
-      phase: 'error',
-      agent: 'gemini-deep-research',
-      content: error instanceof Error ? error.message : 'Research failed',
+      phase: 'fact_check',
+      agent: 'fact-check',
+      content: 'Using saved fact check',
       timestamp: new Date().toISOString(),
     };
-    return;
+  } else {
+    yield {
+      phase: 'fact_check',
+      agent: 'fact-check',
+      content: 'Checking the report\'s figures against FMP data...',
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      const checked = await runFactCheck(researchReport);
+      researchReport = checked.report;
+      factCheck = checked.factCheck;
+    } catch (error) {
+      // Unchecked numbers shouldn't stop the analysis; only a spend limit does
+      if (error instanceof BudgetExceededError) {
+        yield fail('fact_check', 'fact-check', error.message, error);
+        return;
+      }
+      console.error('Fact check error:', error);
+    }
+
+    await onCheckpoint?.('fact_check', { researchReport, factCheck: factCheck ?? null, completedAt: new Date().toISOString() });
   }
 
   // Phase 3: Run strategy agent analysis (if not general)
-  let strategyAnalysis = '';
   const strategyAgent = getAgentForStrategy(strategy);
-
-  if (strategyAgent && researchReport) {
-    try {
+  let strategyAnalysis = checkpoints.strategy_analysis?.strategyAnalysis ?? '';
+  let macroContext = checkpoints.strategy_analysis?.macroContext ?? '';
+  let valuations = checkpoints.strategy_analysis?.valuations ?? [];
+  let comparables = checkpoints.strategy_analysis?.comparables ?? [];
+  let ownership = checkpoints.strategy_analysis?.ownership ?? [];
+  let capitalStructures = checkpoints.strategy_analysis?.capitalStructures ?? [];
+
+  if (checkpoints.strategy_analysis) {
+    if (strategyAgent) {
       yield {
         phase: 'strategy_analysis',
         agent: strategy,
-        content: `Running ${strategy} strategy analysis...`,
+        content: `Using saved ${strategy} strategy analysis`,
         timestamp: new Date().toISOString(),
       };
-
-      const prompt = buildStrategyPrompt(thesis, researchReport, strategy, companyName, ticker);
-      const result = await strategyAgent.generate(prompt);
-      strategyAnalysis = result.text || '';
+    }
+  } else {
+    // Market cycle context for the strategy agent and the verdict
+    try {
+      yield {
+        phase: 'strategy_analysis',
+        agent: 'macro',
+        content: 'Reading the market cycle...',
+        timestamp: new Date().toISOString(),
+      };
+      macroContext = await loadMacroContext();
     } catch (error) {
-      console.error(`Strategy agent error:`, error);
-      strategyAnalysis = `Strategy analysis unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      yield fail('strategy_analysis', 'macro', `Macro analysis failed: ${errorMessage(error, 'Unknown error')}`, error);
+      return;
+    }
+
+    if (strategyAgent) {
+      try {
+        yield {
+          phase: 'strategy_analysis',
+          agent: strategy,
+          content: `Running ${strategy} strategy analysis...`,
+          timestamp: new Date().toISOString(),
+        };
+
+        const prompt = buildStrategyPrompt(thesis, researchReport, strategy, macroContext, companyName, ticker);
+        const result = await strategyAgent.generate(prompt);
+        strategyAnalysis = result.text || '';
+        // Intrinsic value estimates, comps tables, ownership changes and capital structures from the agent's tool calls
+        const toolResults = result.steps.flatMap(step => step.toolResults);
+        valuations = collectValuations(toolResults);
+        comparables = collectComparables(toolResults);
+        ownership = collectOwnershipDeltas(toolResults);
+        capitalStructures = collectCapitalStructures(toolResults);
+      } catch (error) {
+        console.error(`Strategy agent error:`, error);
+        yield fail('strategy_analysis', strategy, `Strategy analysis failed: ${errorMessage(error, 'Unknown error')}`, error);
+        return;
+      }
     }
+
+    await onCheckpoint?.('strategy_analysis', { strategyAnalysis, macroContext, valuations, comparables, ownership, capitalStructures, completedAt: new Date().toISOString() });
   }
 
   // Phase 4: Run critiques in parallel
-  let skepticCritique = '';
-  let riskAssessment = '';
+  let skepticCritique = checkpoints.critique?.skepticCritique ?? '';
+  let riskAssessment = checkpoints.critique?.riskAssessment ?? '';
 
-  try {
+  if (checkpoints.critique) {
     yield {
       phase: 'critique',
       agent: 'skeptic',
-      content: 'Running council critique...',
+      content: 'Using saved council critique',
       timestamp: new Date().toISOString(),
     };
+  } else {
+    try {
+      yield {
+        phase: 'critique',
+        agent: 'skeptic',
+        content: 'Running council critique...',
+        timestamp: new Date().toISOString(),
+      };
 
-    const fullContext = `
-# Investment Analysis for Review
-
-## Original Thesis
-${thesis}
-
-## Research Report
-${researchReport}
-
-${strategyAnalysis ? `## ${strategy.charAt(0).toUpperCase() + strategy.slice(1)} Strategy Analysis\n${strategyAnalysis}` : ''}
-
----
+      const fullContext = buildCritiqueContext(thesis, researchReport, strategy, strategyAnalysis, ownership, companyName, ticker);
+      const [skepticResult, riskResult] = await Promise.all([
+        skepticAgent.generate(fullContext, { maxSteps: SKEPTIC_MAX_STEPS }),
+        riskOfficerAgent.generate(fullContext, { maxSteps: RISK_OFFICER_MAX_STEPS }),
+      ]);
 
-Please provide your critique.
-`;
+      skepticCritique = skepticResult.text || '';
+      riskAssessment = riskResult.text || '';
+    } catch (error) {
+      console.error('Critique error:', error);
+      yield fail('critique', 'skeptic', `Council critique failed: ${errorMessage(error, 'Unknown error')}`, error);
+      return;
+    }
 
-    const [skepticResult, riskResult] = await Promise.all([
-      skepticAgent.generate(fullContext).catch(e => ({
-        text: `Skeptic unavailable: ${e.message}`,
-      })),
-      riskOfficerAgent.generate(fullContext).catch(e => ({
-        text: `Risk assessment unavailable: ${e.message}`,
-      })),
-    ]);
-
-    skepticCritique = skepticResult.text || '';
-    riskAssessment = riskResult.text || '';
-  } catch (error) {
-    console.error('Critique error:', error);
+    await onCheckpoint?.('critique', { skepticCritique, riskAssessment, completedAt: new Date().toISOString() });
   }
 
   // Phase 5: Generate final verdict
-  let verdict = '';
-  try {
+  let verdict = checkpoints.verdict?.verdict ?? '';
+  let structuredVerdict: InvestmentVerdict | undefined = checkpoints.verdict?.structuredVerdict;
+
+  if (checkpoints.verdict) {
     yield {
       phase: 'verdict',
       agent: 'verdict',
-      content: 'Generating investment verdict...',
+      content: 'Using saved investment verdict',
       timestamp: new Date().toISOString(),
     };
+  } else {
+    try {
+      yield {
+        phase: 'verdict',
+        agent: 'verdict',
+        content: 'Generating investment verdict...',
+        timestamp: new Date().toISOString(),
+      };
 
-    const verdictContext = `
-# Complete Investment Analysis Package
-
-## Original Thesis
-${thesis}
-
-## Gemini Research Report
-${researchReport}
-
-${strategyAnalysis ? `## Strategy Agent Analysis (${strategy})
-${strategyAnalysis}` : ''}
-
-## The Skeptic's Critique
-${skepticCritique || 'Not available'}
-
-## Risk Officer's Assessment
-${riskAssessment || 'Not available'}
-
----
-
-Synthesize all of the above and provide your final investment verdict.
-`;
+      const verdictContext = buildVerdictContext(
+        thesis,
+        researchReport,
+        strategy,
+        strategyAnalysis,
+        macroContext,
+        skepticCritique,
+        riskAssessment
+      );
+      const verdictResult = await generateStructuredVerdict(verdictContext);
+      verdict = verdictResult.markdown;
+      structuredVerdict = verdictResult.verdict;
+    } catch (error) {
+      console.error('Verdict error:', error);
+      yield fail('verdict', 'verdict', `Verdict generation failed: ${errorMessage(error, 'Unknown error')}`, error);
+      return;
+    }
 
-    const verdictResult = await verdictAgent.generate(verdictContext);
-    verdict = verdictResult.text || '';
-  } catch (error) {
-    console.error('Verdict error:', error);
-    verdict = `Verdict generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    await onCheckpoint?.('verdict', { verdict, structuredVerdict, completedAt: new Date().toISOString() });
   }
 
   // Phase 6: Complete
@@ -250,10 +498,18 @@ Synthesize all of the above and provide your final investment verdict.
     phase: 'complete',
     content: JSON.stringify({
       researchReport,
+      sources,
+      factCheck,
       strategyAnalysis,
+      macroContext,
+      valuations,
+      comparables,
+      ownership,
+      capitalStructures,
       skepticCritique,
       riskAssessment,
       verdict,
+      structuredVerdict,
       strategy,
       agentUsed: strategyAgent ? strategy : 'general',
     } as SpecializedResearchOutput),
@@ -277,7 +533,7 @@ export async function runStrategyAnalysis(
     return 'No strategy agent available for general research.';
   }
 
-  const prompt = buildStrategyPrompt(thesis, researchReport, strategy, companyName, ticker);
+  const prompt = buildStrategyPrompt(thesis, researchReport, strategy, await loadMacroContext(), companyName, ticker);
   const result = await strategyAgent.generate(prompt);
   return result.text || 'No analysis generated';
 }
@@ -0,0 +1,80 @@
+/**
+ * Capital Structure Types
+ *
+ * Capital stack, credit metrics and recovery waterfall produced by the
+ * capital structure tool (src/mastra/tools/capital-structure.ts) and shown
+ * in the research report.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Where the value distributed in the waterfall came from: passed in by the
+ * caller, TTM EBITDA times a multiple, or liquidation haircuts on the balance
+ * sheet when EBITDA is negative
+ */
+export type DistributableValueBasis = 'input' | 'ebitda_multiple' | 'liquidation';
+
+export const recoveryTrancheSchema = z.object({
+  name: z.string(),
+  /** 1 is the most senior; tranches with the same seniority share pro rata */
+  seniority: z.number(),
+  claim: z.number(),
+  recovery: z.number(),
+  /** Recovery as a fraction of the claim; null for an empty claim */
+  recoveryPct: z.number().nullable(),
+});
+
+export const capitalStructureSchema = z.object({
+  ticker: z.string(),
+  /** Balance sheet date */
+  asOf: z.string(),
+  debt: z.object({
+    shortTerm: z.number(),
+    longTerm: z.number(),
+    leases: z.number(),
+    total: z.number(),
+  }),
+  /** Cash and short-term investments */
+  cash: z.number(),
+  netDebt: z.number(),
+  /** Trailing four quarters, in USD */
+  ttm: z.object({
+    ebitda: z.number(),
+    ebit: z.number(),
+    interestExpense: z.number(),
+    freeCashFlow: z.number(),
+  }),
+  /** EBIT / interest expense */
+  interestCoverage: z.number().nullable(),
+  /** EBITDA / interest expense */
+  ebitdaCoverage: z.number().nullable(),
+  /** Net debt / EBITDA; null when EBITDA is not positive */
+  netLeverage: z.number().nullable(),
+  maturities: z.object({
+    dueWithinYear: z.number(),
+    dueAfterYear: z.number(),
+    dueWithinYearPct: z.number().nullable(),
+  }),
+  liquidity: z.object({
+    cash: z.number(),
+    annualFreeCashFlow: z.number(),
+    /** Months until cash runs out at the current burn; null when free cash flow is positive */
+    runwayMonths: z.number().nullable(),
+    /** Cash plus positive free cash flow covers debt due within a year */
+    coversNearTermMaturities: z.boolean(),
+  }),
+  waterfall: z.object({
+    distributableValue: z.number(),
+    basis: z.enum(['input', 'ebitda_multiple', 'liquidation']),
+    evMultiple: z.number().nullable(),
+    tranches: z.array(recoveryTrancheSchema),
+    /** Value left for common equity after every claim */
+    equityResidual: z.number(),
+    equityPerShare: z.number().nullable(),
+  }),
+  warnings: z.array(z.string()),
+});
+
+export type RecoveryTranche = z.infer<typeof recoveryTrancheSchema>;
+export type CapitalStructure = z.infer<typeof capitalStructureSchema>;
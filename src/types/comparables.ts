@@ -0,0 +1,55 @@
+/**
+ * Comparables Types
+ *
+ * Peer comparison tables produced by the comparables tool
+ * (src/mastra/tools/comparables.ts) and shown in the research report.
+ */
+
+import { z } from 'zod';
+
+export const comparableMetricSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  format: z.enum(['multiple', 'percent', 'ratio']),
+  /** Whether a higher value ranks the company more favorably */
+  higherIsBetter: z.boolean(),
+});
+
+export const comparableRowSchema = z.object({
+  ticker: z.string(),
+  name: z.string(),
+  marketCap: z.number().nullable(),
+  isSubject: z.boolean(),
+  /** Metric key -> value; null when missing or not meaningful (e.g. negative P/E) */
+  values: z.record(z.number().nullable()),
+});
+
+export const comparableStatSchema = z.object({
+  median: z.number().nullable(),
+  p25: z.number().nullable(),
+  p75: z.number().nullable(),
+  /** Companies (subject included) with a value for this metric */
+  count: z.number(),
+  subjectValue: z.number().nullable(),
+  /** Share of companies with a value at or below the subject's, 0-100 */
+  subjectPercentile: z.number().nullable(),
+  /** 1 = most favorable among companies with a value */
+  subjectRank: z.number().nullable(),
+});
+
+export const comparablesTableSchema = z.object({
+  ticker: z.string(),
+  sector: z.string().nullable(),
+  industry: z.string().nullable(),
+  /** How the peer set was chosen */
+  peerSelection: z.string(),
+  metrics: z.array(comparableMetricSchema),
+  rows: z.array(comparableRowSchema),
+  stats: z.record(comparableStatSchema),
+  warnings: z.array(z.string()),
+});
+
+export type ComparableMetric = z.infer<typeof comparableMetricSchema>;
+export type ComparableRow = z.infer<typeof comparableRowSchema>;
+export type ComparableStat = z.infer<typeof comparableStatSchema>;
+export type ComparablesTable = z.infer<typeof comparablesTableSchema>;
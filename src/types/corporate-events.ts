@@ -0,0 +1,46 @@
+/**
+ * Corporate Event Types
+ *
+ * Special-situation events parsed from SEC filings by the corporate events
+ * tool (src/mastra/tools/corporate-events.ts) and stored in corporate_events.
+ */
+
+import { z } from 'zod';
+
+export type CorporateEventType =
+  | 'spinoff'
+  | 'merger'
+  | 'tender_offer'
+  | 'rights_offering'
+  | 'bankruptcy'
+  | 'activist_13d';
+
+export const CORPORATE_EVENT_TYPES: CorporateEventType[] = [
+  'spinoff',
+  'merger',
+  'tender_offer',
+  'rights_offering',
+  'bankruptcy',
+  'activist_13d',
+];
+
+export const CORPORATE_EVENT_LABELS: Record<CorporateEventType, string> = {
+  'spinoff': 'Spinoff',
+  'merger': 'Merger',
+  'tender_offer': 'Tender Offer',
+  'rights_offering': 'Rights Offering',
+  'bankruptcy': 'Bankruptcy',
+  'activist_13d': 'Activist 13D',
+};
+
+export const corporateEventSchema = z.object({
+  ticker: z.string(),
+  type: z.enum(['spinoff', 'merger', 'tender_offer', 'rights_offering', 'bankruptcy', 'activist_13d']),
+  formType: z.string(),
+  filedAt: z.string(),
+  /** Why the filing was classified this way, e.g. "Form 10-12B" or "8-K Item 1.03" */
+  reason: z.string(),
+  url: z.string(),
+});
+
+export type CorporateEvent = z.infer<typeof corporateEventSchema>;
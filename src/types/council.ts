@@ -0,0 +1,88 @@
+/**
+ * Council Types
+ *
+ * Configuration for the investment council: which personas sit on it,
+ * which model backs each, and how the debate runs and ends.
+ */
+
+import { z } from 'zod';
+import { DEFAULT_MODELS, type ModelProvider, type ModelRole, type ModelSpec } from '@/src/types/models';
+import { COUNCIL_PERSONAS, type CouncilPersona } from '@/src/types/council-personas';
+
+export type CouncilPersonaId = (typeof COUNCIL_PERSONAS)[number]['id'];
+export type CouncilProvider = ModelProvider;
+export type CouncilStance = 'INVEST' | 'PASS' | 'WATCH';
+
+/**
+ * `fixed` always runs maxRounds; `convergence` stops early once every
+ * persona takes the same stance or no stance changes between rounds
+ */
+export type CouncilTermination = 'fixed' | 'convergence';
+
+export const COUNCIL_PERSONA_IDS = COUNCIL_PERSONAS.map(persona => persona.id) as [CouncilPersonaId, ...CouncilPersonaId[]];
+
+/**
+ * Registry entry for a persona id
+ */
+export function getCouncilPersona(id: CouncilPersonaId): CouncilPersona {
+  const persona = COUNCIL_PERSONAS.find(p => p.id === id);
+  if (!persona) throw new Error(`Unknown council persona: ${id}`);
+  return persona;
+}
+
+const modelSchema = z.object({
+  provider: z.enum(['openai', 'anthropic', 'google', 'local']),
+  model: z.string().min(1),
+});
+
+export const councilConfigSchema = z.object({
+  personas: z
+    .array(modelSchema.extend({ id: z.enum(COUNCIL_PERSONA_IDS) }))
+    .min(1)
+    .refine(personas => new Set(personas.map(p => p.id)).size === personas.length, 'Each persona may only sit once'),
+  maxRounds: z.number().int().min(0).max(6),
+  termination: z.enum(['fixed', 'convergence']),
+  synthesizer: modelSchema.nullable(),
+});
+
+export type CouncilModel = z.infer<typeof modelSchema>;
+export type CouncilPersonaConfig = z.infer<typeof councilConfigSchema>['personas'][number];
+export type CouncilConfig = z.infer<typeof councilConfigSchema>;
+
+/**
+ * Full council with models taken from the registry; pass `getModel` on the
+ * server to apply environment overrides
+ */
+export function buildDefaultCouncilConfig(
+  modelFor: (role: ModelRole) => ModelSpec = role => DEFAULT_MODELS[role]
+): CouncilConfig {
+  return {
+    personas: COUNCIL_PERSONAS.map(persona => ({ id: persona.id, ...modelFor(persona.modelRole) })),
+    maxRounds: 2,
+    termination: 'fixed',
+    synthesizer: modelFor('council-synthesizer'),
+  };
+}
+
+export const DEFAULT_COUNCIL_CONFIG: CouncilConfig = buildDefaultCouncilConfig();
+
+export interface CouncilDebateMessage {
+  agent: string;
+  persona: CouncilPersonaId | 'synthesizer';
+  role: string;
+  provider: CouncilProvider;
+  model: string;
+  content: string;
+  stance?: CouncilStance;
+  timestamp: string;
+}
+
+/**
+ * One round of the stored council_debate transcript
+ */
+export interface CouncilDebateRound {
+  round: number;
+  type: 'debate' | 'synthesis';
+  messages: CouncilDebateMessage[];
+  converged?: boolean;
+}
@@ -16,6 +16,7 @@ export interface Critique {
 export interface DealCritiques {
   skeptic?: Critique;
   risk_officer?: Critique;
+  bull_advocate?: Critique;
 }
 
 export interface DealMemo {
@@ -0,0 +1,75 @@
+/**
+ * Fact Check Types
+ *
+ * Quantitative claims extracted from a research report and the result of
+ * checking each against FMP data (src/services/fact-check.ts).
+ */
+
+import { z } from 'zod';
+
+export const CLAIM_METRICS = [
+  'pe',
+  'ev_to_ebitda',
+  'price_to_sales',
+  'price_to_book',
+  'market_cap',
+  'dividend_yield',
+  'fcf_yield',
+  'roe',
+  'debt_to_equity',
+  'gross_margin',
+  'operating_margin',
+  'net_margin',
+  'revenue',
+  'revenue_growth',
+  'net_income',
+  'eps',
+  'free_cash_flow',
+  'total_debt',
+  'net_debt',
+  'cash',
+] as const;
+
+export type ClaimMetric = (typeof CLAIM_METRICS)[number];
+
+export type ClaimStatus = 'confirmed' | 'contradicted' | 'unverifiable';
+
+/**
+ * Inline marker placed after each checked claim in the report, e.g.
+ * `[fact-check: contradicted; FMP: 14.8x (TTM), report says 11.2x]`
+ */
+export const FACT_CHECK_MARKER = /\[fact-check: (confirmed|contradicted|unverifiable)(?:; ([^\]]*))?\]/;
+
+export const extractedClaimSchema = z.object({
+  /** Verbatim span of the report containing the figure, used to place the marker */
+  quote: z.string(),
+  ticker: z.string(),
+  metric: z.enum(CLAIM_METRICS),
+  /** Percent metrics in percent (12 for 12%), amounts in USD, multiples as plain numbers */
+  value: z.number(),
+  /** Fiscal year the claim refers to, or null for the latest */
+  fiscalYear: z.number().int().nullable(),
+});
+
+export const checkedClaimSchema = extractedClaimSchema.extend({
+  status: z.enum(['confirmed', 'contradicted', 'unverifiable']),
+  /** FMP value in the same unit as `value` */
+  actual: z.number().nullable(),
+  /** Period of the FMP value, e.g. "TTM" or "FY2024" */
+  period: z.string().nullable(),
+  note: z.string(),
+});
+
+export const factCheckSchema = z.object({
+  checkedAt: z.string(),
+  claims: z.array(checkedClaimSchema),
+  counts: z.object({
+    confirmed: z.number(),
+    contradicted: z.number(),
+    unverifiable: z.number(),
+  }),
+});
+
+export type ExtractedClaim = z.infer<typeof extractedClaimSchema>;
+export type CheckedClaim = z.infer<typeof checkedClaimSchema>;
+export type FactCheck = z.infer<typeof factCheckSchema>;
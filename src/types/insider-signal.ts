@@ -0,0 +1,45 @@
+/**
+ * Insider Signal Types
+ *
+ * Insider buying signal produced by the insider signal tool
+ * (src/mastra/tools/insider-signal.ts), stored on research opportunities and
+ * shown on the opportunity card.
+ */
+
+import { z } from 'zod';
+
+export const insiderPurchaseSchema = z.object({
+  name: z.string(),
+  title: z.string(),
+  date: z.string(),
+  shares: z.number(),
+  value: z.number(),
+  /** Shares bought as a fraction of the insider's holdings before the buy; null when holdings are unknown */
+  pctOfHoldings: z.number().nullable(),
+});
+
+export const insiderSignalSchema = z.object({
+  ticker: z.string(),
+  /** 0-100 */
+  score: z.number(),
+  strength: z.enum(['none', 'weak', 'moderate', 'strong']),
+  lookbackDays: z.number(),
+  /** Distinct insiders with open-market purchases in the lookback window */
+  buyers: z.number(),
+  purchaseValue: z.number(),
+  saleValue: z.number(),
+  /** Densest window of purchases by different insiders, when three or more bought */
+  cluster: z.object({
+    start: z.string(),
+    end: z.string(),
+    insiders: z.number(),
+    value: z.number(),
+  }).nullable(),
+  executiveBuys: z.array(insiderPurchaseSchema),
+  unusualBuys: z.array(insiderPurchaseSchema),
+  reasons: z.array(z.string()),
+  asOf: z.string(),
+});
+
+export type InsiderPurchase = z.infer<typeof insiderPurchaseSchema>;
+export type InsiderSignal = z.infer<typeof insiderSignalSchema>;
@@ -0,0 +1,75 @@
+/**
+ * Macro Types
+ *
+ * Treasury yields, credit spread proxies and sector rotation produced by the
+ * macro tools (src/mastra/tools/macro.ts) for the macro agent's market-cycle
+ * context.
+ */
+
+import { z } from 'zod';
+
+export type CurveShape = 'inverted' | 'flat' | 'normal' | 'steep';
+
+export const treasuryYieldsSchema = z.object({
+  asOf: z.string(),
+  /** Yields in percent */
+  yields: z.object({
+    month3: z.number().nullable(),
+    year2: z.number().nullable(),
+    year5: z.number().nullable(),
+    year10: z.number().nullable(),
+    year30: z.number().nullable(),
+  }),
+  /** Change over roughly three months, in basis points */
+  change3m: z.object({
+    month3: z.number().nullable(),
+    year2: z.number().nullable(),
+    year10: z.number().nullable(),
+  }),
+  curve: z.object({
+    /** 10-year minus 2-year, in basis points */
+    spread10y2y: z.number().nullable(),
+    /** 10-year minus 3-month, in basis points */
+    spread10y3m: z.number().nullable(),
+    shape: z.enum(['inverted', 'flat', 'normal', 'steep']),
+    trend: z.enum(['steepening', 'flattening', 'stable']),
+  }),
+});
+
+export const creditProxySchema = z.object({
+  label: z.string(),
+  /** Credit ETF and the treasury ETF it is measured against */
+  pair: z.string(),
+  /** Total return of the credit ETF minus the treasury ETF, as fractions */
+  relativeReturn1m: z.number().nullable(),
+  relativeReturn3m: z.number().nullable(),
+});
+
+export const creditSpreadsSchema = z.object({
+  asOf: z.string(),
+  proxies: z.array(creditProxySchema),
+  /** Read from high yield against treasuries: credit lagging means spreads are widening */
+  regime: z.enum(['tightening', 'stable', 'widening']),
+});
+
+export const sectorReturnSchema = z.object({
+  sector: z.string(),
+  group: z.enum(['cyclical', 'defensive', 'neutral']),
+  return1m: z.number().nullable(),
+  return3m: z.number().nullable(),
+});
+
+export const sectorRotationSchema = z.object({
+  asOf: z.string(),
+  /** Sorted by three-month return, best first */
+  sectors: z.array(sectorReturnSchema),
+  /** Average cyclical minus average defensive three-month return */
+  cyclicalMinusDefensive3m: z.number().nullable(),
+  regime: z.enum(['risk_on', 'risk_off', 'mixed']),
+});
+
+export type TreasuryYields = z.infer<typeof treasuryYieldsSchema>;
+export type CreditProxy = z.infer<typeof creditProxySchema>;
+export type CreditSpreads = z.infer<typeof creditSpreadsSchema>;
+export type SectorReturn = z.infer<typeof sectorReturnSchema>;
+export type SectorRotation = z.infer<typeof sectorRotationSchema>;
@@ -0,0 +1,46 @@
+/**
+ * Merger Arbitrage Types
+ *
+ * Deal terms for announced mergers, stored on research opportunities and
+ * priced by the merger arb spread tool (src/mastra/tools/merger-arb.ts).
+ */
+
+import { z } from 'zod';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+/**
+ * Collar on the stock consideration, defined on the acquirer's share price.
+ * - fixed_ratio: the exchange ratio applies inside the band; outside it the
+ *   stock value is pinned to ratio x the nearest bound
+ * - fixed_value: the ratio floats to deliver stockValue inside the band;
+ *   outside it the ratio is fixed at stockValue / the nearest bound
+ */
+export const dealCollarSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('fixed_ratio'),
+    lowerPrice: z.number().positive(),
+    upperPrice: z.number().positive(),
+  }),
+  z.object({
+    type: z.literal('fixed_value'),
+    stockValue: z.number().positive().describe('Value of stock consideration per target share inside the collar'),
+    lowerPrice: z.number().positive(),
+    upperPrice: z.number().positive(),
+  }),
+]);
+
+export const dealTermsSchema = z.object({
+  targetTicker: z.string().min(1),
+  acquirer: z.string().optional().describe('Acquirer name'),
+  acquirerTicker: z.string().optional().describe('Acquirer ticker; required when stock is part of the consideration'),
+  cashPerShare: z.number().min(0).default(0).describe('Cash paid per target share'),
+  stockRatio: z.number().min(0).default(0).describe('Acquirer shares per target share (exchange ratio)'),
+  collar: dealCollarSchema.optional(),
+  announcementDate: isoDate.optional().describe('Announcement date; used to look up the unaffected price'),
+  expectedCloseDate: isoDate.describe('Expected closing date'),
+  unaffectedPrice: z.number().positive().optional().describe('Target price before the deal was announced'),
+});
+
+export type DealCollar = z.infer<typeof dealCollarSchema>;
+export type DealTerms = z.infer<typeof dealTermsSchema>;
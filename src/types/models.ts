@@ -0,0 +1,68 @@
+/**
+ * Model Types
+ *
+ * Logical model roles and their built-in defaults. Kept free of server code
+ * so client components can offer the same providers and models; resolution
+ * and environment overrides live in src/mastra/models.ts.
+ */
+
+export type ModelProvider = 'openai' | 'anthropic' | 'google' | 'local';
+
+export const MODEL_PROVIDERS: ModelProvider[] = ['openai', 'anthropic', 'google', 'local'];
+
+export type ModelRole =
+  | 'deep-research'
+  | 'researcher'
+  | 'fact-check'
+  | 'strategist'
+  | 'macro'
+  | 'screener'
+  | 'skeptic'
+  | 'risk'
+  | 'bull'
+  | 'verdict'
+  | 'chat'
+  | 'interrogation'
+  | 'council-skeptic'
+  | 'council-risk'
+  | 'council-bull'
+  | 'council-synthesizer'
+  | 'embedding';
+
+export interface ModelSpec {
+  provider: ModelProvider;
+  model: string;
+}
+
+/**
+ * Built-in model for each role, before environment overrides
+ */
+export const DEFAULT_MODELS: Record<ModelRole, ModelSpec> = {
+  'deep-research': { provider: 'google', model: 'deep-research-pro-preview-12-2025' },
+  'researcher': { provider: 'google', model: 'gemini-2.0-flash' },
+  'fact-check': { provider: 'openai', model: 'gpt-4o-mini' },
+  'strategist': { provider: 'openai', model: 'gpt-4o' },
+  'macro': { provider: 'openai', model: 'gpt-4o-mini' },
+  'screener': { provider: 'openai', model: 'gpt-4o' },
+  'skeptic': { provider: 'openai', model: 'gpt-4o-mini' },
+  'risk': { provider: 'openai', model: 'gpt-4o-mini' },
+  'bull': { provider: 'openai', model: 'gpt-4o-mini' },
+  'verdict': { provider: 'openai', model: 'gpt-4o' },
+  'chat': { provider: 'openai', model: 'gpt-4o' },
+  'interrogation': { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' },
+  'council-skeptic': { provider: 'openai', model: 'gpt-4o' },
+  'council-risk': { provider: 'anthropic', model: 'claude-sonnet-4-20250514' },
+  'council-bull': { provider: 'openai', model: 'gpt-4o' },
+  'council-synthesizer': { provider: 'openai', model: 'gpt-4o' },
+  'embedding': { provider: 'openai', model: 'text-embedding-3-small' },
+};
+
+/**
+ * Suggested model when switching a configurable role to another provider
+ */
+export const PROVIDER_DEFAULT_MODELS: Record<ModelProvider, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-20250514',
+  google: 'gemini-2.0-flash',
+  local: 'llama3.1',
+};
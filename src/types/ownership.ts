@@ -0,0 +1,67 @@
+/**
+ * Ownership Types
+ *
+ * Quarter-over-quarter institutional and mutual fund ownership changes
+ * produced by the institutional ownership tool
+ * (src/mastra/tools/ownership.ts), reconciled against the stored 13F history
+ * and kept on research sessions for the council.
+ */
+
+import { z } from 'zod';
+
+export type HolderType = 'institution' | 'mutual_fund';
+
+export const ownershipChangeSchema = z.object({
+  holder: z.string(),
+  holderType: z.enum(['institution', 'mutual_fund']),
+  sharesPrior: z.number(),
+  sharesCurrent: z.number(),
+  change: z.number(),
+  /** Change as a fraction of the prior position; null for new positions */
+  changePct: z.number().nullable(),
+  action: z.enum(['new', 'exit', 'add', 'trim', 'unchanged']),
+  /** On the notable fund list (concentrated value, activist and hedge fund managers) */
+  notable: z.boolean(),
+});
+
+export const ownershipDeltaSchema = z.object({
+  ticker: z.string(),
+  /** Latest 13F report date among the holders */
+  reportDate: z.string(),
+  /** Quarter the changes are measured against; null when derived from the reported change */
+  priorReportDate: z.string().nullable(),
+  /** reported_change: FMP's per-holder change; stored_history: diffed against the last stored quarter */
+  basis: z.enum(['reported_change', 'stored_history']),
+  holders: z.number(),
+  counts: z.object({
+    new: z.number(),
+    exits: z.number(),
+    adds: z.number(),
+    trims: z.number(),
+  }),
+  sharesPrior: z.number(),
+  sharesCurrent: z.number(),
+  netShareChange: z.number(),
+  /** Net change as a fraction of prior holder shares; null when there were none */
+  netChangePct: z.number().nullable(),
+  trend: z.enum(['accumulating', 'distributing', 'neutral']),
+  notableMoves: z.array(ownershipChangeSchema),
+  topBuyers: z.array(ownershipChangeSchema),
+  topSellers: z.array(ownershipChangeSchema),
+  warnings: z.array(z.string()),
+});
+
+export type OwnershipChange = z.infer<typeof ownershipChangeSchema>;
+export type OwnershipDelta = z.infer<typeof ownershipDeltaSchema>;
+
+/**
+ * A holder's position as of a report date
+ */
+export interface HolderPosition {
+  holder: string;
+  holderType: HolderType;
+  shares: number;
+  /** Change since the holder's previous filing, as reported by FMP */
+  change: number;
+  dateReported: string;
+}
@@ -0,0 +1,42 @@
+/**
+ * Research Source Types
+ *
+ * Citations captured from Gemini research (src/services/gemini-research.ts)
+ * and stored with the report. Footnotes and the sources panel in the report
+ * viewers are rendered from these.
+ */
+
+import { z } from 'zod';
+
+export const sourceSupportSchema = z.object({
+  /**
+   * 0-based line of the report where the supported text ends. Lines survive
+   * the fact check's inline markers, which never add newlines.
+   */
+  line: z.number().int(),
+  /** Supported text, trimmed to a sentence or so */
+  text: z.string(),
+});
+
+export const researchSourceSchema = z.object({
+  /** Footnote number, from 1 in order of first use */
+  id: z.number().int(),
+  url: z.string(),
+  title: z.string(),
+  snippet: z.string().nullable(),
+  supports: z.array(sourceSupportSchema),
+});
+
+/**
+ * Display domain of a source URL, e.g. "reuters.com"
+ */
+export function sourceHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+export type SourceSupport = z.infer<typeof sourceSupportSchema>;
+export type ResearchSource = z.infer<typeof researchSourceSchema>;
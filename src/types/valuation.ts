@@ -0,0 +1,53 @@
+/**
+ * Valuation Types
+ *
+ * Intrinsic value estimates produced by the valuation tools
+ * (src/mastra/tools/valuation.ts) and shown in the research report.
+ */
+
+import { z } from 'zod';
+
+export type ValuationMethod = 'dcf' | 'epv' | 'net_asset_value' | 'reproduction_value';
+
+export const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  'dcf': 'Discounted Cash Flow',
+  'epv': 'Earnings Power Value',
+  'net_asset_value': 'Net Asset Value',
+  'reproduction_value': 'Reproduction Value',
+};
+
+/**
+ * Where an assumption came from: passed in by the caller, derived from
+ * reported financials, or a built-in default
+ */
+export type AssumptionBasis = 'input' | 'historical' | 'default';
+
+export const valuationAssumptionSchema = z.object({
+  label: z.string(),
+  value: z.string(),
+  basis: z.enum(['input', 'historical', 'default']),
+});
+
+export const valuationLineSchema = z.object({
+  label: z.string(),
+  value: z.number(),
+});
+
+export const intrinsicValueEstimateSchema = z.object({
+  ticker: z.string(),
+  method: z.enum(['dcf', 'epv', 'net_asset_value', 'reproduction_value']),
+  valuePerShare: z.number().nullable(),
+  equityValue: z.number().nullable(),
+  price: z.number().nullable(),
+  /** 1 - price / value; negative when the stock trades above the estimate */
+  marginOfSafety: z.number().nullable(),
+  assumptions: z.array(valuationAssumptionSchema),
+  /** How the value was built up, in USD */
+  breakdown: z.array(valuationLineSchema),
+  warnings: z.array(z.string()),
+  fiscalYear: z.string().nullable(),
+});
+
+export type ValuationAssumption = z.infer<typeof valuationAssumptionSchema>;
+export type ValuationLine = z.infer<typeof valuationLineSchema>;
+export type IntrinsicValueEstimate = z.infer<typeof intrinsicValueEstimateSchema>;
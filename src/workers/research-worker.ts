@@ -0,0 +1,59 @@
+/**
+ * Research Worker
+ *
+ * Long-running process that claims queued research jobs and runs them
+ * outside the request lifecycle, so pipelines survive closed tabs and
+ * serverless time limits. Start with `npm run worker`; several workers
+ * can run side by side since claiming uses row locks.
+ */
+
+import os from 'os';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { claimResearchJob, executeResearchJob } from '@/src/services/research-jobs';
+
+const POLL_INTERVAL_MS = Number(process.env.RESEARCH_WORKER_POLL_MS) || 2000;
+
+const workerId = `${os.hostname()}:${process.pid}`;
+let stopping = false;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function main(): Promise<void> {
+  const supabase = createAdminClient();
+  console.log(`Research worker ${workerId} started`);
+
+  while (!stopping) {
+    try {
+      const job = await claimResearchJob(supabase, workerId);
+
+      if (!job) {
+        await sleep(POLL_INTERVAL_MS);
+        continue;
+      }
+
+      console.log(`Running ${job.kind} job ${job.id} (attempt ${job.attempts})`);
+      await executeResearchJob(supabase, job);
+      console.log(`Finished job ${job.id}`);
+    } catch (error) {
+      console.error('Research worker error:', error);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  console.log(`Research worker ${workerId} stopped`);
+}
+
+// Finish the current job before exiting
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`${signal} received, stopping after the current job...`);
+    stopping = true;
+  });
+}
+
+main().catch((error) => {
+  console.error('Research worker crashed:', error);
+  process.exit(1);
+});
@@ -40,7 +40,9 @@ CREATE TABLE IF NOT EXISTS research_sessions (
   -- Stores individual agent analyses
   council_analyses JSONB DEFAULT '[]'::jsonb,
   -- Stores the debate between agents
-  council_debate JSONB DEFAULT '[]'::jsonb,
+  council_debate JSONB DEFAULT '[]'::jsonb, -- [{ round, type, converged, messages: [{ persona, provider, model, content, stance }] }]
+  -- Council personas, models and debate rules (falls back to user_settings.council_config)
+  council_config JSONB,
   council_started_at TIMESTAMP WITH TIME ZONE,
   council_completed_at TIMESTAMP WITH TIME ZONE,
 
@@ -52,7 +54,14 @@ CREATE TABLE IF NOT EXISTS research_sessions (
 
   -- Thesis-based workflow columns
   discovered_opportunities JSONB DEFAULT '[]'::jsonb,
-  final_verdict JSONB,
+  final_verdict JSONB, -- { decision, conviction, targetPrice, positionSize, keyRisks, openQuestions, markdown, topPick }
+  pipeline_checkpoints JSONB DEFAULT '{}'::jsonb, -- { research, fact_check, strategy_analysis, critique, verdict, failure }
+  valuations JSONB DEFAULT '[]'::jsonb, -- [{ ticker, method, valuePerShare, price, marginOfSafety, assumptions, breakdown, warnings }]
+  comparables JSONB DEFAULT '[]'::jsonb, -- [{ ticker, sector, industry, peerSelection, metrics, rows, stats, warnings }]
+  ownership_changes JSONB DEFAULT '[]'::jsonb, -- [{ ticker, reportDate, priorReportDate, basis, counts, netShareChange, netChangePct, trend, notableMoves, topBuyers, topSellers, warnings }]
+  capital_structures JSONB DEFAULT '[]'::jsonb, -- [{ ticker, asOf, debt, cash, netDebt, ttm, interestCoverage, netLeverage, maturities, liquidity, waterfall, warnings }]
+  fact_check JSONB, -- { checkedAt, claims: [{ quote, ticker, metric, value, status, actual, period, note }], counts }
+  research_sources JSONB DEFAULT '[]'::jsonb, -- [{ id, url, title, snippet, supports: [{ line, text }] }]
 
   -- Metadata
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -122,6 +131,8 @@ CREATE TABLE IF NOT EXISTS research_opportunities (
   thesis TEXT NOT NULL,
   type TEXT NOT NULL,
   key_metrics JSONB DEFAULT '{}'::jsonb,
+  deal_terms JSONB, -- { targetTicker, acquirerTicker, cashPerShare, stockRatio, collar, expectedCloseDate, unaffectedPrice } for merger arb
+  insider_signal JSONB, -- { score, strength, buyers, cluster, executiveBuys, unusualBuys, reasons } from the insider buying signal tool
   risk_level TEXT CHECK (risk_level IN ('low', 'medium', 'high')),
   score INTEGER,
 
@@ -129,7 +140,7 @@ CREATE TABLE IF NOT EXISTS research_opportunities (
   research_report TEXT,
   strategy_analysis TEXT,
   critiques JSONB DEFAULT '{}'::jsonb, -- { skeptic: {...}, risk_officer: {...} }
-  verdict TEXT,
+  verdict JSONB, -- { decision, conviction, targetPrice, positionSize, keyRisks, openQuestions, markdown }
   final_score INTEGER,
 
   -- Status tracking
@@ -169,6 +180,212 @@ CREATE POLICY "Users can update opportunities in own sessions" ON research_oppor
 CREATE POLICY "Users can delete opportunities in own sessions" ON research_opportunities
   FOR DELETE USING (session_id IN (SELECT id FROM research_sessions WHERE user_id = auth.uid()));
 
+-- ============================================================================
+-- RESEARCH JOBS TABLES (pipelines run out of band by the research worker)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS research_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES research_sessions(id) ON DELETE CASCADE,
+
+  -- What to run
+  kind TEXT NOT NULL CHECK (kind IN (
+    'thesis_research',        -- Gemini deep research on the session thesis
+    'specialized_research',   -- runSpecializedResearch (research, strategy, critique, verdict)
+    'council',                -- Council analysis and debate on an existing report
+    'autonomous_investment'   -- runAutonomousInvestmentWorkflow
+  )),
+  input JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Execution state
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN (
+    'queued',      -- Waiting for a worker
+    'running',     -- Claimed by a worker
+    'completed',   -- Finished successfully
+    'failed'       -- Finished with an error
+  )),
+  result JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  worker_id TEXT,
+
+  -- Timing
+  started_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for research_jobs
+CREATE INDEX IF NOT EXISTS idx_research_jobs_user_id ON research_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_research_jobs_session_id ON research_jobs(session_id);
+CREATE INDEX IF NOT EXISTS idx_research_jobs_status_created_at ON research_jobs(status, created_at);
+
+-- Enable RLS for research_jobs
+ALTER TABLE research_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for research_jobs (workers use the service role and bypass RLS)
+CREATE POLICY "Users can view own research jobs" ON research_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Jobs may only target the user's own sessions; the worker writes to them with the service role
+CREATE POLICY "Users can create own research jobs" ON research_jobs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      session_id IS NULL
+      OR EXISTS (SELECT 1 FROM research_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+    )
+  );
+
+-- Every event a job emits, in order, so clients can replay and reattach
+CREATE TABLE IF NOT EXISTS research_job_events (
+  id BIGSERIAL PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES research_jobs(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  type TEXT NOT NULL,  -- ResearchPhase phase or progress/analysis/debate_round/complete/error
+  data JSONB NOT NULL, -- SSE payload as sent to the client
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (job_id, seq)
+);
+
+-- Enable RLS for research_job_events
+ALTER TABLE research_job_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for research_job_events
+CREATE POLICY "Users can view events from own jobs" ON research_job_events
+  FOR SELECT USING (job_id IN (SELECT id FROM research_jobs WHERE user_id = auth.uid()));
+
+-- ============================================================================
+-- USER SETTINGS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Default council configuration for new council runs
+  council_config JSONB,
+
+  -- LLM spend limits in USD, enforced before every model call (NULL = unlimited)
+  monthly_budget_usd NUMERIC(10, 2) CHECK (monthly_budget_usd IS NULL OR monthly_budget_usd >= 0),  -- Per calendar month (UTC)
+  session_budget_usd NUMERIC(10, 2) CHECK (session_budget_usd IS NULL OR session_budget_usd >= 0),  -- Per research session
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for user_settings
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for user_settings
+CREATE POLICY "Users can view own settings" ON user_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own settings" ON user_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own settings" ON user_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- LLM USAGE TABLE (tokens and estimated cost per model call)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES research_sessions(id) ON DELETE CASCADE,
+  deal_id UUID,  -- Legacy deal memo, if the call served one
+  job_id UUID REFERENCES research_jobs(id) ON DELETE SET NULL,
+
+  -- What was called
+  role TEXT,               -- Model registry role (verdict, council-skeptic, chat...)
+  provider TEXT NOT NULL,  -- openai, anthropic, google, local or mock
+  model TEXT NOT NULL,
+
+  -- Consumption
+  input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0),  -- Estimated from list prices at call time
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for llm_usage
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_id_created_at ON llm_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_session_id ON llm_usage(session_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_deal_id ON llm_usage(deal_id);
+
+-- Enable RLS for llm_usage
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for llm_usage (usage is only recorded server-side, with the service role)
+CREATE POLICY "Users can view own usage" ON llm_usage
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- CORPORATE EVENTS TABLE (special-situation events parsed from SEC filings)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS corporate_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  ticker TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('spinoff', 'merger', 'tender_offer', 'rights_offering', 'bankruptcy', 'activist_13d')),
+
+  -- Source filing
+  form_type TEXT NOT NULL,  -- 10-12B, SC 13D, S-4, 8-K...
+  filed_at DATE NOT NULL,
+  reason TEXT NOT NULL,     -- Why the filing was classified as this event
+  url TEXT NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (url, type)
+);
+
+-- Indexes for corporate_events
+CREATE INDEX IF NOT EXISTS idx_corporate_events_filed_at ON corporate_events(filed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_corporate_events_ticker ON corporate_events(ticker);
+
+-- Enable RLS for corporate_events
+ALTER TABLE corporate_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for corporate_events (events are public filings shared by all
+-- users; workers use the service role and bypass RLS to write them)
+CREATE POLICY "Authenticated users can view corporate events" ON corporate_events
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- ============================================================================
+-- INSTITUTIONAL OWNERSHIP HISTORY TABLE (quarterly 13F and mutual fund positions)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS institutional_ownership_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  ticker TEXT NOT NULL,
+  holder TEXT NOT NULL,
+  holder_type TEXT NOT NULL CHECK (holder_type IN ('institution', 'mutual_fund')),
+  report_date DATE NOT NULL,  -- Latest 13F report date in the snapshot
+  shares BIGINT NOT NULL,
+  change BIGINT NOT NULL DEFAULT 0,  -- Change since the holder's previous filing, as reported by FMP
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (ticker, holder, holder_type, report_date)
+);
+
+-- Indexes for institutional_ownership_history
+CREATE INDEX IF NOT EXISTS idx_institutional_ownership_history_ticker_date
+  ON institutional_ownership_history(ticker, report_date DESC);
+
+-- Enable RLS for institutional_ownership_history
+ALTER TABLE institutional_ownership_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for institutional_ownership_history (holdings are public filings
+-- shared by all users; workers use the service role and bypass RLS to write them)
+CREATE POLICY "Authenticated users can view ownership history" ON institutional_ownership_history
+  FOR SELECT USING (auth.role() = 'authenticated');
+
 -- ============================================================================
 -- FUNCTIONS AND TRIGGERS
 -- ============================================================================
@@ -194,6 +411,18 @@ CREATE TRIGGER update_research_opportunities_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Trigger to auto-update research_jobs updated_at
+CREATE TRIGGER update_research_jobs_updated_at
+  BEFORE UPDATE ON research_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Trigger to auto-update user_settings updated_at
+CREATE TRIGGER update_user_settings_updated_at
+  BEFORE UPDATE ON user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 -- ============================================================================
 -- HELPER FUNCTION TO CREATE RESEARCH SESSION
 -- ============================================================================
@@ -297,3 +526,66 @@ BEGIN
   WHERE id = p_session_id;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- HELPER FUNCTION TO CLAIM A RESEARCH JOB
+-- ============================================================================
+
+-- Claim the oldest queued job, or a running job whose worker stopped heartbeating.
+-- Stale jobs that have used up their attempts are failed so they stop blocking the session.
+CREATE OR REPLACE FUNCTION claim_research_job(
+  p_worker_id TEXT,
+  p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes',
+  p_max_attempts INTEGER DEFAULT 3
+) RETURNS SETOF research_jobs AS $$
+BEGIN
+  UPDATE research_jobs
+  SET
+    status = 'failed',
+    error = 'Worker stopped responding after ' || attempts || ' attempts',
+    completed_at = NOW(),
+    updated_at = NOW()
+  WHERE status = 'running'
+    AND heartbeat_at < NOW() - p_stale_after
+    AND attempts >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE research_jobs
+  SET
+    status = 'running',
+    worker_id = p_worker_id,
+    attempts = attempts + 1,
+    started_at = NOW(),
+    heartbeat_at = NOW(),
+    updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM research_jobs
+    WHERE (status = 'queued' OR (status = 'running' AND heartbeat_at < NOW() - p_stale_after))
+      AND attempts < p_max_attempts
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only workers may claim jobs: the function bypasses RLS and returns job input
+REVOKE EXECUTE ON FUNCTION claim_research_job(TEXT, INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_research_job(TEXT, INTERVAL, INTEGER) TO service_role;
+
+-- ============================================================================
+-- HELPER FUNCTION TO SUM LLM SPEND
+-- ============================================================================
+
+-- Spend this calendar month for a user, and all-time spend for one of their sessions
+CREATE OR REPLACE FUNCTION get_llm_spend(
+  p_user_id UUID,
+  p_session_id UUID DEFAULT NULL
+) RETURNS TABLE (monthly_spend_usd NUMERIC, session_spend_usd NUMERIC) AS $$
+  SELECT
+    COALESCE(SUM(cost_usd) FILTER (WHERE created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'), 0),
+    COALESCE(SUM(cost_usd) FILTER (WHERE session_id = p_session_id), 0)
+  FROM llm_usage
+  WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,62 @@
+-- Migration: Structured Verdicts
+-- Stores the verdict agent's schema-validated output alongside its rendered markdown
+
+-- ============================================================================
+-- 1. Convert research_opportunities.verdict to JSONB
+-- ============================================================================
+
+ALTER TABLE research_opportunities
+ALTER COLUMN verdict TYPE JSONB
+USING CASE WHEN verdict IS NULL THEN NULL ELSE jsonb_build_object('markdown', verdict) END;
+
+COMMENT ON COLUMN research_opportunities.verdict IS
+  '{ decision, conviction, targetPrice, positionSize, keyRisks, openQuestions, markdown, timestamp }';
+
+COMMENT ON COLUMN research_sessions.final_verdict IS
+  '{ decision, conviction, targetPrice, positionSize, keyRisks, openQuestions, markdown, topPick, timestamp }';
+
+-- ============================================================================
+-- 2. Update helper functions to accept structured verdicts
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS update_opportunity_analysis(UUID, TEXT, TEXT, JSONB, TEXT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION update_opportunity_analysis(
+  p_opportunity_id UUID,
+  p_research_report TEXT,
+  p_strategy_analysis TEXT,
+  p_critiques JSONB,
+  p_verdict JSONB,
+  p_final_score INTEGER,
+  p_status TEXT
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE research_opportunities
+  SET
+    research_report = COALESCE(p_research_report, research_report),
+    strategy_analysis = COALESCE(p_strategy_analysis, strategy_analysis),
+    critiques = COALESCE(p_critiques, critiques),
+    verdict = COALESCE(p_verdict, verdict),
+    final_score = COALESCE(p_final_score, final_score),
+    status = COALESCE(p_status, status),
+    updated_at = NOW()
+  WHERE id = p_opportunity_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS set_session_final_verdict(UUID, TEXT, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION set_session_final_verdict(
+  p_session_id UUID,
+  p_final_verdict JSONB
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE research_sessions
+  SET
+    final_verdict = p_final_verdict || jsonb_build_object('timestamp', NOW()),
+    status = 'finalized',
+    finalized_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
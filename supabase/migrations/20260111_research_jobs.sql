@@ -0,0 +1,137 @@
+-- Migration: Research Jobs
+-- Runs research pipelines out of band in a worker instead of inside one SSE request
+
+-- ============================================================================
+-- 1. Create research_jobs table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS research_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES research_sessions(id) ON DELETE CASCADE,
+
+  -- What to run
+  kind TEXT NOT NULL CHECK (kind IN (
+    'thesis_research',        -- Gemini deep research on the session thesis
+    'specialized_research',   -- runSpecializedResearch (research, strategy, critique, verdict)
+    'council',                -- Council analysis and debate on an existing report
+    'autonomous_investment'   -- runAutonomousInvestmentWorkflow
+  )),
+  input JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Execution state
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN (
+    'queued',      -- Waiting for a worker
+    'running',     -- Claimed by a worker
+    'completed',   -- Finished successfully
+    'failed'       -- Finished with an error
+  )),
+  result JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  worker_id TEXT,
+
+  -- Timing
+  started_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for research_jobs
+CREATE INDEX IF NOT EXISTS idx_research_jobs_user_id ON research_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_research_jobs_session_id ON research_jobs(session_id);
+CREATE INDEX IF NOT EXISTS idx_research_jobs_status_created_at ON research_jobs(status, created_at);
+
+-- Enable RLS for research_jobs
+ALTER TABLE research_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for research_jobs (workers use the service role and bypass RLS)
+CREATE POLICY "Users can view own research jobs" ON research_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Jobs may only target the user's own sessions; the worker writes to them with the service role
+CREATE POLICY "Users can create own research jobs" ON research_jobs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      session_id IS NULL
+      OR EXISTS (SELECT 1 FROM research_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+    )
+  );
+
+-- Trigger to auto-update research_jobs updated_at
+CREATE TRIGGER update_research_jobs_updated_at
+  BEFORE UPDATE ON research_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. Create research_job_events table
+-- ============================================================================
+
+-- Every event a job emits, in order, so clients can replay and reattach
+CREATE TABLE IF NOT EXISTS research_job_events (
+  id BIGSERIAL PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES research_jobs(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  type TEXT NOT NULL,  -- ResearchPhase phase or progress/analysis/debate_round/complete/error
+  data JSONB NOT NULL, -- SSE payload as sent to the client
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (job_id, seq)
+);
+
+-- Enable RLS for research_job_events
+ALTER TABLE research_job_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for research_job_events
+CREATE POLICY "Users can view events from own jobs" ON research_job_events
+  FOR SELECT USING (job_id IN (SELECT id FROM research_jobs WHERE user_id = auth.uid()));
+
+-- ============================================================================
+-- 3. Helper function for workers
+-- ============================================================================
+
+-- Claim the oldest queued job, or a running job whose worker stopped heartbeating.
+-- Stale jobs that have used up their attempts are failed so they stop blocking the session.
+CREATE OR REPLACE FUNCTION claim_research_job(
+  p_worker_id TEXT,
+  p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes',
+  p_max_attempts INTEGER DEFAULT 3
+) RETURNS SETOF research_jobs AS $$
+BEGIN
+  UPDATE research_jobs
+  SET
+    status = 'failed',
+    error = 'Worker stopped responding after ' || attempts || ' attempts',
+    completed_at = NOW(),
+    updated_at = NOW()
+  WHERE status = 'running'
+    AND heartbeat_at < NOW() - p_stale_after
+    AND attempts >= p_max_attempts;
+
+  RETURN QUERY
+  UPDATE research_jobs
+  SET
+    status = 'running',
+    worker_id = p_worker_id,
+    attempts = attempts + 1,
+    started_at = NOW(),
+    heartbeat_at = NOW(),
+    updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM research_jobs
+    WHERE (status = 'queued' OR (status = 'running' AND heartbeat_at < NOW() - p_stale_after))
+      AND attempts < p_max_attempts
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only workers may claim jobs: the function bypasses RLS and returns job input
+REVOKE EXECUTE ON FUNCTION claim_research_job(TEXT, INTERVAL, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_research_job(TEXT, INTERVAL, INTEGER) TO service_role;
@@ -0,0 +1,12 @@
+-- Migration: Pipeline Checkpoints
+-- Saves each specialized research phase's output so failed runs resume instead of restarting
+
+-- ============================================================================
+-- 1. Add pipeline_checkpoints column to research_sessions
+-- ============================================================================
+
+ALTER TABLE research_sessions
+ADD COLUMN IF NOT EXISTS pipeline_checkpoints JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN research_sessions.pipeline_checkpoints IS
+  '{ research, strategy_analysis, critique, verdict: { ...phase output, completedAt }, failure: { phase, error, failedAt } }';
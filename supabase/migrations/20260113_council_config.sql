@@ -0,0 +1,49 @@
+-- Migration: Council Configuration
+-- Lets users choose council personas, their models, debate length and termination rule
+
+-- ============================================================================
+-- 1. Per-session council configuration
+-- ============================================================================
+
+ALTER TABLE research_sessions
+ADD COLUMN IF NOT EXISTS council_config JSONB;
+
+COMMENT ON COLUMN research_sessions.council_config IS
+  '{ personas: [{ id, provider, model }], maxRounds, termination, synthesizer } - overrides the user default';
+
+COMMENT ON COLUMN research_sessions.council_debate IS
+  '[{ round, type: debate|synthesis, converged, messages: [{ agent, persona, role, provider, model, content, stance, timestamp }] }]';
+
+-- ============================================================================
+-- 2. Create user_settings table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Default council configuration for new council runs
+  council_config JSONB,
+
+  -- Metadata
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS for user_settings
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for user_settings
+CREATE POLICY "Users can view own settings" ON user_settings
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own settings" ON user_settings
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own settings" ON user_settings
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Trigger to auto-update user_settings updated_at
+CREATE TRIGGER update_user_settings_updated_at
+  BEFORE UPDATE ON user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,38 @@
+-- Migration: LLM Usage Accounting
+-- Records tokens and estimated cost of every model call, linked to the session or deal it served
+
+-- ============================================================================
+-- 1. Create llm_usage table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES research_sessions(id) ON DELETE CASCADE,
+  deal_id UUID,  -- Legacy deal memo, if the call served one
+  job_id UUID REFERENCES research_jobs(id) ON DELETE SET NULL,
+
+  -- What was called
+  role TEXT,               -- Model registry role (verdict, council-skeptic, chat...)
+  provider TEXT NOT NULL,  -- openai, anthropic, google, local or mock
+  model TEXT NOT NULL,
+
+  -- Consumption
+  input_tokens INTEGER NOT NULL DEFAULT 0 CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL DEFAULT 0 CHECK (output_tokens >= 0),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0),  -- Estimated from list prices at call time
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for llm_usage
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_id_created_at ON llm_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_session_id ON llm_usage(session_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_deal_id ON llm_usage(deal_id);
+
+-- Enable RLS for llm_usage
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for llm_usage (usage is only recorded server-side, with the service role)
+CREATE POLICY "Users can view own usage" ON llm_usage
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,32 @@
+-- Migration: LLM Spend Budgets
+-- Per-user monthly and per-session spend limits, enforced before every model call
+
+-- ============================================================================
+-- 1. Budget limits on user_settings (NULL = unlimited)
+-- ============================================================================
+
+ALTER TABLE user_settings
+ADD COLUMN IF NOT EXISTS monthly_budget_usd NUMERIC(10, 2) CHECK (monthly_budget_usd IS NULL OR monthly_budget_usd >= 0),
+ADD COLUMN IF NOT EXISTS session_budget_usd NUMERIC(10, 2) CHECK (session_budget_usd IS NULL OR session_budget_usd >= 0);
+
+COMMENT ON COLUMN user_settings.monthly_budget_usd IS
+  'Estimated LLM spend allowed per calendar month (UTC) across all sessions and deals';
+
+COMMENT ON COLUMN user_settings.session_budget_usd IS
+  'Estimated LLM spend allowed per research session';
+
+-- ============================================================================
+-- 2. Helper function to sum spend
+-- ============================================================================
+
+-- Spend this calendar month for a user, and all-time spend for one of their sessions
+CREATE OR REPLACE FUNCTION get_llm_spend(
+  p_user_id UUID,
+  p_session_id UUID DEFAULT NULL
+) RETURNS TABLE (monthly_spend_usd NUMERIC, session_spend_usd NUMERIC) AS $$
+  SELECT
+    COALESCE(SUM(cost_usd) FILTER (WHERE created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'), 0),
+    COALESCE(SUM(cost_usd) FILTER (WHERE session_id = p_session_id), 0)
+  FROM llm_usage
+  WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
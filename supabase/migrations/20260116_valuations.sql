@@ -0,0 +1,12 @@
+-- Migration: Intrinsic Value Estimates
+-- Stores the value agent's DCF, EPV and asset valuations for the report's valuation table
+
+-- ============================================================================
+-- 1. Add valuations column to research_sessions
+-- ============================================================================
+
+ALTER TABLE research_sessions
+ADD COLUMN IF NOT EXISTS valuations JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN research_sessions.valuations IS
+  '[{ ticker, method: dcf|epv|net_asset_value|reproduction_value, valuePerShare, equityValue, price, marginOfSafety, assumptions, breakdown, warnings, fiscalYear }]';
@@ -0,0 +1,12 @@
+-- Migration: Peer Comparables
+-- Stores the strategy agents' peer comparables tables for the report
+
+-- ============================================================================
+-- 1. Add comparables column to research_sessions
+-- ============================================================================
+
+ALTER TABLE research_sessions
+ADD COLUMN IF NOT EXISTS comparables JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN research_sessions.comparables IS
+  '[{ ticker, sector, industry, peerSelection, metrics: [{ key, label, format, higherIsBetter }], rows: [{ ticker, name, marketCap, isSubject, values }], stats: { [key]: { median, p25, p75, count, subjectValue, subjectPercentile, subjectRank } }, warnings }]';
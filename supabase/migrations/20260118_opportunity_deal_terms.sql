@@ -0,0 +1,12 @@
+-- Migration: Merger Arbitrage Deal Terms
+-- Stores announced deal terms on research opportunities so the spread can be re-priced
+
+-- ============================================================================
+-- 1. Add deal_terms column to research_opportunities
+-- ============================================================================
+
+ALTER TABLE research_opportunities
+ADD COLUMN IF NOT EXISTS deal_terms JSONB;
+
+COMMENT ON COLUMN research_opportunities.deal_terms IS
+  '{ targetTicker, acquirer, acquirerTicker, cashPerShare, stockRatio, collar: { type: fixed_ratio|fixed_value, stockValue, lowerPrice, upperPrice }, announcementDate, expectedCloseDate, unaffectedPrice }; NULL when the opportunity is not a merger';
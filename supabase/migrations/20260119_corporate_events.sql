@@ -0,0 +1,33 @@
+-- Migration: Corporate Events
+-- Spinoffs, mergers, tender offers, rights offerings, bankruptcies and activist 13Ds parsed from SEC filings
+
+-- ============================================================================
+-- 1. Create corporate_events table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS corporate_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  ticker TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('spinoff', 'merger', 'tender_offer', 'rights_offering', 'bankruptcy', 'activist_13d')),
+
+  -- Source filing
+  form_type TEXT NOT NULL,  -- 10-12B, SC 13D, S-4, 8-K...
+  filed_at DATE NOT NULL,
+  reason TEXT NOT NULL,     -- Why the filing was classified as this event
+  url TEXT NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (url, type)
+);
+
+-- Indexes for corporate_events
+CREATE INDEX IF NOT EXISTS idx_corporate_events_filed_at ON corporate_events(filed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_corporate_events_ticker ON corporate_events(ticker);
+
+-- Enable RLS for corporate_events
+ALTER TABLE corporate_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for corporate_events (events are public filings shared by all
+-- users; workers use the service role and bypass RLS to write them)
+CREATE POLICY "Authenticated users can view corporate events" ON corporate_events
+  FOR SELECT USING (auth.role() = 'authenticated');
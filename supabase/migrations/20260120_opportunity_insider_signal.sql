@@ -0,0 +1,12 @@
+-- Migration: Insider Buying Signal
+-- Stores the insider buying signal on research opportunities for the opportunity card
+
+-- ============================================================================
+-- 1. Add insider_signal column to research_opportunities
+-- ============================================================================
+
+ALTER TABLE research_opportunities
+ADD COLUMN IF NOT EXISTS insider_signal JSONB;
+
+COMMENT ON COLUMN research_opportunities.insider_signal IS
+  '{ ticker, score (0-100), strength: none|weak|moderate|strong, lookbackDays, buyers, purchaseValue, saleValue, cluster: { start, end, insiders, value }, executiveBuys, unusualBuys, reasons, asOf }; NULL when not computed';
@@ -0,0 +1,41 @@
+-- Migration: Institutional Ownership Changes
+-- Per-quarter 13F and mutual fund positions per ticker, and the ownership changes shown to the council
+
+-- ============================================================================
+-- 1. Create institutional_ownership_history table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS institutional_ownership_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  ticker TEXT NOT NULL,
+  holder TEXT NOT NULL,
+  holder_type TEXT NOT NULL CHECK (holder_type IN ('institution', 'mutual_fund')),
+  report_date DATE NOT NULL,  -- Latest 13F report date in the snapshot
+  shares BIGINT NOT NULL,
+  change BIGINT NOT NULL DEFAULT 0,  -- Change since the holder's previous filing, as reported by FMP
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (ticker, holder, holder_type, report_date)
+);
+
+-- Indexes for institutional_ownership_history
+CREATE INDEX IF NOT EXISTS idx_institutional_ownership_history_ticker_date
+  ON institutional_ownership_history(ticker, report_date DESC);
+
+-- Enable RLS for institutional_ownership_history
+ALTER TABLE institutional_ownership_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for institutional_ownership_history (holdings are public filings
+-- shared by all users; workers use the service role and bypass RLS to write them)
+CREATE POLICY "Authenticated users can view ownership history" ON institutional_ownership_history
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- ============================================================================
+-- 2. Add ownership_changes column to research_sessions
+-- ============================================================================
+
+ALTER TABLE research_sessions
+ADD COLUMN IF NOT EXISTS ownership_changes JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN research_sessions.ownership_changes IS
+  '[{ ticker, reportDate, priorReportDate, basis: reported_change|stored_history, holders, counts: { new, exits, adds, trims }, sharesPrior, sharesCurrent, netShareChange, netChangePct, trend: accumulating|distributing|neutral, notableMoves, topBuyers, topSellers, warnings }]';
@@ -0,0 +1,12 @@
+-- Migration: Capital Structures
+-- Stores the capital stack, credit metrics and recovery waterfall from the capital structure tool
+
+-- ============================================================================
+-- 1. Add capital_structures column to research_sessions
+-- ============================================================================
+
+ALTER TABLE research_sessions
+ADD COLUMN IF NOT EXISTS capital_structures JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN research_sessions.capital_structures IS
+  '[{ ticker, asOf, debt: { shortTerm, longTerm, leases, total }, cash, netDebt, ttm: { ebitda, ebit, interestExpense, freeCashFlow }, interestCoverage, ebitdaCoverage, netLeverage, maturities: { dueWithinYear, dueAfterYear, dueWithinYearPct }, liquidity: { cash, annualFreeCashFlow, runwayMonths, coversNearTermMaturities }, waterfall: { distributableValue, basis: input|ebitda_multiple|liquidation, evMultiple, tranches: [{ name, seniority, claim, recovery, recoveryPct }], equityResidual, equityPerShare }, warnings }]';
@@ -0,0 +1,12 @@
+-- Migration: Fact Checks
+-- Stores the quantitative claims extracted from a research report and how each compared with FMP data
+
+-- ============================================================================
+-- 1. Add fact_check column to research_sessions
+-- ============================================================================
+
+ALTER TABLE research_sessions
+ADD COLUMN IF NOT EXISTS fact_check JSONB;
+
+COMMENT ON COLUMN research_sessions.fact_check IS
+  '{ checkedAt, claims: [{ quote, ticker, metric, value, fiscalYear, status: confirmed|contradicted|unverifiable, actual, period, note }], counts: { confirmed, contradicted, unverifiable } }';
@@ -0,0 +1,12 @@
+-- Migration: Research Sources
+-- Stores the citations captured from Gemini research alongside the report
+
+-- ============================================================================
+-- 1. Add research_sources column to research_sessions
+-- ============================================================================
+
+ALTER TABLE research_sessions
+ADD COLUMN IF NOT EXISTS research_sources JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN research_sessions.research_sources IS
+  '[{ id, url, title, snippet, supports: [{ line, text }] }] - id is the footnote number, line the 0-based report line of the supported text';
@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Unit tests never reach a live model or the FMP API
+    env: {
+      LLM_MODE: 'mock',
+      FMP_MODE: 'replay',
+    },
+  },
+});